@@ -0,0 +1,15 @@
+-- Podcasts generated by the Chat agent
+-- A podcasts table from before migrations is left as it is here; the
+-- migration runner adds any of script and audio_data it lacks
+CREATE TABLE IF NOT EXISTS podcasts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  topic TEXT NOT NULL,
+  slug TEXT NOT NULL,
+  url TEXT NOT NULL,
+  script TEXT,
+  audio_data TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_podcasts_slug ON podcasts (slug);
+CREATE INDEX IF NOT EXISTS idx_podcasts_created_at ON podcasts (created_at);
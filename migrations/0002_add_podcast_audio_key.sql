@@ -0,0 +1,4 @@
+-- Audio now lives in the AUDIO R2 bucket; audio_data is only kept until
+-- existing rows have been moved over by moveLegacyAudioToBucket
+ALTER TABLE podcasts ADD COLUMN audio_key TEXT;
+ALTER TABLE podcasts ADD COLUMN audio_size INTEGER;
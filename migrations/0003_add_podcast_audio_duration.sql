@@ -0,0 +1,2 @@
+-- Audio length in seconds, measured from the MP3 frames when the file is stored
+ALTER TABLE podcasts ADD COLUMN audio_duration REAL;
@@ -0,0 +1,5 @@
+-- The user who created each podcast. Rows created before users existed have
+-- no owner and don't show up in anyone's library.
+ALTER TABLE podcasts ADD COLUMN owner_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_podcasts_owner_created_at ON podcasts (owner_id, created_at);
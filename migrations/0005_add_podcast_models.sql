@@ -0,0 +1,4 @@
+-- Models that produced each podcast: the text model that wrote the script
+-- (or picked the slug) and the TTS model that voiced the audio
+ALTER TABLE podcasts ADD COLUMN model TEXT;
+ALTER TABLE podcasts ADD COLUMN tts_model TEXT;
@@ -0,0 +1,13 @@
+-- Slugs used to be made unique with a racy check before inserting, so two
+-- podcasts saved at once could end up sharing one. Keep the oldest and give
+-- the others their id as a suffix, then let the database enforce uniqueness.
+UPDATE podcasts
+SET slug = slug || '-' || id, url = url || '-' || id
+WHERE id NOT IN (SELECT MIN(id) FROM podcasts GROUP BY slug);
+
+DROP INDEX IF EXISTS idx_podcasts_slug;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_podcasts_slug_unique ON podcasts (slug);
+
+-- The generation job that saved the row, so a retried save finds it again
+ALTER TABLE podcasts ADD COLUMN job_id TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_podcasts_job_id ON podcasts (job_id);
@@ -0,0 +1,7 @@
+-- Metadata from structured scripts. chapters, takeaways and tags are JSON
+-- arrays; chapters hold {"heading", "text"} objects.
+ALTER TABLE podcasts ADD COLUMN title TEXT;
+ALTER TABLE podcasts ADD COLUMN description TEXT;
+ALTER TABLE podcasts ADD COLUMN chapters TEXT;
+ALTER TABLE podcasts ADD COLUMN takeaways TEXT;
+ALTER TABLE podcasts ADD COLUMN tags TEXT;
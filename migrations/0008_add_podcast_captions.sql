@@ -0,0 +1,2 @@
+-- Whether timed WebVTT and SRT transcripts were stored next to the audio
+ALTER TABLE podcasts ADD COLUMN has_captions INTEGER NOT NULL DEFAULT 0;
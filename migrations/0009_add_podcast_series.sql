@@ -0,0 +1,5 @@
+-- The series a podcast was published in, if any. Series definitions live in
+-- the owner's agent storage.
+ALTER TABLE podcasts ADD COLUMN series_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_podcasts_series_id ON podcasts (series_id, created_at);
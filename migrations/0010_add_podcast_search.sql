@@ -0,0 +1,33 @@
+-- Podcasts made in accessible mode, which have a full-length transcript.
+-- Until now this was only recorded in the "Accessible: " topic prefix.
+ALTER TABLE podcasts ADD COLUMN accessible INTEGER NOT NULL DEFAULT 0;
+UPDATE podcasts SET accessible = 1 WHERE topic LIKE 'Accessible: %';
+
+-- Full-text index over the searchable columns of podcasts. It stores no text
+-- of its own and is kept in sync by the triggers below.
+CREATE VIRTUAL TABLE IF NOT EXISTS podcasts_fts USING fts5(
+  topic, title, script,
+  content = 'podcasts',
+  content_rowid = 'id',
+  tokenize = 'porter unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER IF NOT EXISTS podcasts_fts_insert AFTER INSERT ON podcasts BEGIN
+  INSERT INTO podcasts_fts (rowid, topic, title, script)
+  VALUES (new.id, new.topic, new.title, new.script);
+END;
+
+CREATE TRIGGER IF NOT EXISTS podcasts_fts_delete AFTER DELETE ON podcasts BEGIN
+  INSERT INTO podcasts_fts (podcasts_fts, rowid, topic, title, script)
+  VALUES ('delete', old.id, old.topic, old.title, old.script);
+END;
+
+CREATE TRIGGER IF NOT EXISTS podcasts_fts_update AFTER UPDATE OF topic, title, script ON podcasts BEGIN
+  INSERT INTO podcasts_fts (podcasts_fts, rowid, topic, title, script)
+  VALUES ('delete', old.id, old.topic, old.title, old.script);
+  INSERT INTO podcasts_fts (rowid, topic, title, script)
+  VALUES (new.id, new.topic, new.title, new.script);
+END;
+
+-- Index the podcasts saved before search existed
+INSERT INTO podcasts_fts (podcasts_fts) VALUES ('rebuild');
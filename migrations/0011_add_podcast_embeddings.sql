@@ -0,0 +1,10 @@
+-- Embedding of each podcast's title, description and tags, used to find
+-- podcasts that match a mood or interest. The vector is a JSON array of
+-- numbers; model records which embedding model produced it, so podcasts are
+-- embedded again when the model changes.
+CREATE TABLE IF NOT EXISTS podcast_embeddings (
+  podcast_id INTEGER PRIMARY KEY REFERENCES podcasts (id) ON DELETE CASCADE,
+  model TEXT NOT NULL,
+  vector TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
@@ -1,28 +1,42 @@
-import { useEffect, useState, useRef, useCallback } from "react";
+import { useEffect, useState, useRef, useCallback, useMemo } from "react";
 import { useAgent } from "agents/react";
 import { useAgentChat } from "agents/ai-react";
 import type { Message } from "@ai-sdk/react";
-import { APPROVAL } from "./shared";
-import type { tools } from "./tools";
+import { APPROVAL, type ConfirmedToolName, requiresConfirmation, TOOL_CONFIRMATIONS } from "./shared";
+import type { ChatState } from "./server";
+import { PodcastJobCard } from "./components/podcast-job/PodcastJobCard";
+import { PodcastLibrary } from "./components/podcast-library/PodcastLibrary";
+import { SchedulesPanel } from "./components/schedules/SchedulesPanel";
+import { ChatToolInvocation } from "./components/tool-results/ChatToolInvocation";
+import { MemoizedMarkdown } from "./components/memoized-markdown";
+import { PlayerProvider } from "./components/player/PlayerProvider";
+import { MiniPlayer } from "./components/player/MiniPlayer";
+import useSession from "./hooks/useSession";
+import useSessionApprovals from "./hooks/useSessionApprovals";
 import { Button } from "./components/ui/button";
 import { Card } from "./components/ui/card";
 import { Input } from "./components/ui/input";
 import { Avatar, AvatarFallback } from "./components/ui/avatar";
 import { Switch } from "./components/ui/switch";
-import { Send, Bot, Trash2, Sun, Moon, Bug } from "lucide-react";
+import { Send, Bot, Trash2, Sun, Moon, Bug, Headphones, CalendarClock } from "lucide-react";
 
-// List of tools that require human confirmation
-const toolsRequiringConfirmation: (keyof typeof tools)[] = [
-  "getWeatherInformation",
-];
+export default function App() {
+  // Each user talks to their own agent instance, named after their user id
+  const userId = useSession();
+  return userId ? <Chat userId={userId} /> : null;
+}
 
-export default function Chat() {
+function Chat({ userId }: { userId: string }) {
   const [theme, setTheme] = useState<"dark" | "light">(() => {
     // Check localStorage first, default to dark if not found
     const savedTheme = localStorage.getItem("theme");
     return (savedTheme as "dark" | "light") || "dark";
   });
   const [showDebug, setShowDebug] = useState(false);
+  const [agentState, setAgentState] = useState<ChatState | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showSchedules, setShowSchedules] = useState(false);
+  const { isAllowedForSession, allowForSession } = useSessionApprovals();
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const scrollToBottom = useCallback(() => {
@@ -53,13 +67,29 @@ export default function Chat() {
     setTheme(newTheme);
   };
 
-  const agent = useAgent({
+  const agent = useAgent<ChatState>({
     agent: "chat",
-    onStateUpdate(state:any, source:any) {
-      console.log(state);
+    name: userId,
+    onStateUpdate(state) {
+      setAgentState(state);
     },
   });
 
+  // Listening positions are saved on the agent so episodes resume on any device
+  const savePlaybackPosition = useCallback(
+    (slug: string, position: number, duration: number) => {
+      agent.call("savePlaybackPosition", [slug, position, duration]).catch((error) => {
+        console.error("Failed to save playback position:", error);
+      });
+    },
+    [agent]
+  );
+
+  // Podcast jobs still in progress get a live progress card
+  const activeJobs = (agentState?.jobs ?? []).filter(
+    (job) => job.status === "running" || job.status === "retrying"
+  );
+
   const {
     messages: agentMessages,
     input: agentInput,
@@ -77,22 +107,37 @@ export default function Chat() {
     agentMessages.length > 0 && scrollToBottom();
   }, [agentMessages, scrollToBottom]);
 
-  const pendingToolCallConfirmation = agentMessages.some((m: Message) =>
-    m.parts?.some(
-      (part) =>
-        part.type === "tool-invocation" &&
-        part.toolInvocation.state === "call" &&
-        toolsRequiringConfirmation.includes(
-          part.toolInvocation.toolName as keyof typeof tools
+  // Tool calls waiting for the user's approval
+  const pendingConfirmations = useMemo(
+    () =>
+      agentMessages.flatMap((m: Message) =>
+        (m.parts ?? []).flatMap((part) =>
+          part.type === "tool-invocation" &&
+          part.toolInvocation.state === "call" &&
+          requiresConfirmation(part.toolInvocation.toolName)
+            ? [part.toolInvocation]
+            : []
         )
-    )
+      ),
+    [agentMessages]
   );
+  const pendingToolCallConfirmation = pendingConfirmations.length > 0;
+
+  // Approve calls to tools the user has allowed for this session
+  useEffect(() => {
+    for (const toolInvocation of pendingConfirmations) {
+      if (isAllowedForSession(toolInvocation.toolName as ConfirmedToolName)) {
+        addToolResult({ toolCallId: toolInvocation.toolCallId, result: APPROVAL.YES });
+      }
+    }
+  }, [pendingConfirmations, isAllowedForSession, addToolResult]);
 
   const formatTime = (date: Date) => {
     return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
   };
 
   return (
+    <PlayerProvider positions={agentState?.playback ?? {}} onSavePosition={savePlaybackPosition}>
     <div className="h-[100vh] w-full bg-gradient-to-br from-[#F48120]/10 via-background/30 to-[#FAAD3F]/10 backdrop-blur-md p-4 flex justify-center items-center bg-fixed overflow-hidden">
       <div className="bg-background h-[calc(100vh-2rem)] w-full mx-auto max-w-lg flex flex-col shadow-xl rounded-md overflow-hidden relative border border-assistant-border/20">
         <div className="px-4 py-3 border-b border-border flex items-center gap-3 bg-background sticky top-0 z-10">
@@ -128,6 +173,32 @@ export default function Chat() {
             />
           </div>
 
+          <Button
+            variant="ghost"
+            size="icon"
+            className="rounded-full h-9 w-9"
+            onClick={() => {
+              setShowLibrary(!showLibrary);
+              setShowSchedules(false);
+            }}
+            aria-label="Toggle podcast library"
+          >
+            <Headphones className="h-5 w-5" />
+          </Button>
+
+          <Button
+            variant="ghost"
+            size="icon"
+            className="rounded-full h-9 w-9"
+            onClick={() => {
+              setShowSchedules(!showSchedules);
+              setShowLibrary(false);
+            }}
+            aria-label="Toggle scheduled tasks"
+          >
+            <CalendarClock className="h-5 w-5" />
+          </Button>
+
           <Button
             variant="ghost"
             size="icon"
@@ -151,6 +222,20 @@ export default function Chat() {
           </Button>
         </div>
 
+        {showLibrary && (
+          <PodcastLibrary
+            podcasts={agentState?.podcasts ?? []}
+            onClose={() => setShowLibrary(false)}
+          />
+        )}
+
+        {showSchedules && (
+          <SchedulesPanel
+            schedules={agentState?.schedules ?? []}
+            onClose={() => setShowSchedules(false)}
+          />
+        )}
+
         {/* Messages */}
         <div className="flex-1 overflow-y-auto p-4 space-y-4 pb-24 max-h-[calc(100vh-10rem)]">
           {agentMessages.length === 0 && (
@@ -236,12 +321,24 @@ export default function Chat() {
                                       🕒
                                     </span>
                                   )}
-                                  <p className="text-sm whitespace-pre-wrap">
-                                    {part.text.replace(
-                                      /^scheduled message: /,
-                                      ""
-                                    )}
-                                  </p>
+                                  {isUser ? (
+                                    <p className="text-sm whitespace-pre-wrap">
+                                      {part.text.replace(
+                                        /^scheduled message: /,
+                                        ""
+                                      )}
+                                    </p>
+                                  ) : (
+                                    <div className="text-sm">
+                                      <MemoizedMarkdown
+                                        id={`${m.id}-${i}`}
+                                        content={part.text.replace(
+                                          /^scheduled message: /,
+                                          ""
+                                        )}
+                                      />
+                                    </div>
+                                  )}
                                 </Card>
                                 <p
                                   className={`text-xs text-muted-foreground mt-1 ${
@@ -257,73 +354,30 @@ export default function Chat() {
                           }
 
                           if (part.type === "tool-invocation") {
-                            const toolInvocation = part.toolInvocation;
-                            const toolCallId = toolInvocation.toolCallId;
-
-                            if (
-                              toolsRequiringConfirmation.includes(
-                                toolInvocation.toolName as keyof typeof tools
-                              ) &&
-                              toolInvocation.state === "call"
-                            ) {
-                              return (
-                                <Card
-                                  // biome-ignore lint/suspicious/noArrayIndexKey: it's fine here
-                                  key={i}
-                                  className="p-4 my-3 bg-secondary/30 border-secondary/50 rounded-md"
-                                >
-                                  <div className="flex items-center gap-2 mb-3">
-                                    <div className="bg-[#F48120]/10 p-1.5 rounded-full">
-                                      <Bot className="h-4 w-4 text-[#F48120]" />
-                                    </div>
-                                    <h4 className="font-medium">
-                                      {toolInvocation.toolName}
-                                    </h4>
-                                  </div>
-
-                                  <div className="mb-3">
-                                    <h5 className="text-xs font-medium mb-1 text-muted-foreground">
-                                      Arguments:
-                                    </h5>
-                                    <pre className="bg-background/80 p-2 rounded-md text-xs overflow-auto">
-                                      {JSON.stringify(
-                                        toolInvocation.args,
-                                        null,
-                                        2
-                                      )}
-                                    </pre>
-                                  </div>
-
-                                  <div className="flex gap-2 justify-end">
-                                    <Button
-                                      variant="outline"
-                                      size="sm"
-                                      onClick={() =>
-                                        addToolResult({
-                                          toolCallId,
-                                          result: APPROVAL.NO,
-                                        })
-                                      }
-                                    >
-                                      Reject
-                                    </Button>
-                                    <Button
-                                      variant="default"
-                                      size="sm"
-                                      onClick={() =>
+                            const { toolInvocation } = part;
+                            const toolName = toolInvocation.toolName;
+                            const canAllowForSession =
+                              requiresConfirmation(toolName) &&
+                              TOOL_CONFIRMATIONS[toolName].allowForSession;
+                            return (
+                              <ChatToolInvocation
+                                // biome-ignore lint/suspicious/noArrayIndexKey: it's fine here
+                                key={i}
+                                toolInvocation={toolInvocation}
+                                addToolResult={addToolResult}
+                                onAllowForSession={
+                                  canAllowForSession
+                                    ? () => {
+                                        allowForSession(toolName);
                                         addToolResult({
-                                          toolCallId,
+                                          toolCallId: toolInvocation.toolCallId,
                                           result: APPROVAL.YES,
-                                        })
+                                        });
                                       }
-                                    >
-                                      Approve
-                                    </Button>
-                                  </div>
-                                </Card>
-                              );
-                            }
-                            return null;
+                                    : undefined
+                                }
+                              />
+                            );
                           }
                           return null;
                           // return (
@@ -343,9 +397,15 @@ export default function Chat() {
               </div>
             );
           })}
+          {activeJobs.map((job) => (
+            <PodcastJobCard key={job.id} job={job} />
+          ))}
           <div ref={messagesEndRef} />
         </div>
 
+        <div className="absolute bottom-0 left-0 right-0 z-10">
+        <MiniPlayer />
+
         {/* Input Area */}
         <form
           onSubmit={(e) =>
@@ -357,7 +417,7 @@ export default function Chat() {
               },
             })
           }
-          className="p-3 bg-input-background absolute bottom-0 left-0 right-0 z-10 border-t border-assistant-border/30"
+          className="p-3 bg-input-background border-t border-assistant-border/30"
         >
           <div className="flex items-center gap-2">
             <div className="flex-1 relative">
@@ -390,7 +450,9 @@ export default function Chat() {
             </Button>
           </div>
         </form>
+        </div>
       </div>
     </div>
+    </PlayerProvider>
   );
-}
\ No newline at end of file
+}
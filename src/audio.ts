@@ -0,0 +1,232 @@
+/**
+ * Podcast audio storage
+ * MP3 files live in the AUDIO R2 bucket under the key recorded in the
+ * podcast's `audio_key` column, and are streamed back to listeners by slug
+ * with HTTP Range support
+ */
+import type { D1Database, R2Bucket } from "@cloudflare/workers-types";
+import { mp3Duration } from "./mp3";
+
+const AUDIO_CONTENT_TYPE = "audio/mpeg";
+
+/**
+ * Bucket key for an audio file. Generated podcasts are stored by job id,
+ * podcasts moved from D1 by slug.
+ */
+export function audioKey(name: string) {
+  return `podcasts/${name}.mp3`;
+}
+
+/**
+ * Public path of the audio route for a podcast
+ */
+export function audioPath(slug: string) {
+  return `/podcasts/${encodeURIComponent(slug)}/audio.mp3`;
+}
+
+/**
+ * Decodes base64 audio (optionally wrapped in a data URL) into raw bytes
+ */
+export function decodeBase64Audio(data: string): Uint8Array {
+  const base64 = data.replace(/^data:[^,]*,/, "");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Writes a podcast's MP3 to the bucket
+ * @returns The bucket key, size in bytes and duration in seconds of the stored file
+ */
+export async function storePodcastAudio(
+  bucket: R2Bucket,
+  name: string,
+  audio: Uint8Array
+) {
+  const key = audioKey(name);
+  await bucket.put(key, audio, {
+    httpMetadata: { contentType: AUDIO_CONTENT_TYPE },
+  });
+  return { key, size: audio.byteLength, duration: mp3Duration(audio) };
+}
+
+type ByteRange = { offset: number; length: number };
+
+/**
+ * Parses a single-range `Range` header against the file size
+ * @returns The requested byte range, null when no usable range was requested,
+ * or "unsatisfiable" when the range lies outside the file
+ */
+export function parseRange(
+  header: string | null,
+  size: number
+): ByteRange | null | "unsatisfiable" {
+  if (!header) return null;
+
+  const match = header.match(/^bytes=(\d*)-(\d*)$/);
+  // Multi-range and malformed headers are ignored and get the full file
+  if (!match || (!match[1] && !match[2])) return null;
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    const suffix = Number(match[2]);
+    if (suffix === 0) return "unsatisfiable";
+    start = Math.max(size - suffix, 0);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  }
+
+  if (start >= size || end < start) return "unsatisfiable";
+  return { offset: start, length: end - start + 1 };
+}
+
+/**
+ * Serves an audio file with Range, ETag and conditional request support
+ */
+export async function serveAudio(
+  request: Request,
+  bucket: R2Bucket,
+  key: string
+): Promise<Response> {
+  const head = await bucket.head(key);
+  if (!head) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const headers = new Headers({
+    "Accept-Ranges": "bytes",
+    "Content-Type": head.httpMetadata?.contentType ?? AUDIO_CONTENT_TYPE,
+    "Cache-Control": "public, max-age=86400",
+    ETag: head.httpEtag,
+  });
+
+  const ifNoneMatch = request.headers.get("If-None-Match");
+  if (ifNoneMatch?.split(/\s*,\s*/).includes(head.httpEtag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  // Ranges only apply while the file still matches the client's copy
+  const ifRange = request.headers.get("If-Range");
+  const range =
+    ifRange && ifRange !== head.httpEtag
+      ? null
+      : parseRange(request.headers.get("Range"), head.size);
+
+  if (range === "unsatisfiable") {
+    headers.set("Content-Range", `bytes */${head.size}`);
+    return new Response("Range not satisfiable", { status: 416, headers });
+  }
+
+  const isHead = request.method === "HEAD";
+  const object = isHead
+    ? null
+    : await bucket.get(key, range ? { range } : undefined);
+  if (!isHead && !object) {
+    return new Response("Not found", { status: 404 });
+  }
+  const body = (object?.body ?? null) as ReadableStream | null;
+
+  if (range) {
+    const end = range.offset + range.length - 1;
+    headers.set("Content-Range", `bytes ${range.offset}-${end}/${head.size}`);
+    headers.set("Content-Length", String(range.length));
+    return new Response(body, { status: 206, headers });
+  }
+
+  headers.set("Content-Length", String(head.size));
+  return new Response(body, { status: 200, headers });
+}
+
+/**
+ * Looks up a podcast's audio key by slug and serves the file
+ */
+export async function servePodcastAudio(
+  request: Request,
+  db: D1Database,
+  bucket: R2Bucket,
+  slug: string
+): Promise<Response> {
+  const key = await db
+    .prepare("SELECT audio_key FROM podcasts WHERE slug = ?")
+    .bind(slug)
+    .first<string | null>("audio_key");
+  if (!key) {
+    return new Response("Not found", { status: 404 });
+  }
+  return serveAudio(request, bucket, key);
+}
+
+/**
+ * One-off move of audio stored as base64 data URLs in `podcasts.audio_data`
+ * into the bucket. Rows are handled in small batches and the column is
+ * cleared once the file is uploaded, so it is safe to run repeatedly.
+ * A row that fails to decode or upload is logged and skipped, so it doesn't
+ * hold up the rows after it; it is tried again on the next run.
+ * @returns The number of podcasts whose audio was moved
+ */
+export async function moveLegacyAudioToBucket(
+  db: D1Database,
+  bucket: R2Bucket,
+  batchSize = 10
+): Promise<number> {
+  let moved = 0;
+  let lastId = 0;
+
+  while (true) {
+    const { results } = await db
+      .prepare(
+        `SELECT id, slug, audio_data FROM podcasts
+         WHERE audio_data IS NOT NULL AND audio_key IS NULL AND id > ?
+         ORDER BY id
+         LIMIT ?`
+      )
+      .bind(lastId, batchSize)
+      .all<{ id: number; slug: string; audio_data: string }>();
+
+    if (results.length === 0) return moved;
+
+    for (const row of results) {
+      lastId = row.id;
+      try {
+        const { key, size, duration } = await storePodcastAudio(
+          bucket,
+          row.slug,
+          decodeBase64Audio(row.audio_data)
+        );
+        await db
+          .prepare(
+            `UPDATE podcasts
+             SET audio_key = ?, audio_size = ?, audio_duration = ?, audio_data = NULL
+             WHERE id = ?`
+          )
+          .bind(key, size, duration, row.id)
+          .run();
+        moved++;
+      } catch (error) {
+        console.error(`Failed to move audio for podcast ${row.slug}:`, error);
+      }
+    }
+    console.log(`Moved audio for ${moved} podcasts into the bucket`);
+  }
+}
+
+let pendingAudioMove: Promise<number> | null = null;
+
+/**
+ * Runs the legacy audio move once per isolate; a failed run is retried later
+ */
+export function ensureLegacyAudioMoved(
+  db: D1Database,
+  bucket: R2Bucket
+): Promise<number> {
+  if (!pendingAudioMove) {
+    pendingAudioMove = moveLegacyAudioToBucket(db, bucket).catch((error) => {
+      pendingAudioMove = null;
+      console.error("Failed to move legacy podcast audio:", error);
+      return 0;
+    });
+  }
+  return pendingAudioMove;
+}
@@ -0,0 +1,175 @@
+/**
+ * User sessions
+ * Visitors are identified by a user id carried in an HMAC-signed session
+ * cookie, which the worker issues on the first visit. API clients can send
+ * the same token as a bearer token. Every user gets their own Chat agent
+ * instance, named after their user id.
+ */
+
+export const SESSION_COOKIE = "podcast_session";
+
+// Sessions last a year; the cookie is refreshed whenever a new one is issued
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 365;
+
+const USER_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+
+// Feed tokens sign the user id with this prefix, so a feed URL can't be used
+// as a session token
+const FEED_TOKEN_PREFIX = "feed:";
+
+const encoder = new TextEncoder();
+
+function importKey(secret: string) {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string) {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+async function signToken(userId: string, secret: string, prefix: string) {
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await importKey(secret),
+    encoder.encode(`${prefix}${userId}`)
+  );
+  return `${userId}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+async function verifyToken(
+  token: string,
+  secret: string,
+  prefix: string
+): Promise<string | null> {
+  const separator = token.lastIndexOf(".");
+  const userId = token.slice(0, separator);
+  if (separator === -1 || !USER_ID_PATTERN.test(userId)) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await importKey(secret),
+      fromBase64Url(token.slice(separator + 1)),
+      encoder.encode(`${prefix}${userId}`)
+    );
+    return valid ? userId : null;
+  } catch {
+    // Signature was not valid base64
+    return null;
+  }
+}
+
+/**
+ * Creates a session token for a user: `<userId>.<signature>`
+ */
+export function signSessionToken(userId: string, secret: string) {
+  return signToken(userId, secret, "");
+}
+
+/**
+ * Checks a session token's signature
+ * @returns The user id, or null if the token is malformed or forged
+ */
+export function verifySessionToken(token: string, secret: string) {
+  return verifyToken(token, secret, "");
+}
+
+/**
+ * Creates the token that addresses a user's podcast feed. Podcast apps can't
+ * send the session cookie, so the feed URL carries this token instead.
+ */
+export function signFeedToken(userId: string, secret: string) {
+  return signToken(userId, secret, FEED_TOKEN_PREFIX);
+}
+
+/**
+ * Checks a feed token's signature
+ * @returns The user id, or null if the token is malformed or forged
+ */
+export function verifyFeedToken(token: string, secret: string) {
+  return verifyToken(token, secret, FEED_TOKEN_PREFIX);
+}
+
+function readSessionToken(request: Request) {
+  const authorization = request.headers.get("Authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+
+  for (const cookie of (request.headers.get("Cookie") ?? "").split(";")) {
+    const [name, ...value] = cookie.trim().split("=");
+    if (name === SESSION_COOKIE) return value.join("=");
+  }
+  return null;
+}
+
+/**
+ * Identifies the user making a request from its bearer token or session cookie
+ * @returns The user id, or null if the request has no valid session
+ */
+export async function authenticate(request: Request, secret: string) {
+  const token = readSessionToken(request);
+  return token ? verifySessionToken(token, secret) : null;
+}
+
+/**
+ * `Set-Cookie` header value for a session token
+ */
+export function sessionCookie(token: string, secure: boolean) {
+  return [
+    `${SESSION_COOKIE}=${token}`,
+    "Path=/",
+    "HttpOnly",
+    "SameSite=Lax",
+    `Max-Age=${SESSION_MAX_AGE_SECONDS}`,
+    ...(secure ? ["Secure"] : []),
+  ].join("; ");
+}
+
+/**
+ * Returns the caller's user id, starting a new session with a fresh user id
+ * if the request does not have a valid one
+ */
+export async function serveSession(
+  request: Request,
+  secret: string
+): Promise<Response> {
+  const headers = new Headers({
+    "Content-Type": "application/json",
+    "Cache-Control": "no-store",
+  });
+
+  let userId = await authenticate(request, secret);
+  if (!userId) {
+    userId = crypto.randomUUID();
+    const token = await signSessionToken(userId, secret);
+    const secure = new URL(request.url).protocol === "https:";
+    headers.append("Set-Cookie", sessionCookie(token, secure));
+  }
+
+  return new Response(JSON.stringify({ userId }), { headers });
+}
+
+/**
+ * The agent instance name addressed by an `/agents/:agent/:name/...` path
+ * @returns The decoded name, or null for paths outside the agents route
+ * @throws URIError when the name isn't valid percent-encoding
+ */
+export function agentInstanceName(pathname: string) {
+  const match = pathname.match(/^\/agents\/[^/]+\/([^/]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
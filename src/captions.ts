@@ -0,0 +1,186 @@
+/**
+ * Timed transcripts
+ * Every TTS chunk is measured once it is voiced, so the position of each
+ * chunk in the episode is known exactly. Within a chunk, its sentences are
+ * given a share of the chunk's duration in proportion to their length. The
+ * cues are written as WebVTT and SRT caption files next to the audio.
+ */
+import type { D1Database, R2Bucket } from "@cloudflare/workers-types";
+import { splitSentences } from "./tts";
+
+/** Longest cue text, two lines of the usual 42 characters */
+export const MAX_CUE_CHARS = 84;
+
+export const CAPTION_FORMATS = {
+  vtt: { contentType: "text/vtt" },
+  srt: { contentType: "application/x-subrip" },
+} as const;
+export type CaptionFormat = keyof typeof CAPTION_FORMATS;
+
+/**
+ * Text read aloud in one go, and how long it took
+ */
+export type TimedText = {
+  text: string;
+  /** Seconds */
+  duration: number;
+  /** Label of the host reading it, for conversations */
+  speaker?: string;
+};
+
+export type Cue = {
+  /** Seconds from the start of the episode */
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+};
+
+/**
+ * Splits text into caption-sized lines: sentences, with sentences longer
+ * than `maxChars` wrapped between words
+ */
+export function captionLines(text: string, maxChars = MAX_CUE_CHARS) {
+  const lines: string[] = [];
+  for (const sentence of splitSentences(text.replace(/\s+/g, " "))) {
+    let current = "";
+    for (const word of sentence.split(" ")) {
+      if (current && current.length + word.length + 1 > maxChars) {
+        lines.push(current);
+        current = "";
+      }
+      current = current ? `${current} ${word}` : word;
+    }
+    if (current) lines.push(current);
+  }
+  return lines;
+}
+
+/**
+ * Lays the spoken text end to end and splits it into cues
+ */
+export function captionCues(spoken: TimedText[]): Cue[] {
+  const cues: Cue[] = [];
+  let offset = 0;
+  for (const { text, duration, speaker } of spoken) {
+    const lines = captionLines(text);
+    const totalChars = lines.reduce((total, line) => total + line.length, 0);
+
+    let start = offset;
+    for (const line of lines) {
+      const end = start + (duration * line.length) / totalChars;
+      cues.push({ start, end, text: line, ...(speaker ? { speaker } : {}) });
+      start = end;
+    }
+    offset += duration;
+  }
+  return cues;
+}
+
+/**
+ * Formats seconds as `HH:MM:SS.mmm`, or `HH:MM:SS,mmm` for SRT
+ */
+export function formatCueTime(seconds: number, separator: "." | "," = ".") {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  return `${[hours, minutes, secs]
+    .map((n) => String(n).padStart(2, "0"))
+    .join(":")}${separator}${String(ms).padStart(3, "0")}`;
+}
+
+function escapeCueText(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Renders cues as a WebVTT file, with speakers as voice spans
+ */
+export function renderWebVtt(cues: Cue[]) {
+  const blocks = cues.map((cue) => {
+    const text = escapeCueText(cue.text);
+    return `${formatCueTime(cue.start)} --> ${formatCueTime(cue.end)}\n${
+      cue.speaker ? `<v ${escapeCueText(cue.speaker)}>${text}` : text
+    }`;
+  });
+  return `${["WEBVTT", ...blocks].join("\n\n")}\n`;
+}
+
+/**
+ * Renders cues as an SRT file, with speakers as a label before the text
+ */
+export function renderSrt(cues: Cue[]) {
+  return cues
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatCueTime(cue.start, ",")} --> ${formatCueTime(cue.end, ",")}\n${
+          cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text
+        }\n`
+    )
+    .join("\n");
+}
+
+/**
+ * Bucket key of a caption file stored next to an episode's audio
+ */
+export function captionsKey(audioKey: string, format: CaptionFormat) {
+  return `${audioKey.replace(/\.mp3$/, "")}.${format}`;
+}
+
+/**
+ * Public path of the transcript route for a podcast
+ */
+export function captionsPath(slug: string, format: CaptionFormat) {
+  return `/podcasts/${encodeURIComponent(slug)}/transcript.${format}`;
+}
+
+/**
+ * Writes the WebVTT and SRT files for an episode next to its audio
+ */
+export async function storeCaptions(
+  bucket: R2Bucket,
+  audioKey: string,
+  cues: Cue[]
+) {
+  await Promise.all([
+    bucket.put(captionsKey(audioKey, "vtt"), renderWebVtt(cues), {
+      httpMetadata: { contentType: CAPTION_FORMATS.vtt.contentType },
+    }),
+    bucket.put(captionsKey(audioKey, "srt"), renderSrt(cues), {
+      httpMetadata: { contentType: CAPTION_FORMATS.srt.contentType },
+    }),
+  ]);
+}
+
+/**
+ * Looks up a podcast's audio key by slug and serves one of its caption files
+ */
+export async function servePodcastCaptions(
+  db: D1Database,
+  bucket: R2Bucket,
+  slug: string,
+  format: CaptionFormat
+): Promise<Response> {
+  const key = await db
+    .prepare(
+      "SELECT audio_key FROM podcasts WHERE slug = ? AND has_captions = 1"
+    )
+    .bind(slug)
+    .first<string | null>("audio_key");
+  const object = key ? await bucket.get(captionsKey(key, format)) : null;
+  if (!object) {
+    return new Response("Not found", { status: 404 });
+  }
+  return new Response(object.body as ReadableStream, {
+    headers: {
+      "Content-Type": `${CAPTION_FORMATS[format].contentType}; charset=utf-8`,
+      "Cache-Control": "public, max-age=86400",
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
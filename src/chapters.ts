@@ -0,0 +1,212 @@
+/**
+ * Chapter markers
+ * Each script chapter becomes a marker with the start and end time of its
+ * audio. Markers are written into the MP3 as ID3v2.3 CHAP frames under a
+ * CTOC table of contents, and published as a Podcasting 2.0 chapters file
+ * for podcast apps that read chapters from the feed instead.
+ */
+import type { D1Database, R2Bucket } from "@cloudflare/workers-types";
+import { id3v2Size } from "./mp3";
+
+export const CHAPTERS_CONTENT_TYPE = "application/json+chapters";
+
+export type ChapterMarker = {
+  title: string;
+  /** Seconds from the start of the episode */
+  startTime: number;
+  endTime: number;
+};
+
+/**
+ * Lays chapters end to end
+ * @param durations - Length in seconds of each chapter's audio
+ */
+export function chapterMarkers(
+  titles: string[],
+  durations: number[]
+): ChapterMarker[] {
+  let startTime = 0;
+  return titles.map((title, index) => {
+    const endTime = startTime + (durations[index] ?? 0);
+    const marker = { title, startTime, endTime };
+    startTime = endTime;
+    return marker;
+  });
+}
+
+/**
+ * Bucket key of the chapters file stored next to an episode's audio
+ */
+export function chaptersKey(audioKey: string) {
+  return `${audioKey.replace(/\.mp3$/, "")}.chapters.json`;
+}
+
+/**
+ * Public path of the chapters route for a podcast
+ */
+export function chaptersPath(slug: string) {
+  return `/podcasts/${encodeURIComponent(slug)}/chapters.json`;
+}
+
+/**
+ * The Podcasting 2.0 JSON chapters document for the markers
+ * @see https://github.com/Podcastindex-org/podcast-namespace/blob/main/chapters/jsonChapters.md
+ */
+export function podcastChaptersJson(markers: ChapterMarker[]) {
+  return JSON.stringify({
+    version: "1.2.0",
+    chapters: markers.map((marker) => ({
+      startTime: roundSeconds(marker.startTime),
+      endTime: roundSeconds(marker.endTime),
+      title: marker.title,
+    })),
+  });
+}
+
+function roundSeconds(seconds: number) {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+// ID3v2.3 text frames start with an encoding byte: ISO-8859-1 when the text
+// fits, otherwise UTF-16 with a byte order mark
+function encodeText(text: string) {
+  if (Array.from(text).every((char) => char.charCodeAt(0) <= 0xff)) {
+    return Uint8Array.from([0x00, ...Array.from(text, (c) => c.charCodeAt(0))]);
+  }
+  const bytes = [0x01, 0xff, 0xfe];
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes.push(code & 0xff, code >> 8);
+  }
+  return Uint8Array.from(bytes);
+}
+
+function concatBytes(parts: Uint8Array[]) {
+  const output = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0)
+  );
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+function uint32(value: number) {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+}
+
+function ascii(text: string) {
+  return Uint8Array.from(text, (c) => c.charCodeAt(0));
+}
+
+function id3Frame(id: string, ...body: Uint8Array[]) {
+  const content = concatBytes(body);
+  // 4-byte id, 4-byte size (not syncsafe in v2.3) and 2 bytes of flags
+  return concatBytes([
+    ascii(id),
+    uint32(content.length),
+    new Uint8Array(2),
+    content,
+  ]);
+}
+
+function titleFrame(title: string) {
+  return id3Frame("TIT2", encodeText(title));
+}
+
+/**
+ * Replaces the MP3's ID3 tag with an ID3v2.3 tag holding the episode title
+ * and a CHAP frame per marker, listed in order by a top-level CTOC frame
+ */
+export function writeId3Chapters(
+  mp3: Uint8Array,
+  title: string,
+  markers: ChapterMarker[]
+): Uint8Array {
+  const elementIds = markers.map((_, index) => `chp${index}`);
+  const noOffset = uint32(0xffffffff);
+
+  const chapterFrames = markers.map((marker, index) =>
+    id3Frame(
+      "CHAP",
+      ascii(`${elementIds[index]}\0`),
+      uint32(Math.round(marker.startTime * 1000)),
+      uint32(Math.round(marker.endTime * 1000)),
+      noOffset,
+      noOffset,
+      titleFrame(marker.title)
+    )
+  );
+  // Flags: top-level (0x02) and ordered (0x01)
+  const tableOfContents = id3Frame(
+    "CTOC",
+    ascii("toc\0"),
+    Uint8Array.from([0x03, elementIds.length]),
+    ascii(elementIds.map((id) => `${id}\0`).join("")),
+    titleFrame(title)
+  );
+
+  const frames = concatBytes([
+    titleFrame(title),
+    tableOfContents,
+    ...chapterFrames,
+  ]);
+  const size = frames.length;
+  const header = Uint8Array.from([
+    0x49, // I
+    0x44, // D
+    0x33, // 3
+    0x03,
+    0x00,
+    0x00,
+    // Tag size is a 28-bit "syncsafe" integer
+    (size >> 21) & 0x7f,
+    (size >> 14) & 0x7f,
+    (size >> 7) & 0x7f,
+    size & 0x7f,
+  ]);
+
+  return concatBytes([header, frames, mp3.subarray(id3v2Size(mp3))]);
+}
+
+/**
+ * Writes the chapters file for an episode next to its audio
+ */
+export async function storeChapters(
+  bucket: R2Bucket,
+  audioKey: string,
+  markers: ChapterMarker[]
+) {
+  await bucket.put(chaptersKey(audioKey), podcastChaptersJson(markers), {
+    httpMetadata: { contentType: CHAPTERS_CONTENT_TYPE },
+  });
+}
+
+/**
+ * Looks up a podcast's audio key by slug and serves its chapters file
+ */
+export async function servePodcastChapters(
+  db: D1Database,
+  bucket: R2Bucket,
+  slug: string
+): Promise<Response> {
+  const key = await db
+    .prepare("SELECT audio_key FROM podcasts WHERE slug = ?")
+    .bind(slug)
+    .first<string | null>("audio_key");
+  const object = key ? await bucket.get(chaptersKey(key)) : null;
+  if (!object) {
+    return new Response("Not found", { status: 404 });
+  }
+  return new Response(object.body as ReadableStream, {
+    headers: {
+      "Content-Type": CHAPTERS_CONTENT_TYPE,
+      "Cache-Control": "public, max-age=86400",
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
@@ -0,0 +1,110 @@
+/**
+ * Chat model providers
+ * The model behind the chat is chosen with the LLM_PROVIDER variable:
+ * OpenAI, Workers AI through the `AI` binding, or any OpenAI-compatible API
+ */
+import type { Ai } from "@cloudflare/workers-types";
+import { createOpenAI } from "@ai-sdk/openai";
+import type { LanguageModelV1 } from "ai";
+import { createWorkersAI } from "workers-ai-provider";
+
+// The provider types the binding with the global `Ai`, which differs
+// slightly from the one in @cloudflare/workers-types
+type WorkersAIBinding = Extract<
+  Parameters<typeof createWorkersAI>[0],
+  { binding: object }
+>["binding"];
+type WorkersAIModel = Parameters<ReturnType<typeof createWorkersAI>>[0];
+
+export const CHAT_PROVIDERS = [
+  "openai",
+  "workers-ai",
+  "openai-compatible",
+] as const;
+export type ChatProvider = (typeof CHAT_PROVIDERS)[number];
+
+/**
+ * Model used when LLM_MODEL is not set. OpenAI-compatible APIs have no
+ * sensible default, so they always need LLM_MODEL.
+ */
+export const DEFAULT_CHAT_MODELS: Record<ChatProvider, string | null> = {
+  openai: "gpt-4o-2024-11-20",
+  "workers-ai": "@cf/meta/llama-4-scout-17b-16e-instruct",
+  "openai-compatible": null,
+};
+
+export type ChatModelEnv = {
+  AI: Ai;
+  /** One of CHAT_PROVIDERS; defaults to OpenAI when a key is set, else Workers AI */
+  LLM_PROVIDER?: string;
+  /** Overrides the provider's default model */
+  LLM_MODEL?: string;
+  /** Base URL of the OpenAI-compatible API */
+  LLM_BASE_URL?: string;
+  /** API key for the OpenAI-compatible API */
+  LLM_API_KEY?: string;
+  OPENAI_API_KEY?: string;
+  /** Optional Cloudflare AI Gateway URL to send OpenAI requests through */
+  GATEWAY_BASE_URL?: string;
+};
+
+/**
+ * Which provider the chat uses
+ */
+export function resolveChatProvider(env: ChatModelEnv): ChatProvider {
+  if (env.LLM_PROVIDER) {
+    return env.LLM_PROVIDER as ChatProvider;
+  }
+  return env.OPENAI_API_KEY ? "openai" : "workers-ai";
+}
+
+/**
+ * Checks that the configured provider has everything it needs
+ * @returns A description of the problem, or null if the config is usable
+ */
+export function chatModelConfigError(env: ChatModelEnv): string | null {
+  const provider = resolveChatProvider(env);
+  if (!CHAT_PROVIDERS.includes(provider)) {
+    return `LLM_PROVIDER must be one of ${CHAT_PROVIDERS.join(", ")}, got "${provider}"`;
+  }
+  if (provider === "openai" && !env.OPENAI_API_KEY) {
+    return "OPENAI_API_KEY is not set";
+  }
+  if (provider === "openai-compatible") {
+    if (!env.LLM_BASE_URL) return "LLM_BASE_URL is not set";
+    if (!env.LLM_MODEL) return "LLM_MODEL is not set";
+  }
+  return null;
+}
+
+/**
+ * Creates the AI SDK model for the configured provider
+ */
+export function createChatModel(env: ChatModelEnv): LanguageModelV1 {
+  const error = chatModelConfigError(env);
+  if (error) {
+    throw new Error(`Invalid chat model config: ${error}`);
+  }
+
+  const provider = resolveChatProvider(env);
+  const modelId = env.LLM_MODEL || DEFAULT_CHAT_MODELS[provider]!;
+
+  switch (provider) {
+    case "openai":
+      return createOpenAI({
+        apiKey: env.OPENAI_API_KEY,
+        baseURL: env.GATEWAY_BASE_URL || undefined,
+      })(modelId);
+    case "workers-ai":
+      return createWorkersAI({
+        binding: env.AI as unknown as WorkersAIBinding,
+      })(modelId as WorkersAIModel);
+    case "openai-compatible":
+      return createOpenAI({
+        name: "openai-compatible",
+        apiKey: env.LLM_API_KEY,
+        baseURL: env.LLM_BASE_URL,
+        compatibility: "compatible",
+      })(modelId);
+  }
+}
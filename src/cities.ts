@@ -0,0 +1,787 @@
+/**
+ * Offline city to time zone dataset
+ * Every city that names a zone in the tz database's zone.tab, plus major
+ * cities that share a zone named after another city. Entries are
+ * `[city, country code, region, IANA zone]`.
+ */
+
+export type CityEntry = [
+  city: string,
+  country: string,
+  region: string | null,
+  timeZone: string,
+];
+
+/** Country names by ISO 3166 code, as spelled in iso3166.tab */
+export const COUNTRIES: Record<string, string> = {
+  AD: "Andorra",
+  AE: "United Arab Emirates",
+  AF: "Afghanistan",
+  AG: "Antigua & Barbuda",
+  AI: "Anguilla",
+  AL: "Albania",
+  AM: "Armenia",
+  AO: "Angola",
+  AR: "Argentina",
+  AS: "Samoa (American)",
+  AT: "Austria",
+  AU: "Australia",
+  AW: "Aruba",
+  AX: "Åland Islands",
+  AZ: "Azerbaijan",
+  BA: "Bosnia & Herzegovina",
+  BB: "Barbados",
+  BD: "Bangladesh",
+  BE: "Belgium",
+  BF: "Burkina Faso",
+  BG: "Bulgaria",
+  BH: "Bahrain",
+  BI: "Burundi",
+  BJ: "Benin",
+  BL: "St Barthelemy",
+  BM: "Bermuda",
+  BN: "Brunei",
+  BO: "Bolivia",
+  BQ: "Caribbean NL",
+  BR: "Brazil",
+  BS: "Bahamas",
+  BT: "Bhutan",
+  BW: "Botswana",
+  BY: "Belarus",
+  BZ: "Belize",
+  CA: "Canada",
+  CC: "Cocos (Keeling) Islands",
+  CD: "Congo (Dem. Rep.)",
+  CF: "Central African Rep.",
+  CG: "Congo (Rep.)",
+  CH: "Switzerland",
+  CI: "Côte d'Ivoire",
+  CK: "Cook Islands",
+  CL: "Chile",
+  CM: "Cameroon",
+  CN: "China",
+  CO: "Colombia",
+  CR: "Costa Rica",
+  CU: "Cuba",
+  CV: "Cape Verde",
+  CW: "Curaçao",
+  CX: "Christmas Island",
+  CY: "Cyprus",
+  CZ: "Czech Republic",
+  DE: "Germany",
+  DJ: "Djibouti",
+  DK: "Denmark",
+  DM: "Dominica",
+  DO: "Dominican Republic",
+  DZ: "Algeria",
+  EC: "Ecuador",
+  EE: "Estonia",
+  EG: "Egypt",
+  EH: "Western Sahara",
+  ER: "Eritrea",
+  ES: "Spain",
+  ET: "Ethiopia",
+  FI: "Finland",
+  FJ: "Fiji",
+  FK: "Falkland Islands",
+  FM: "Micronesia",
+  FO: "Faroe Islands",
+  FR: "France",
+  GA: "Gabon",
+  GB: "Britain (UK)",
+  GD: "Grenada",
+  GE: "Georgia",
+  GF: "French Guiana",
+  GG: "Guernsey",
+  GH: "Ghana",
+  GI: "Gibraltar",
+  GL: "Greenland",
+  GM: "Gambia",
+  GN: "Guinea",
+  GP: "Guadeloupe",
+  GQ: "Equatorial Guinea",
+  GR: "Greece",
+  GS: "South Georgia & the South Sandwich Islands",
+  GT: "Guatemala",
+  GU: "Guam",
+  GW: "Guinea-Bissau",
+  GY: "Guyana",
+  HK: "Hong Kong",
+  HN: "Honduras",
+  HR: "Croatia",
+  HT: "Haiti",
+  HU: "Hungary",
+  ID: "Indonesia",
+  IE: "Ireland",
+  IL: "Israel",
+  IM: "Isle of Man",
+  IN: "India",
+  IO: "British Indian Ocean Territory",
+  IQ: "Iraq",
+  IR: "Iran",
+  IS: "Iceland",
+  IT: "Italy",
+  JE: "Jersey",
+  JM: "Jamaica",
+  JO: "Jordan",
+  JP: "Japan",
+  KE: "Kenya",
+  KG: "Kyrgyzstan",
+  KH: "Cambodia",
+  KI: "Kiribati",
+  KM: "Comoros",
+  KN: "St Kitts & Nevis",
+  KP: "Korea (North)",
+  KR: "Korea (South)",
+  KW: "Kuwait",
+  KY: "Cayman Islands",
+  KZ: "Kazakhstan",
+  LA: "Laos",
+  LB: "Lebanon",
+  LC: "St Lucia",
+  LI: "Liechtenstein",
+  LK: "Sri Lanka",
+  LR: "Liberia",
+  LS: "Lesotho",
+  LT: "Lithuania",
+  LU: "Luxembourg",
+  LV: "Latvia",
+  LY: "Libya",
+  MA: "Morocco",
+  MC: "Monaco",
+  MD: "Moldova",
+  ME: "Montenegro",
+  MF: "St Martin (French)",
+  MG: "Madagascar",
+  MH: "Marshall Islands",
+  MK: "North Macedonia",
+  ML: "Mali",
+  MM: "Myanmar (Burma)",
+  MN: "Mongolia",
+  MO: "Macau",
+  MP: "Northern Mariana Islands",
+  MQ: "Martinique",
+  MR: "Mauritania",
+  MS: "Montserrat",
+  MT: "Malta",
+  MU: "Mauritius",
+  MV: "Maldives",
+  MW: "Malawi",
+  MX: "Mexico",
+  MY: "Malaysia",
+  MZ: "Mozambique",
+  NA: "Namibia",
+  NC: "New Caledonia",
+  NE: "Niger",
+  NF: "Norfolk Island",
+  NG: "Nigeria",
+  NI: "Nicaragua",
+  NL: "Netherlands",
+  NO: "Norway",
+  NP: "Nepal",
+  NR: "Nauru",
+  NU: "Niue",
+  NZ: "New Zealand",
+  OM: "Oman",
+  PA: "Panama",
+  PE: "Peru",
+  PF: "French Polynesia",
+  PG: "Papua New Guinea",
+  PH: "Philippines",
+  PK: "Pakistan",
+  PL: "Poland",
+  PM: "St Pierre & Miquelon",
+  PN: "Pitcairn",
+  PR: "Puerto Rico",
+  PS: "Palestine",
+  PT: "Portugal",
+  PW: "Palau",
+  PY: "Paraguay",
+  QA: "Qatar",
+  RE: "Réunion",
+  RO: "Romania",
+  RS: "Serbia",
+  RU: "Russia",
+  RW: "Rwanda",
+  SA: "Saudi Arabia",
+  SB: "Solomon Islands",
+  SC: "Seychelles",
+  SD: "Sudan",
+  SE: "Sweden",
+  SG: "Singapore",
+  SH: "St Helena",
+  SI: "Slovenia",
+  SK: "Slovakia",
+  SL: "Sierra Leone",
+  SM: "San Marino",
+  SN: "Senegal",
+  SO: "Somalia",
+  SR: "Suriname",
+  SS: "South Sudan",
+  ST: "Sao Tome & Principe",
+  SV: "El Salvador",
+  SX: "St Maarten (Dutch)",
+  SY: "Syria",
+  SZ: "Eswatini (Swaziland)",
+  TC: "Turks & Caicos Is",
+  TD: "Chad",
+  TF: "French S. Terr.",
+  TG: "Togo",
+  TH: "Thailand",
+  TJ: "Tajikistan",
+  TK: "Tokelau",
+  TL: "East Timor",
+  TM: "Turkmenistan",
+  TN: "Tunisia",
+  TO: "Tonga",
+  TR: "Turkey",
+  TT: "Trinidad & Tobago",
+  TV: "Tuvalu",
+  TW: "Taiwan",
+  TZ: "Tanzania",
+  UA: "Ukraine",
+  UG: "Uganda",
+  UM: "US minor outlying islands",
+  US: "United States",
+  UY: "Uruguay",
+  UZ: "Uzbekistan",
+  VA: "Vatican City",
+  VC: "St Vincent",
+  VE: "Venezuela",
+  VG: "Virgin Islands (UK)",
+  VI: "Virgin Islands (US)",
+  VN: "Vietnam",
+  VU: "Vanuatu",
+  WF: "Wallis & Futuna",
+  WS: "Samoa (western)",
+  YE: "Yemen",
+  YT: "Mayotte",
+  ZA: "South Africa",
+  ZM: "Zambia",
+  ZW: "Zimbabwe",
+};
+
+export const CITIES: CityEntry[] = [
+  ["Abidjan", "CI", null, "Africa/Abidjan"],
+  ["Abu Dhabi", "AE", null, "Asia/Dubai"],
+  ["Accra", "GH", null, "Africa/Accra"],
+  ["Adak", "US", "Alaska", "America/Adak"],
+  ["Addis Ababa", "ET", null, "Africa/Addis_Ababa"],
+  ["Adelaide", "AU", "South Australia", "Australia/Adelaide"],
+  ["Aden", "YE", null, "Asia/Aden"],
+  ["Albuquerque", "US", "New Mexico", "America/Denver"],
+  ["Alexandria", "EG", null, "Africa/Cairo"],
+  ["Algiers", "DZ", null, "Africa/Algiers"],
+  ["Almaty", "KZ", null, "Asia/Almaty"],
+  ["Amman", "JO", null, "Asia/Amman"],
+  ["Amsterdam", "NL", null, "Europe/Amsterdam"],
+  ["Anadyr", "RU", null, "Asia/Anadyr"],
+  ["Anchorage", "US", "Alaska", "America/Anchorage"],
+  ["Anchorage", "US", "Alaska", "America/Anchorage"],
+  ["Andorra", "AD", null, "Europe/Andorra"],
+  ["Anguilla", "AI", null, "America/Anguilla"],
+  ["Ankara", "TR", null, "Europe/Istanbul"],
+  ["Antananarivo", "MG", null, "Indian/Antananarivo"],
+  ["Antigua", "AG", null, "America/Antigua"],
+  ["Antwerp", "BE", null, "Europe/Brussels"],
+  ["Apia", "WS", null, "Pacific/Apia"],
+  ["Aqtau", "KZ", null, "Asia/Aqtau"],
+  ["Aqtobe", "KZ", null, "Asia/Aqtobe"],
+  ["Araguaina", "BR", null, "America/Araguaina"],
+  ["Aruba", "AW", null, "America/Aruba"],
+  ["Ashgabat", "TM", null, "Asia/Ashgabat"],
+  ["Asmara", "ER", null, "Africa/Asmara"],
+  ["Astrakhan", "RU", null, "Europe/Astrakhan"],
+  ["Asuncion", "PY", null, "America/Asuncion"],
+  ["Athens", "GR", null, "Europe/Athens"],
+  ["Atikokan", "CA", null, "America/Atikokan"],
+  ["Atlanta", "US", "Georgia", "America/New_York"],
+  ["Atyrau", "KZ", null, "Asia/Atyrau"],
+  ["Auckland", "NZ", null, "Pacific/Auckland"],
+  ["Austin", "US", "Texas", "America/Chicago"],
+  ["Azores", "PT", null, "Atlantic/Azores"],
+  ["Baghdad", "IQ", null, "Asia/Baghdad"],
+  ["Bahia", "BR", null, "America/Bahia"],
+  ["Bahia Banderas", "MX", null, "America/Bahia_Banderas"],
+  ["Bahrain", "BH", null, "Asia/Bahrain"],
+  ["Baku", "AZ", null, "Asia/Baku"],
+  ["Baltimore", "US", "Maryland", "America/New_York"],
+  ["Bamako", "ML", null, "Africa/Bamako"],
+  ["Bangalore", "IN", "Karnataka", "Asia/Kolkata"],
+  ["Bangkok", "TH", null, "Asia/Bangkok"],
+  ["Bangui", "CF", null, "Africa/Bangui"],
+  ["Banjul", "GM", null, "Africa/Banjul"],
+  ["Barbados", "BB", null, "America/Barbados"],
+  ["Barcelona", "ES", "Catalonia", "Europe/Madrid"],
+  ["Barnaul", "RU", null, "Asia/Barnaul"],
+  ["Beijing", "CN", null, "Asia/Shanghai"],
+  ["Beirut", "LB", null, "Asia/Beirut"],
+  ["Belem", "BR", null, "America/Belem"],
+  ["Belfast", "GB", "Northern Ireland", "Europe/London"],
+  ["Belgrade", "RS", null, "Europe/Belgrade"],
+  ["Belize", "BZ", null, "America/Belize"],
+  ["Bengaluru", "IN", "Karnataka", "Asia/Kolkata"],
+  ["Berlin", "DE", null, "Europe/Berlin"],
+  ["Bermuda", "BM", null, "Atlantic/Bermuda"],
+  ["Beulah", "US", "North Dakota", "America/North_Dakota/Beulah"],
+  ["Birmingham", "GB", "England", "Europe/London"],
+  ["Birmingham", "US", "Alabama", "America/Chicago"],
+  ["Bishkek", "KG", null, "Asia/Bishkek"],
+  ["Bissau", "GW", null, "Africa/Bissau"],
+  ["Blanc-Sablon", "CA", null, "America/Blanc-Sablon"],
+  ["Blantyre", "MW", null, "Africa/Blantyre"],
+  ["Boa Vista", "BR", null, "America/Boa_Vista"],
+  ["Bogota", "CO", null, "America/Bogota"],
+  ["Boise", "US", "Idaho", "America/Boise"],
+  ["Boston", "US", "Massachusetts", "America/New_York"],
+  ["Bougainville", "PG", null, "Pacific/Bougainville"],
+  ["Brasilia", "BR", null, "America/Sao_Paulo"],
+  ["Bratislava", "SK", null, "Europe/Bratislava"],
+  ["Brazzaville", "CG", null, "Africa/Brazzaville"],
+  ["Brisbane", "AU", "Queensland", "Australia/Brisbane"],
+  ["Broken Hill", "AU", "New South Wales", "Australia/Broken_Hill"],
+  ["Brunei", "BN", null, "Asia/Brunei"],
+  ["Brussels", "BE", null, "Europe/Brussels"],
+  ["Bucharest", "RO", null, "Europe/Bucharest"],
+  ["Budapest", "HU", null, "Europe/Budapest"],
+  ["Buenos Aires", "AR", null, "America/Argentina/Buenos_Aires"],
+  ["Bujumbura", "BI", null, "Africa/Bujumbura"],
+  ["Busan", "KR", null, "Asia/Seoul"],
+  ["Busingen", "DE", null, "Europe/Busingen"],
+  ["Cairo", "EG", null, "Africa/Cairo"],
+  ["Calgary", "CA", "Alberta", "America/Edmonton"],
+  ["Cambridge Bay", "CA", "Nunavut", "America/Cambridge_Bay"],
+  ["Campo Grande", "BR", null, "America/Campo_Grande"],
+  ["Canary", "ES", null, "Atlantic/Canary"],
+  ["Canberra", "AU", "Australian Capital Territory", "Australia/Sydney"],
+  ["Cancun", "MX", null, "America/Cancun"],
+  ["Cape Town", "ZA", null, "Africa/Johannesburg"],
+  ["Cape Verde", "CV", null, "Atlantic/Cape_Verde"],
+  ["Caracas", "VE", null, "America/Caracas"],
+  ["Cardiff", "GB", "Wales", "Europe/London"],
+  ["Casablanca", "MA", null, "Africa/Casablanca"],
+  ["Catamarca", "AR", null, "America/Argentina/Catamarca"],
+  ["Cayenne", "GF", null, "America/Cayenne"],
+  ["Cayman", "KY", null, "America/Cayman"],
+  ["Cebu", "PH", null, "Asia/Manila"],
+  ["Center", "US", "North Dakota", "America/North_Dakota/Center"],
+  ["Ceuta", "ES", null, "Africa/Ceuta"],
+  ["Chagos", "IO", null, "Indian/Chagos"],
+  ["Charlotte", "US", "North Carolina", "America/New_York"],
+  ["Chatham", "NZ", null, "Pacific/Chatham"],
+  ["Chengdu", "CN", "Sichuan", "Asia/Shanghai"],
+  ["Chennai", "IN", "Tamil Nadu", "Asia/Kolkata"],
+  ["Chicago", "US", "Illinois", "America/Chicago"],
+  ["Chihuahua", "MX", null, "America/Chihuahua"],
+  ["Chisinau", "MD", null, "Europe/Chisinau"],
+  ["Chita", "RU", null, "Asia/Chita"],
+  ["Christchurch", "NZ", null, "Pacific/Auckland"],
+  ["Christmas", "CX", null, "Indian/Christmas"],
+  ["Chuuk", "FM", null, "Pacific/Chuuk"],
+  ["Cincinnati", "US", "Ohio", "America/New_York"],
+  ["Ciudad Juarez", "MX", null, "America/Ciudad_Juarez"],
+  ["Cleveland", "US", "Ohio", "America/New_York"],
+  ["Cocos", "CC", null, "Indian/Cocos"],
+  ["Cologne", "DE", null, "Europe/Berlin"],
+  ["Colombo", "LK", null, "Asia/Colombo"],
+  ["Columbus", "US", "Ohio", "America/New_York"],
+  ["Comoro", "KM", null, "Indian/Comoro"],
+  ["Conakry", "GN", null, "Africa/Conakry"],
+  ["Copenhagen", "DK", null, "Europe/Copenhagen"],
+  ["Cordoba", "AR", null, "America/Argentina/Cordoba"],
+  ["Cordoba", "AR", null, "America/Argentina/Cordoba"],
+  ["Cordoba", "ES", "Andalusia", "Europe/Madrid"],
+  ["Costa Rica", "CR", null, "America/Costa_Rica"],
+  ["Coyhaique", "CL", null, "America/Coyhaique"],
+  ["Creston", "CA", null, "America/Creston"],
+  ["Cuiaba", "BR", null, "America/Cuiaba"],
+  ["Curacao", "CW", null, "America/Curacao"],
+  ["Dakar", "SN", null, "Africa/Dakar"],
+  ["Dallas", "US", "Texas", "America/Chicago"],
+  ["Damascus", "SY", null, "Asia/Damascus"],
+  ["Danmarkshavn", "GL", null, "America/Danmarkshavn"],
+  ["Dar es Salaam", "TZ", null, "Africa/Dar_es_Salaam"],
+  ["Darwin", "AU", "Northern Territory", "Australia/Darwin"],
+  ["Dawson", "CA", "Yukon", "America/Dawson"],
+  ["Dawson Creek", "CA", null, "America/Dawson_Creek"],
+  ["Delhi", "IN", null, "Asia/Kolkata"],
+  ["Denver", "US", "Colorado", "America/Denver"],
+  ["Detroit", "US", "Michigan", "America/Detroit"],
+  ["Dhaka", "BD", null, "Asia/Dhaka"],
+  ["Dili", "TL", null, "Asia/Dili"],
+  ["Djibouti", "DJ", null, "Africa/Djibouti"],
+  ["Dominica", "DM", null, "America/Dominica"],
+  ["Douala", "CM", null, "Africa/Douala"],
+  ["Dubai", "AE", null, "Asia/Dubai"],
+  ["Dublin", "IE", null, "Europe/Dublin"],
+  ["Durban", "ZA", null, "Africa/Johannesburg"],
+  ["Dushanbe", "TJ", null, "Asia/Dushanbe"],
+  ["Easter", "CL", null, "Pacific/Easter"],
+  ["Edinburgh", "GB", "Scotland", "Europe/London"],
+  ["Edmonton", "CA", "Alberta", "America/Edmonton"],
+  ["Efate", "VU", null, "Pacific/Efate"],
+  ["Eirunepe", "BR", null, "America/Eirunepe"],
+  ["El Aaiun", "EH", null, "Africa/El_Aaiun"],
+  ["El Paso", "US", "Texas", "America/Denver"],
+  ["El Salvador", "SV", null, "America/El_Salvador"],
+  ["Eucla", "AU", "Western Australia", "Australia/Eucla"],
+  ["Fakaofo", "TK", null, "Pacific/Fakaofo"],
+  ["Famagusta", "CY", null, "Asia/Famagusta"],
+  ["Faroe", "FO", null, "Atlantic/Faroe"],
+  ["Fiji", "FJ", null, "Pacific/Fiji"],
+  ["Florence", "IT", null, "Europe/Rome"],
+  ["Fort Nelson", "CA", null, "America/Fort_Nelson"],
+  ["Fortaleza", "BR", null, "America/Fortaleza"],
+  ["Frankfurt", "DE", "Hesse", "Europe/Berlin"],
+  ["Freetown", "SL", null, "Africa/Freetown"],
+  ["Funafuti", "TV", null, "Pacific/Funafuti"],
+  ["Gaborone", "BW", null, "Africa/Gaborone"],
+  ["Galapagos", "EC", null, "Pacific/Galapagos"],
+  ["Gambier", "PF", null, "Pacific/Gambier"],
+  ["Gaza", "PS", null, "Asia/Gaza"],
+  ["Geneva", "CH", null, "Europe/Zurich"],
+  ["Gibraltar", "GI", null, "Europe/Gibraltar"],
+  ["Glace Bay", "CA", "Nova Scotia", "America/Glace_Bay"],
+  ["Glasgow", "GB", "Scotland", "Europe/London"],
+  ["Gold Coast", "AU", "Queensland", "Australia/Brisbane"],
+  ["Goose Bay", "CA", "Newfoundland and Labrador", "America/Goose_Bay"],
+  ["Gothenburg", "SE", null, "Europe/Stockholm"],
+  ["Grand Turk", "TC", null, "America/Grand_Turk"],
+  ["Grenada", "GD", null, "America/Grenada"],
+  ["Guadalajara", "MX", "Jalisco", "America/Mexico_City"],
+  ["Guadalcanal", "SB", null, "Pacific/Guadalcanal"],
+  ["Guadeloupe", "GP", null, "America/Guadeloupe"],
+  ["Guam", "GU", null, "Pacific/Guam"],
+  ["Guangzhou", "CN", "Guangdong", "Asia/Shanghai"],
+  ["Guatemala", "GT", null, "America/Guatemala"],
+  ["Guayaquil", "EC", null, "America/Guayaquil"],
+  ["Guernsey", "GG", null, "Europe/Guernsey"],
+  ["Guyana", "GY", null, "America/Guyana"],
+  ["Halifax", "CA", "Nova Scotia", "America/Halifax"],
+  ["Hamburg", "DE", null, "Europe/Berlin"],
+  ["Hanoi", "VN", null, "Asia/Bangkok"],
+  ["Harare", "ZW", null, "Africa/Harare"],
+  ["Havana", "CU", null, "America/Havana"],
+  ["Hebron", "PS", null, "Asia/Hebron"],
+  ["Helsinki", "FI", null, "Europe/Helsinki"],
+  ["Hermosillo", "MX", null, "America/Hermosillo"],
+  ["Ho Chi Minh", "VN", null, "Asia/Ho_Chi_Minh"],
+  ["Ho Chi Minh City", "VN", null, "Asia/Ho_Chi_Minh"],
+  ["Hobart", "AU", "Tasmania", "Australia/Hobart"],
+  ["Hong Kong", "HK", null, "Asia/Hong_Kong"],
+  ["Honolulu", "US", "Hawaii", "Pacific/Honolulu"],
+  ["Honolulu", "US", "Hawaii", "Pacific/Honolulu"],
+  ["Houston", "US", "Texas", "America/Chicago"],
+  ["Hovd", "MN", null, "Asia/Hovd"],
+  ["Hyderabad", "IN", "Telangana", "Asia/Kolkata"],
+  ["Hyderabad", "PK", "Sindh", "Asia/Karachi"],
+  ["Indianapolis", "US", "Indiana", "America/Indiana/Indianapolis"],
+  ["Inuvik", "CA", "Northwest Territories", "America/Inuvik"],
+  ["Iqaluit", "CA", "Nunavut", "America/Iqaluit"],
+  ["Irkutsk", "RU", null, "Asia/Irkutsk"],
+  ["Islamabad", "PK", null, "Asia/Karachi"],
+  ["Isle of Man", "IM", null, "Europe/Isle_of_Man"],
+  ["Istanbul", "TR", null, "Europe/Istanbul"],
+  ["Jakarta", "ID", null, "Asia/Jakarta"],
+  ["Jamaica", "JM", null, "America/Jamaica"],
+  ["Jayapura", "ID", null, "Asia/Jayapura"],
+  ["Jersey", "JE", null, "Europe/Jersey"],
+  ["Jerusalem", "IL", null, "Asia/Jerusalem"],
+  ["Johannesburg", "ZA", null, "Africa/Johannesburg"],
+  ["Juba", "SS", null, "Africa/Juba"],
+  ["Jujuy", "AR", null, "America/Argentina/Jujuy"],
+  ["Juneau", "US", "Alaska", "America/Juneau"],
+  ["Kabul", "AF", null, "Asia/Kabul"],
+  ["Kaliningrad", "RU", null, "Europe/Kaliningrad"],
+  ["Kamchatka", "RU", null, "Asia/Kamchatka"],
+  ["Kampala", "UG", null, "Africa/Kampala"],
+  ["Kansas City", "US", "Missouri", "America/Chicago"],
+  ["Kanton", "KI", null, "Pacific/Kanton"],
+  ["Karachi", "PK", null, "Asia/Karachi"],
+  ["Kathmandu", "NP", null, "Asia/Kathmandu"],
+  ["Kerguelen", "TF", null, "Indian/Kerguelen"],
+  ["Khandyga", "RU", null, "Asia/Khandyga"],
+  ["Khartoum", "SD", null, "Africa/Khartoum"],
+  ["Kigali", "RW", null, "Africa/Kigali"],
+  ["Kinshasa", "CD", null, "Africa/Kinshasa"],
+  ["Kiritimati", "KI", null, "Pacific/Kiritimati"],
+  ["Kirov", "RU", null, "Europe/Kirov"],
+  ["Knox", "US", "Indiana", "America/Indiana/Knox"],
+  ["Kolkata", "IN", null, "Asia/Kolkata"],
+  ["Kosrae", "FM", null, "Pacific/Kosrae"],
+  ["Krakow", "PL", null, "Europe/Warsaw"],
+  ["Kralendijk", "BQ", null, "America/Kralendijk"],
+  ["Krasnoyarsk", "RU", null, "Asia/Krasnoyarsk"],
+  ["Kuala Lumpur", "MY", null, "Asia/Kuala_Lumpur"],
+  ["Kuching", "MY", null, "Asia/Kuching"],
+  ["Kuwait", "KW", null, "Asia/Kuwait"],
+  ["Kwajalein", "MH", null, "Pacific/Kwajalein"],
+  ["Kyiv", "UA", null, "Europe/Kyiv"],
+  ["Kyoto", "JP", null, "Asia/Tokyo"],
+  ["La Paz", "BO", null, "America/La_Paz"],
+  ["La Rioja", "AR", null, "America/Argentina/La_Rioja"],
+  ["Lagos", "NG", null, "Africa/Lagos"],
+  ["Lahore", "PK", "Punjab", "Asia/Karachi"],
+  ["Las Vegas", "US", "Nevada", "America/Los_Angeles"],
+  ["Libreville", "GA", null, "Africa/Libreville"],
+  ["Lima", "PE", null, "America/Lima"],
+  ["Lindeman", "AU", "Queensland", "Australia/Lindeman"],
+  ["Lisbon", "PT", null, "Europe/Lisbon"],
+  ["Liverpool", "GB", "England", "Europe/London"],
+  ["Ljubljana", "SI", null, "Europe/Ljubljana"],
+  ["Lome", "TG", null, "Africa/Lome"],
+  ["London", "GB", null, "Europe/London"],
+  ["Lord Howe", "AU", "New South Wales", "Australia/Lord_Howe"],
+  ["Los Angeles", "US", "California", "America/Los_Angeles"],
+  ["Louisville", "US", "Kentucky", "America/Kentucky/Louisville"],
+  ["Lower Princes", "SX", null, "America/Lower_Princes"],
+  ["Luanda", "AO", null, "Africa/Luanda"],
+  ["Lubumbashi", "CD", null, "Africa/Lubumbashi"],
+  ["Lusaka", "ZM", null, "Africa/Lusaka"],
+  ["Luxembourg", "LU", null, "Europe/Luxembourg"],
+  ["Lyon", "FR", null, "Europe/Paris"],
+  ["Macau", "MO", null, "Asia/Macau"],
+  ["Maceio", "BR", null, "America/Maceio"],
+  ["Madeira", "PT", null, "Atlantic/Madeira"],
+  ["Madrid", "ES", null, "Europe/Madrid"],
+  ["Magadan", "RU", null, "Asia/Magadan"],
+  ["Mahe", "SC", null, "Indian/Mahe"],
+  ["Majuro", "MH", null, "Pacific/Majuro"],
+  ["Makassar", "ID", null, "Asia/Makassar"],
+  ["Malabo", "GQ", null, "Africa/Malabo"],
+  ["Maldives", "MV", null, "Indian/Maldives"],
+  ["Malta", "MT", null, "Europe/Malta"],
+  ["Managua", "NI", null, "America/Managua"],
+  ["Manaus", "BR", null, "America/Manaus"],
+  ["Manchester", "GB", "England", "Europe/London"],
+  ["Manila", "PH", null, "Asia/Manila"],
+  ["Maputo", "MZ", null, "Africa/Maputo"],
+  ["Marengo", "US", "Indiana", "America/Indiana/Marengo"],
+  ["Mariehamn", "AX", null, "Europe/Mariehamn"],
+  ["Marigot", "MF", null, "America/Marigot"],
+  ["Marquesas", "PF", null, "Pacific/Marquesas"],
+  ["Marrakesh", "MA", null, "Africa/Casablanca"],
+  ["Marseille", "FR", null, "Europe/Paris"],
+  ["Martinique", "MQ", null, "America/Martinique"],
+  ["Maseru", "LS", null, "Africa/Maseru"],
+  ["Matamoros", "MX", null, "America/Matamoros"],
+  ["Mauritius", "MU", null, "Indian/Mauritius"],
+  ["Mayotte", "YT", null, "Indian/Mayotte"],
+  ["Mazatlan", "MX", null, "America/Mazatlan"],
+  ["Mbabane", "SZ", null, "Africa/Mbabane"],
+  ["Medellin", "CO", null, "America/Bogota"],
+  ["Melbourne", "AU", "Victoria", "Australia/Melbourne"],
+  ["Memphis", "US", "Tennessee", "America/Chicago"],
+  ["Mendoza", "AR", null, "America/Argentina/Mendoza"],
+  ["Menominee", "US", "Michigan", "America/Menominee"],
+  ["Merida", "MX", null, "America/Merida"],
+  ["Metlakatla", "US", "Alaska", "America/Metlakatla"],
+  ["Mexico City", "MX", null, "America/Mexico_City"],
+  ["Miami", "US", "Florida", "America/New_York"],
+  ["Midway", "UM", null, "Pacific/Midway"],
+  ["Milan", "IT", "Lombardy", "Europe/Rome"],
+  ["Milwaukee", "US", "Wisconsin", "America/Chicago"],
+  ["Minneapolis", "US", "Minnesota", "America/Chicago"],
+  ["Minsk", "BY", null, "Europe/Minsk"],
+  ["Miquelon", "PM", null, "America/Miquelon"],
+  ["Mogadishu", "SO", null, "Africa/Mogadishu"],
+  ["Mombasa", "KE", null, "Africa/Nairobi"],
+  ["Monaco", "MC", null, "Europe/Monaco"],
+  ["Moncton", "CA", "New Brunswick", "America/Moncton"],
+  ["Monrovia", "LR", null, "Africa/Monrovia"],
+  ["Monterrey", "MX", null, "America/Monterrey"],
+  ["Montevideo", "UY", null, "America/Montevideo"],
+  ["Monticello", "US", "Kentucky", "America/Kentucky/Monticello"],
+  ["Montreal", "CA", "Quebec", "America/Toronto"],
+  ["Montserrat", "MS", null, "America/Montserrat"],
+  ["Moscow", "RU", null, "Europe/Moscow"],
+  ["Mumbai", "IN", "Maharashtra", "Asia/Kolkata"],
+  ["Munich", "DE", "Bavaria", "Europe/Berlin"],
+  ["Muscat", "OM", null, "Asia/Muscat"],
+  ["Nairobi", "KE", null, "Africa/Nairobi"],
+  ["Naples", "IT", null, "Europe/Rome"],
+  ["Nashville", "US", "Tennessee", "America/Chicago"],
+  ["Nassau", "BS", null, "America/Nassau"],
+  ["Nauru", "NR", null, "Pacific/Nauru"],
+  ["Ndjamena", "TD", null, "Africa/Ndjamena"],
+  ["New Delhi", "IN", null, "Asia/Kolkata"],
+  ["New Orleans", "US", "Louisiana", "America/Chicago"],
+  ["New Salem", "US", "North Dakota", "America/North_Dakota/New_Salem"],
+  ["New York", "US", "New York", "America/New_York"],
+  ["New York City", "US", "New York", "America/New_York"],
+  ["Niamey", "NE", null, "Africa/Niamey"],
+  ["Nice", "FR", null, "Europe/Paris"],
+  ["Nicosia", "CY", null, "Asia/Nicosia"],
+  ["Niue", "NU", null, "Pacific/Niue"],
+  ["Nome", "US", "Alaska", "America/Nome"],
+  ["Norfolk", "NF", null, "Pacific/Norfolk"],
+  ["Noronha", "BR", null, "America/Noronha"],
+  ["Nouakchott", "MR", null, "Africa/Nouakchott"],
+  ["Noumea", "NC", null, "Pacific/Noumea"],
+  ["Novokuznetsk", "RU", null, "Asia/Novokuznetsk"],
+  ["Novosibirsk", "RU", null, "Asia/Novosibirsk"],
+  ["Nuuk", "GL", null, "America/Nuuk"],
+  ["Ojinaga", "MX", null, "America/Ojinaga"],
+  ["Omsk", "RU", null, "Asia/Omsk"],
+  ["Oral", "KZ", null, "Asia/Oral"],
+  ["Orlando", "US", "Florida", "America/New_York"],
+  ["Osaka", "JP", null, "Asia/Tokyo"],
+  ["Oslo", "NO", null, "Europe/Oslo"],
+  ["Ottawa", "CA", "Ontario", "America/Toronto"],
+  ["Ouagadougou", "BF", null, "Africa/Ouagadougou"],
+  ["Pago Pago", "AS", null, "Pacific/Pago_Pago"],
+  ["Palau", "PW", null, "Pacific/Palau"],
+  ["Panama", "PA", null, "America/Panama"],
+  ["Paramaribo", "SR", null, "America/Paramaribo"],
+  ["Paris", "FR", null, "Europe/Paris"],
+  ["Perth", "AU", "Western Australia", "Australia/Perth"],
+  ["Petersburg", "US", "Indiana", "America/Indiana/Petersburg"],
+  ["Philadelphia", "US", "Pennsylvania", "America/New_York"],
+  ["Phnom Penh", "KH", null, "Asia/Phnom_Penh"],
+  ["Phoenix", "US", "Arizona", "America/Phoenix"],
+  ["Phoenix", "US", "Arizona", "America/Phoenix"],
+  ["Pitcairn", "PN", null, "Pacific/Pitcairn"],
+  ["Pittsburgh", "US", "Pennsylvania", "America/New_York"],
+  ["Podgorica", "ME", null, "Europe/Podgorica"],
+  ["Pohnpei", "FM", null, "Pacific/Pohnpei"],
+  ["Pontianak", "ID", null, "Asia/Pontianak"],
+  ["Port Moresby", "PG", null, "Pacific/Port_Moresby"],
+  ["Port of Spain", "TT", null, "America/Port_of_Spain"],
+  ["Port-au-Prince", "HT", null, "America/Port-au-Prince"],
+  ["Portland", "US", "Maine", "America/New_York"],
+  ["Portland", "US", "Oregon", "America/Los_Angeles"],
+  ["Porto", "PT", null, "Europe/Lisbon"],
+  ["Porto Velho", "BR", null, "America/Porto_Velho"],
+  ["Porto-Novo", "BJ", null, "Africa/Porto-Novo"],
+  ["Prague", "CZ", null, "Europe/Prague"],
+  ["Puerto Rico", "PR", null, "America/Puerto_Rico"],
+  ["Punta Arenas", "CL", null, "America/Punta_Arenas"],
+  ["Pyongyang", "KP", null, "Asia/Pyongyang"],
+  ["Qatar", "QA", null, "Asia/Qatar"],
+  ["Qostanay", "KZ", null, "Asia/Qostanay"],
+  ["Quebec City", "CA", "Quebec", "America/Toronto"],
+  ["Qyzylorda", "KZ", null, "Asia/Qyzylorda"],
+  ["Raleigh", "US", "North Carolina", "America/New_York"],
+  ["Rankin Inlet", "CA", "Nunavut", "America/Rankin_Inlet"],
+  ["Rarotonga", "CK", null, "Pacific/Rarotonga"],
+  ["Recife", "BR", null, "America/Recife"],
+  ["Regina", "CA", "Saskatchewan", "America/Regina"],
+  ["Resolute", "CA", "Nunavut", "America/Resolute"],
+  ["Reunion", "RE", null, "Indian/Reunion"],
+  ["Reykjavik", "IS", null, "Atlantic/Reykjavik"],
+  ["Riga", "LV", null, "Europe/Riga"],
+  ["Rio Branco", "BR", null, "America/Rio_Branco"],
+  ["Rio Gallegos", "AR", null, "America/Argentina/Rio_Gallegos"],
+  ["Rio de Janeiro", "BR", null, "America/Sao_Paulo"],
+  ["Riyadh", "SA", null, "Asia/Riyadh"],
+  ["Rome", "IT", null, "Europe/Rome"],
+  ["Rotterdam", "NL", null, "Europe/Amsterdam"],
+  ["Sacramento", "US", "California", "America/Los_Angeles"],
+  ["Saint Petersburg", "RU", null, "Europe/Moscow"],
+  ["Saipan", "MP", null, "Pacific/Saipan"],
+  ["Sakhalin", "RU", null, "Asia/Sakhalin"],
+  ["Salt Lake City", "US", "Utah", "America/Denver"],
+  ["Salta", "AR", null, "America/Argentina/Salta"],
+  ["Samara", "RU", null, "Europe/Samara"],
+  ["Samarkand", "UZ", null, "Asia/Samarkand"],
+  ["San Antonio", "US", "Texas", "America/Chicago"],
+  ["San Diego", "US", "California", "America/Los_Angeles"],
+  ["San Francisco", "US", "California", "America/Los_Angeles"],
+  ["San Jose", "US", "California", "America/Los_Angeles"],
+  ["San Juan", "AR", null, "America/Argentina/San_Juan"],
+  ["San Luis", "AR", null, "America/Argentina/San_Luis"],
+  ["San Marino", "SM", null, "Europe/San_Marino"],
+  ["Santarem", "BR", null, "America/Santarem"],
+  ["Santiago", "CL", null, "America/Santiago"],
+  ["Santo Domingo", "DO", null, "America/Santo_Domingo"],
+  ["Sao Paulo", "BR", null, "America/Sao_Paulo"],
+  ["Sao Tome", "ST", null, "Africa/Sao_Tome"],
+  ["Sarajevo", "BA", null, "Europe/Sarajevo"],
+  ["Saratov", "RU", null, "Europe/Saratov"],
+  ["Scoresbysund", "GL", null, "America/Scoresbysund"],
+  ["Seattle", "US", "Washington", "America/Los_Angeles"],
+  ["Seoul", "KR", null, "Asia/Seoul"],
+  ["Seville", "ES", "Andalusia", "Europe/Madrid"],
+  ["Shanghai", "CN", null, "Asia/Shanghai"],
+  ["Shenzhen", "CN", "Guangdong", "Asia/Shanghai"],
+  ["Simferopol", "UA", null, "Europe/Simferopol"],
+  ["Singapore", "SG", null, "Asia/Singapore"],
+  ["Sitka", "US", "Alaska", "America/Sitka"],
+  ["Skopje", "MK", null, "Europe/Skopje"],
+  ["Sofia", "BG", null, "Europe/Sofia"],
+  ["South Georgia", "GS", null, "Atlantic/South_Georgia"],
+  ["Springfield", "US", "Illinois", "America/Chicago"],
+  ["Springfield", "US", "Massachusetts", "America/New_York"],
+  ["Springfield", "US", "Missouri", "America/Chicago"],
+  ["Srednekolymsk", "RU", null, "Asia/Srednekolymsk"],
+  ["St Barthelemy", "BL", null, "America/St_Barthelemy"],
+  ["St Helena", "SH", null, "Atlantic/St_Helena"],
+  ["St Johns", "CA", "Newfoundland and Labrador", "America/St_Johns"],
+  ["St Kitts", "KN", null, "America/St_Kitts"],
+  ["St Lucia", "LC", null, "America/St_Lucia"],
+  ["St Thomas", "VI", null, "America/St_Thomas"],
+  ["St Vincent", "VC", null, "America/St_Vincent"],
+  ["St. Louis", "US", "Missouri", "America/Chicago"],
+  ["St. Petersburg", "RU", null, "Europe/Moscow"],
+  ["Stanley", "FK", null, "Atlantic/Stanley"],
+  ["Stockholm", "SE", null, "Europe/Stockholm"],
+  ["Swift Current", "CA", "Saskatchewan", "America/Swift_Current"],
+  ["Sydney", "AU", "New South Wales", "Australia/Sydney"],
+  ["Tahiti", "PF", null, "Pacific/Tahiti"],
+  ["Taipei", "TW", null, "Asia/Taipei"],
+  ["Tallinn", "EE", null, "Europe/Tallinn"],
+  ["Tampa", "US", "Florida", "America/New_York"],
+  ["Tarawa", "KI", null, "Pacific/Tarawa"],
+  ["Tashkent", "UZ", null, "Asia/Tashkent"],
+  ["Tbilisi", "GE", null, "Asia/Tbilisi"],
+  ["Tegucigalpa", "HN", null, "America/Tegucigalpa"],
+  ["Tehran", "IR", null, "Asia/Tehran"],
+  ["Tel Aviv", "IL", null, "Asia/Jerusalem"],
+  ["Tell City", "US", "Indiana", "America/Indiana/Tell_City"],
+  ["The Hague", "NL", null, "Europe/Amsterdam"],
+  ["Thimphu", "BT", null, "Asia/Thimphu"],
+  ["Thule", "GL", null, "America/Thule"],
+  ["Tijuana", "MX", null, "America/Tijuana"],
+  ["Tirane", "AL", null, "Europe/Tirane"],
+  ["Tokyo", "JP", null, "Asia/Tokyo"],
+  ["Tomsk", "RU", null, "Asia/Tomsk"],
+  ["Tongatapu", "TO", null, "Pacific/Tongatapu"],
+  ["Toronto", "CA", "Ontario", "America/Toronto"],
+  ["Tortola", "VG", null, "America/Tortola"],
+  ["Tripoli", "LY", null, "Africa/Tripoli"],
+  ["Tucson", "US", "Arizona", "America/Phoenix"],
+  ["Tucuman", "AR", null, "America/Argentina/Tucuman"],
+  ["Tunis", "TN", null, "Africa/Tunis"],
+  ["Ulaanbaatar", "MN", null, "Asia/Ulaanbaatar"],
+  ["Ulyanovsk", "RU", null, "Europe/Ulyanovsk"],
+  ["Urumqi", "CN", null, "Asia/Urumqi"],
+  ["Ushuaia", "AR", null, "America/Argentina/Ushuaia"],
+  ["Ust-Nera", "RU", null, "Asia/Ust-Nera"],
+  ["Vaduz", "LI", null, "Europe/Vaduz"],
+  ["Vancouver", "CA", "British Columbia", "America/Vancouver"],
+  ["Vatican", "VA", null, "Europe/Vatican"],
+  ["Venice", "IT", null, "Europe/Rome"],
+  ["Vevay", "US", "Indiana", "America/Indiana/Vevay"],
+  ["Vienna", "AT", null, "Europe/Vienna"],
+  ["Vientiane", "LA", null, "Asia/Vientiane"],
+  ["Vilnius", "LT", null, "Europe/Vilnius"],
+  ["Vincennes", "US", "Indiana", "America/Indiana/Vincennes"],
+  ["Vladivostok", "RU", null, "Asia/Vladivostok"],
+  ["Volgograd", "RU", null, "Europe/Volgograd"],
+  ["Wake", "UM", null, "Pacific/Wake"],
+  ["Wallis", "WF", null, "Pacific/Wallis"],
+  ["Warsaw", "PL", null, "Europe/Warsaw"],
+  ["Washington", "US", "District of Columbia", "America/New_York"],
+  ["Wellington", "NZ", null, "Pacific/Auckland"],
+  ["Whitehorse", "CA", "Yukon", "America/Whitehorse"],
+  ["Winamac", "US", "Indiana", "America/Indiana/Winamac"],
+  ["Windhoek", "NA", null, "Africa/Windhoek"],
+  ["Winnipeg", "CA", "Manitoba", "America/Winnipeg"],
+  ["Yakutat", "US", "Alaska", "America/Yakutat"],
+  ["Yakutsk", "RU", null, "Asia/Yakutsk"],
+  ["Yangon", "MM", null, "Asia/Yangon"],
+  ["Yekaterinburg", "RU", null, "Asia/Yekaterinburg"],
+  ["Yerevan", "AM", null, "Asia/Yerevan"],
+  ["Zagreb", "HR", null, "Europe/Zagreb"],
+  ["Zurich", "CH", null, "Europe/Zurich"],
+];
@@ -1,8 +1,13 @@
 import { marked } from "marked";
 import type { Tokens } from "marked";
 import { memo, useMemo } from "react";
-import ReactMarkdown from "react-markdown";
+import ReactMarkdown, { type Components } from "react-markdown";
 import remarkGfm from "remark-gfm";
+import {
+  episodeAudioSlug,
+  episodeCaptionsPath,
+  safeLinkUrl,
+} from "@/markdown-links";
 
 function parseMarkdownIntoBlocks(markdown: string): string[] {
   const tokens: TokensList = marked.lexer(markdown);
@@ -11,10 +16,63 @@ function parseMarkdownIntoBlocks(markdown: string): string[] {
 
 type TokensList = Array<Tokens.Generic & { raw: string }>;
 
+// Links that aren't allowed lose their href and render as plain text
+function urlTransform(url: string) {
+  return safeLinkUrl(url, window.location.href);
+}
+
+const components: Components = {
+  a: ({ href, children }) => {
+    if (!href) return <span>{children}</span>;
+    const audioSlug = episodeAudioSlug(href, window.location.origin);
+    return (
+      <>
+        <a href={href} target="_blank" rel="noopener noreferrer nofollow">
+          {children}
+        </a>
+        {audioSlug && (
+          <audio
+            controls
+            preload="none"
+            src={href}
+            aria-label={`Play ${audioSlug}`}
+            className="block w-full h-9 my-2"
+          >
+            <track
+              kind="captions"
+              src={episodeCaptionsPath(audioSlug)}
+              srcLang="en"
+              label="Transcript"
+            />
+          </audio>
+        )}
+      </>
+    );
+  },
+  // Images in model output aren't loaded, only linked
+  img: ({ src, alt }) =>
+    typeof src === "string" ? (
+      <a href={src} target="_blank" rel="noopener noreferrer nofollow">
+        {alt || src}
+      </a>
+    ) : null,
+  table: ({ children }) => (
+    <div className="overflow-x-auto">
+      <table>{children}</table>
+    </div>
+  ),
+};
+
 const MemoizedMarkdownBlock = memo(
   ({ content }: { content: string }) => (
     <div className="markdown-body">
-      <ReactMarkdown remarkPlugins={[remarkGfm]}>{content}</ReactMarkdown>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        urlTransform={urlTransform}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
     </div>
   ),
   (prevProps, nextProps) => prevProps.content === nextProps.content
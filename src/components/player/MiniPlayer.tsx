@@ -0,0 +1,164 @@
+import { useState } from "react";
+import {
+  ListMusic,
+  Pause,
+  Play,
+  SkipBack,
+  SkipForward,
+  Trash2,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import usePlayer from "@/hooks/usePlayer";
+import { formatTimestamp } from "@/lib/format";
+import { chapterIndexAt, PLAYBACK_RATES } from "@/playback";
+
+/**
+ * Controls for the episode in the player, shown above the chat input while
+ * something is playing or paused
+ */
+export function MiniPlayer() {
+  const player = usePlayer();
+  const [showQueue, setShowQueue] = useState(false);
+  const { current, queue, currentTime, duration, rate } = player;
+
+  if (!current) return null;
+
+  const chapter =
+    current.chapters[chapterIndexAt(current.chapters, currentTime)];
+
+  const cycleRate = () => {
+    const index = PLAYBACK_RATES.indexOf(rate);
+    player.setRate(PLAYBACK_RATES[(index + 1) % PLAYBACK_RATES.length]);
+  };
+
+  return (
+    <div className="border-t border-neutral-300 dark:border-neutral-800 bg-background px-4 py-2">
+      {showQueue && (
+        <div className="mb-2 max-h-40 overflow-y-auto">
+          {queue.length === 0 ? (
+            <p className="text-xs text-muted-foreground py-1">
+              The queue is empty. Add episodes from the library or chat.
+            </p>
+          ) : (
+            <ol className="space-y-1">
+              {queue.map((podcast, index) => (
+                <li key={podcast.slug} className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground tabular-nums w-4">
+                    {index + 1}
+                  </span>
+                  <button
+                    type="button"
+                    className="flex-1 min-w-0 truncate text-left text-sm hover:text-[#F48120]"
+                    onClick={() => player.play(podcast)}
+                  >
+                    {podcast.title}
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="rounded-full h-6 w-6"
+                    onClick={() => player.removeFromQueue(podcast.slug)}
+                    aria-label={`Remove ${podcast.title} from queue`}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center gap-1">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="rounded-full h-8 w-8"
+          disabled={current.chapters.length < 2}
+          onClick={() => player.skipChapter(-1)}
+          aria-label="Previous chapter"
+        >
+          <SkipBack className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="rounded-full h-9 w-9 bg-[#F48120]/10 text-[#F48120]"
+          onClick={player.toggle}
+          aria-label={player.isPlaying ? "Pause" : "Play"}
+        >
+          {player.isPlaying ? (
+            <Pause className="h-4 w-4" />
+          ) : (
+            <Play className="h-4 w-4" />
+          )}
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="rounded-full h-8 w-8"
+          disabled={current.chapters.length < 2 && queue.length === 0}
+          onClick={() => player.skipChapter(1)}
+          aria-label="Next chapter"
+        >
+          <SkipForward className="h-4 w-4" />
+        </Button>
+
+        <div className="flex-1 min-w-0 px-2">
+          <p className="text-sm font-medium truncate">{current.title}</p>
+          <div className="flex items-center gap-2">
+            <input
+              type="range"
+              min={0}
+              max={duration || 0}
+              step={1}
+              value={Math.min(currentTime, duration || 0)}
+              onChange={(e) => player.seek(Number(e.target.value))}
+              className="flex-1 h-1 accent-[#F48120]"
+              aria-label="Seek"
+            />
+            <span className="text-xs text-muted-foreground tabular-nums whitespace-nowrap">
+              {formatTimestamp(currentTime)}
+              {duration > 0 && ` / ${formatTimestamp(duration)}`}
+            </span>
+          </div>
+          {chapter && current.chapters.length > 1 && (
+            <p className="text-xs text-muted-foreground truncate">
+              {chapter.title}
+            </p>
+          )}
+        </div>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 px-2 tabular-nums"
+          onClick={cycleRate}
+          aria-label="Playback speed"
+        >
+          {rate}×
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={`rounded-full h-8 w-8 ${showQueue ? "text-[#F48120]" : ""}`}
+          onClick={() => setShowQueue((shown) => !shown)}
+          aria-label={`Queue (${queue.length})`}
+          aria-expanded={showQueue}
+        >
+          <ListMusic className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="rounded-full h-8 w-8"
+          onClick={player.close}
+          aria-label="Close player"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,335 @@
+import {
+  createContext,
+  type ReactNode,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
+import {
+  nextChapterStart,
+  type PlaybackPositions,
+  previousChapterStart,
+  resumePosition,
+} from "@/playback";
+import type { Podcast } from "@/podcasts";
+
+// How often the listening position is saved while playing, in milliseconds
+const SAVE_INTERVAL_MS = 15_000;
+
+// Seconds the lock screen's seek buttons jump by
+const SEEK_SECONDS = 15;
+
+export type PlayerContextValue = {
+  /** The episode in the player, playing or paused */
+  current: Podcast | null;
+  /** Episodes to play after the current one */
+  queue: Podcast[];
+  isPlaying: boolean;
+  currentTime: number;
+  duration: number;
+  rate: number;
+  /** Where the user stopped listening to each episode */
+  positions: PlaybackPositions;
+  /**
+   * Plays an episode from a time, or from where the user stopped listening.
+   * Playing the current episode again without a time resumes it.
+   */
+  play: (podcast: Podcast, startTime?: number) => void;
+  /** Pauses or resumes the current episode */
+  toggle: () => void;
+  enqueue: (podcast: Podcast) => void;
+  removeFromQueue: (slug: string) => void;
+  /** Plays the first queued episode, or stops when the queue is empty */
+  next: () => void;
+  seek: (time: number) => void;
+  skipChapter: (direction: 1 | -1) => void;
+  setRate: (rate: number) => void;
+  /** Stops playback and empties the player */
+  close: () => void;
+};
+
+export const PlayerContext = createContext<PlayerContextValue | null>(null);
+
+interface PlayerProviderProps {
+  /** Listening positions from the agent state */
+  positions: PlaybackPositions;
+  /** Saves a listening position to the agent */
+  onSavePosition: (slug: string, position: number, duration: number) => void;
+  children: ReactNode;
+}
+
+/**
+ * Owns the audio element behind the mini player, so playback carries on
+ * while the user chats and opens or closes panels
+ */
+export function PlayerProvider({
+  positions,
+  onSavePosition,
+  children,
+}: PlayerProviderProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const lastSavedRef = useRef(0);
+  const [current, setCurrent] = useState<Podcast | null>(null);
+  const [queue, setQueue] = useState<Podcast[]>([]);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [rate, setRateState] = useState(() => {
+    const savedRate = Number(localStorage.getItem("playbackRate"));
+    return savedRate > 0 ? savedRate : 1;
+  });
+
+  const savePosition = useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio || !current) return;
+    lastSavedRef.current = Date.now();
+    onSavePosition(current.slug, audio.currentTime, audio.duration || 0);
+  }, [current, onSavePosition]);
+
+  const play = useCallback(
+    (podcast: Podcast, startTime?: number) => {
+      const audio = audioRef.current;
+      if (!audio || !podcast.audio_url) return;
+
+      if (current?.slug !== podcast.slug) {
+        savePosition();
+        setCurrent(podcast);
+        setQueue((queued) => queued.filter((p) => p.slug !== podcast.slug));
+        audio.src = podcast.audio_url;
+        audio.currentTime =
+          startTime ?? resumePosition(positions, podcast.slug);
+      } else if (startTime !== undefined) {
+        audio.currentTime = startTime;
+      }
+      audio.play().catch((error) => {
+        console.error("Failed to play podcast:", error);
+      });
+    },
+    [current, positions, savePosition]
+  );
+
+  const toggle = useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio || !current) return;
+    if (audio.paused) {
+      audio.play().catch((error) => {
+        console.error("Failed to play podcast:", error);
+      });
+    } else {
+      audio.pause();
+    }
+  }, [current]);
+
+  const enqueue = useCallback(
+    (podcast: Podcast) => {
+      if (!podcast.audio_url || podcast.slug === current?.slug) return;
+      setQueue((queued) =>
+        queued.some((p) => p.slug === podcast.slug)
+          ? queued
+          : [...queued, podcast]
+      );
+    },
+    [current]
+  );
+
+  const removeFromQueue = useCallback((slug: string) => {
+    setQueue((queued) => queued.filter((p) => p.slug !== slug));
+  }, []);
+
+  const close = useCallback(() => {
+    const audio = audioRef.current;
+    savePosition();
+    audio?.pause();
+    audio?.removeAttribute("src");
+    setCurrent(null);
+    setCurrentTime(0);
+    setDuration(0);
+  }, [savePosition]);
+
+  const next = useCallback(() => {
+    const [upNext] = queue;
+    if (upNext) play(upNext);
+    else close();
+  }, [queue, play, close]);
+
+  const seek = useCallback((time: number) => {
+    const audio = audioRef.current;
+    if (audio) audio.currentTime = Math.max(0, time);
+  }, []);
+
+  const skipChapter = useCallback(
+    (direction: 1 | -1) => {
+      const audio = audioRef.current;
+      if (!audio || !current) return;
+      if (direction === -1) {
+        seek(previousChapterStart(current.chapters, audio.currentTime));
+        return;
+      }
+      const start = nextChapterStart(current.chapters, audio.currentTime);
+      // Skipping past the last chapter moves on to the queue
+      if (start === null) next();
+      else seek(start);
+    },
+    [current, seek, next]
+  );
+
+  const setRate = useCallback((newRate: number) => {
+    setRateState(newRate);
+    localStorage.setItem("playbackRate", String(newRate));
+  }, []);
+
+  // Changing the source resets the speed, so it's applied to both
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.defaultPlaybackRate = rate;
+    audio.playbackRate = rate;
+  }, [rate]);
+
+  // Lock screen and media key controls
+  const actionsRef = useRef({ toggle, seek, skipChapter });
+  actionsRef.current = { toggle, seek, skipChapter };
+
+  useEffect(() => {
+    if (!("mediaSession" in navigator)) return;
+    const { mediaSession } = navigator;
+    const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+      ["play", () => actionsRef.current.toggle()],
+      ["pause", () => actionsRef.current.toggle()],
+      [
+        "seekbackward",
+        (details) =>
+          actionsRef.current.seek(
+            (audioRef.current?.currentTime ?? 0) -
+              (details.seekOffset ?? SEEK_SECONDS)
+          ),
+      ],
+      [
+        "seekforward",
+        (details) =>
+          actionsRef.current.seek(
+            (audioRef.current?.currentTime ?? 0) +
+              (details.seekOffset ?? SEEK_SECONDS)
+          ),
+      ],
+      [
+        "seekto",
+        (details) => {
+          if (details.seekTime !== undefined) {
+            actionsRef.current.seek(details.seekTime);
+          }
+        },
+      ],
+      ["previoustrack", () => actionsRef.current.skipChapter(-1)],
+      ["nexttrack", () => actionsRef.current.skipChapter(1)],
+    ];
+    for (const [action, handler] of handlers) {
+      try {
+        mediaSession.setActionHandler(action, handler);
+      } catch {
+        // Not every browser supports every action
+      }
+    }
+    return () => {
+      for (const [action] of handlers) {
+        try {
+          mediaSession.setActionHandler(action, null);
+        } catch {
+          // Ignored like above
+        }
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!("mediaSession" in navigator)) return;
+    navigator.mediaSession.metadata = current
+      ? new MediaMetadata({
+          title: current.title,
+          artist: "Podcast Chat Agent",
+          album: current.topic,
+        })
+      : null;
+  }, [current]);
+
+  useEffect(() => {
+    if (!("mediaSession" in navigator)) return;
+    navigator.mediaSession.playbackState = current
+      ? isPlaying
+        ? "playing"
+        : "paused"
+      : "none";
+  }, [current, isPlaying]);
+
+  const handleTimeUpdate = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    setCurrentTime(audio.currentTime);
+    if (Number.isFinite(audio.duration) && "mediaSession" in navigator) {
+      try {
+        navigator.mediaSession.setPositionState({
+          duration: audio.duration,
+          playbackRate: audio.playbackRate,
+          position: Math.min(audio.currentTime, audio.duration),
+        });
+      } catch {
+        // Some browsers reject position updates while loading
+      }
+    }
+    if (!audio.paused && Date.now() - lastSavedRef.current > SAVE_INTERVAL_MS) {
+      savePosition();
+    }
+  };
+
+  return (
+    <PlayerContext.Provider
+      value={{
+        current,
+        queue,
+        isPlaying,
+        currentTime,
+        duration,
+        rate,
+        positions,
+        play,
+        toggle,
+        enqueue,
+        removeFromQueue,
+        next,
+        seek,
+        skipChapter,
+        setRate,
+        close,
+      }}
+    >
+      {children}
+      <audio
+        ref={audioRef}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => {
+          setIsPlaying(false);
+          savePosition();
+        }}
+        onTimeUpdate={handleTimeUpdate}
+        onLoadedMetadata={() => {
+          setDuration(audioRef.current?.duration || 0);
+          if (audioRef.current) audioRef.current.playbackRate = rate;
+        }}
+        onEnded={() => {
+          // Saving at the end forgets the position, so it starts over next time
+          savePosition();
+          next();
+        }}
+      >
+        {/* Episodes from before timed transcripts have no captions file */}
+        <track
+          kind="captions"
+          src={current?.captions_url ?? undefined}
+          srcLang="en"
+          label="Transcript"
+        />
+      </audio>
+    </PlayerContext.Provider>
+  );
+}
@@ -0,0 +1,86 @@
+import { AlertTriangle, Check, Loader2, RotateCw } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import {
+  JOB_STEPS,
+  type PodcastJobProgress,
+  type PodcastJobStep,
+} from "@/podcast-jobs";
+
+const STEP_LABELS: Record<PodcastJobStep, string> = {
+  scripting: "Writing script",
+  synthesizing: "Recording audio",
+  saving: "Publishing",
+};
+
+interface PodcastJobCardProps {
+  job: PodcastJobProgress;
+}
+
+export function PodcastJobCard({ job }: PodcastJobCardProps) {
+  const isActive = job.status === "running" || job.status === "retrying";
+
+  return (
+    <Card className="p-4 gap-3 rounded-md bg-secondary/30 border-secondary/50">
+      <div className="flex items-center gap-2">
+        <div className="bg-[#F48120]/10 p-1.5 rounded-full">
+          {job.status === "completed" ? (
+            <Check className="h-4 w-4 text-[#F48120]" />
+          ) : job.status === "failed" ? (
+            <AlertTriangle className="h-4 w-4 text-red-600" />
+          ) : (
+            <Loader2 className="h-4 w-4 text-[#F48120] animate-spin" />
+          )}
+        </div>
+        <h4 className="font-medium text-sm flex-1 truncate">
+          {job.format === "conversation" ? "Conversation" : "Podcast"}:{" "}
+          {job.topic}
+        </h4>
+      </div>
+
+      <ol className="space-y-1 text-xs">
+        {JOB_STEPS.map((step) => {
+          const isDone = job.completedSteps.includes(step);
+          const isCurrent = isActive && job.step === step;
+          return (
+            <li
+              key={step}
+              className={`flex items-center gap-2 ${
+                isDone || isCurrent ? "" : "text-muted-foreground"
+              }`}
+            >
+              {isDone ? (
+                <Check className="h-3 w-3 text-[#F48120]" />
+              ) : isCurrent && job.status === "retrying" ? (
+                <RotateCw className="h-3 w-3" />
+              ) : isCurrent ? (
+                <Loader2 className="h-3 w-3 animate-spin" />
+              ) : (
+                <span className="h-3 w-3" />
+              )}
+              <span>{STEP_LABELS[step]}</span>
+              {isCurrent && job.status === "retrying" && (
+                <span className="text-muted-foreground">
+                  (retry {job.attempts} scheduled)
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {job.status === "failed" && job.error && (
+        <p className="text-xs text-red-600">{job.error}</p>
+      )}
+      {job.status === "completed" && job.url && (
+        <a
+          href={job.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-xs text-[#F48120] underline"
+        >
+          Open episode
+        </a>
+      )}
+    </Card>
+  );
+}
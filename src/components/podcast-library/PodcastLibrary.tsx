@@ -0,0 +1,131 @@
+import {
+  ExternalLink,
+  Headphones,
+  ListPlus,
+  Pause,
+  Play,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import usePlayer from "@/hooks/usePlayer";
+import { formatCreatedAt, formatTimestamp } from "@/lib/format";
+import { resumePosition } from "@/playback";
+import type { Podcast } from "@/podcasts";
+
+interface PodcastLibraryProps {
+  podcasts: Podcast[];
+  onClose: () => void;
+}
+
+export function PodcastLibrary({ podcasts, onClose }: PodcastLibraryProps) {
+  const player = usePlayer();
+
+  const togglePlay = (podcast: Podcast) => {
+    if (player.current?.slug === podcast.slug) player.toggle();
+    else player.play(podcast);
+  };
+
+  return (
+    <div className="absolute inset-y-0 right-0 z-20 w-80 max-w-full bg-background border-l border-border shadow-xl flex flex-col">
+      <div className="px-4 py-3 border-b border-border flex items-center gap-2">
+        <Headphones className="h-5 w-5 text-[#F48120]" />
+        <h3 className="font-semibold text-base flex-1">Library</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="rounded-full h-8 w-8"
+          onClick={onClose}
+          aria-label="Close library"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {podcasts.length === 0 && (
+          <p className="text-muted-foreground text-sm text-center py-8">
+            No podcasts yet. Ask the agent to create one!
+          </p>
+        )}
+        {podcasts.map((podcast) => {
+          const isPlaying =
+            player.isPlaying && player.current?.slug === podcast.slug;
+          const resumeAt = resumePosition(player.positions, podcast.slug);
+          return (
+            <Card
+              key={podcast.slug}
+              className="p-3 gap-2 rounded-md bg-secondary/30 border-secondary/50"
+            >
+              <div className="flex items-start gap-2">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="rounded-full h-8 w-8 flex-shrink-0 bg-[#F48120]/10 text-[#F48120]"
+                  disabled={!podcast.audio_url}
+                  onClick={() => togglePlay(podcast)}
+                  aria-label={isPlaying ? "Pause" : "Play"}
+                >
+                  {isPlaying ? (
+                    <Pause className="h-4 w-4" />
+                  ) : (
+                    <Play className="h-4 w-4" />
+                  )}
+                </Button>
+                <div className="flex-1 min-w-0">
+                  <h4 className="font-medium text-sm truncate">
+                    {podcast.title}
+                  </h4>
+                  <p className="text-xs text-muted-foreground">
+                    {formatCreatedAt(podcast.created_at)}
+                    {!podcast.audio_url && " · Text only"}
+                    {resumeAt > 0 &&
+                      ` · Resume at ${formatTimestamp(resumeAt)}`}
+                  </p>
+                </div>
+                {podcast.audio_url && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="rounded-full h-8 w-8 flex-shrink-0 text-muted-foreground"
+                    onClick={() => player.enqueue(podcast)}
+                    aria-label="Add to queue"
+                  >
+                    <ListPlus className="h-4 w-4" />
+                  </Button>
+                )}
+                <a
+                  href={podcast.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-muted-foreground hover:text-[#F48120] p-1"
+                  aria-label="Open episode"
+                >
+                  <ExternalLink className="h-4 w-4" />
+                </a>
+              </div>
+              {podcast.chapters.length > 1 && (
+                <ol className="pl-10 space-y-0.5">
+                  {podcast.chapters.map((chapter) => (
+                    <li key={chapter.startTime}>
+                      <button
+                        type="button"
+                        className="flex w-full gap-2 text-left text-xs text-muted-foreground hover:text-[#F48120]"
+                        onClick={() => player.play(podcast, chapter.startTime)}
+                      >
+                        <span className="tabular-nums">
+                          {formatTimestamp(chapter.startTime)}
+                        </span>
+                        <span className="truncate">{chapter.title}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { CalendarClock, Clock, Repeat, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import type { ScheduledTask } from "@/schedules";
+
+interface SchedulesPanelProps {
+  schedules: ScheduledTask[];
+  onClose: () => void;
+}
+
+function formatNextRun(nextRun: string) {
+  return new Date(nextRun).toLocaleString([], {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export function SchedulesPanel({ schedules, onClose }: SchedulesPanelProps) {
+  return (
+    <div className="absolute inset-y-0 right-0 z-20 w-80 max-w-full bg-background border-l border-border shadow-xl flex flex-col">
+      <div className="px-4 py-3 border-b border-border flex items-center gap-2">
+        <CalendarClock className="h-5 w-5 text-[#F48120]" />
+        <h3 className="font-semibold text-base flex-1">Scheduled tasks</h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="rounded-full h-8 w-8"
+          onClick={onClose}
+          aria-label="Close scheduled tasks"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {schedules.length === 0 && (
+          <p className="text-muted-foreground text-sm text-center py-8">
+            Nothing is scheduled. Ask the agent to schedule a task or start a
+            podcast series!
+          </p>
+        )}
+        {schedules.map((task) => {
+          const Icon = task.cron ? Repeat : Clock;
+          return (
+            <Card
+              key={task.id}
+              className="p-3 gap-1 rounded-md bg-secondary/30 border-secondary/50"
+            >
+              <div className="flex items-start gap-2">
+                <div className="bg-[#F48120]/10 text-[#F48120] p-1.5 rounded-full flex-shrink-0">
+                  <Icon className="h-3.5 w-3.5" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <h4 className="font-medium text-sm break-words">
+                    {task.description}
+                  </h4>
+                  <p className="text-xs text-muted-foreground">
+                    {task.cron ? "Next" : "Runs"} {formatNextRun(task.nextRun)}
+                  </p>
+                  {task.cron && (
+                    <p className="text-xs text-muted-foreground">
+                      Repeats on <code>{task.cron}</code> (UTC)
+                    </p>
+                  )}
+                  <p className="text-[10px] text-muted-foreground/70 font-mono truncate">
+                    {task.id}
+                  </p>
+                </div>
+              </div>
+            </Card>
+          );
+        })}
+      </div>
+
+      {schedules.length > 0 && (
+        <p className="px-4 py-2 border-t border-border text-xs text-muted-foreground">
+          To cancel a task, ask the agent and confirm.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,26 +1,110 @@
 import { useState } from "react";
-import { Robot, CaretDown } from "@phosphor-icons/react";
+import {
+  Robot,
+  CaretDown,
+  CircleNotch,
+  Prohibit,
+  WarningCircle,
+} from "@phosphor-icons/react";
+import type { ToolInvocation } from "@ai-sdk/ui-utils";
 import { Button } from "@/components/button/Button";
 import { Card } from "@/components/card/Card";
 import { Tooltip } from "@/components/tooltip/Tooltip";
 import { APPROVAL } from "@/shared";
-
-interface ToolInvocation {
-  toolName: string;
-  toolCallId: string;
-  state: "call" | "result" | "partial-call";
-  step?: number;
-  args: Record<string, unknown>;
-  result?: {
-    content?: Array<{ type: string; text: string }>;
-  };
-}
+import { isToolError } from "@/tool-results";
 
 interface ToolInvocationCardProps {
   toolInvocation: ToolInvocation;
   toolCallId: string;
   needsConfirmation: boolean;
   addToolResult: (args: { toolCallId: string; result: string }) => void;
+  /** Approves this call and every later call to the tool in this session */
+  onAllowForSession?: () => void;
+}
+
+type Status =
+  | "preparing"
+  | "awaiting"
+  | "running"
+  | "completed"
+  | "denied"
+  | "failed";
+
+function invocationStatus(
+  toolInvocation: ToolInvocation,
+  needsConfirmation: boolean
+): Status {
+  if (toolInvocation.state === "partial-call") return "preparing";
+  if (toolInvocation.state === "call") {
+    return needsConfirmation ? "awaiting" : "running";
+  }
+  const { result } = toolInvocation;
+  // Approved calls show the approval until the agent sends the real result
+  if (result === APPROVAL.YES) return "running";
+  if (
+    result === APPROVAL.NO ||
+    result === "Error: User denied access to tool execution"
+  ) {
+    return "denied";
+  }
+  return isToolError(result) ? "failed" : "completed";
+}
+
+// Result content as text, preferring the message of structured results
+function resultText(result: unknown) {
+  if (typeof result === "string") return result;
+  if (typeof result === "object" && result !== null) {
+    if ("message" in result && typeof result.message === "string") {
+      return result.message;
+    }
+    if ("content" in result && Array.isArray(result.content)) {
+      return result.content
+        .map((item: { type: string; text: string }) => {
+          if (item.type === "text" && item.text.startsWith("\n~ Page URL:")) {
+            const lines = item.text.split("\n").filter(Boolean);
+            return lines
+              .map((line: string) => `- ${line.replace("\n~ ", "")}`)
+              .join("\n");
+          }
+          return item.text;
+        })
+        .join("\n");
+    }
+  }
+  return JSON.stringify(result, null, 2);
+}
+
+function StatusLabel({ status }: { status: Status }) {
+  switch (status) {
+    case "preparing":
+    case "running":
+      return (
+        <span className="text-xs text-muted-foreground flex items-center gap-1">
+          <CircleNotch size={12} className="animate-spin" />
+          {status === "preparing" ? "Preparing" : "Running"}
+        </span>
+      );
+    case "awaiting":
+      return (
+        <span className="text-xs text-[#F48120]">Waiting for approval</span>
+      );
+    case "denied":
+      return (
+        <span className="text-xs text-muted-foreground flex items-center gap-1">
+          <Prohibit size={12} />
+          Denied
+        </span>
+      );
+    case "failed":
+      return (
+        <span className="text-xs text-red-600 flex items-center gap-1">
+          <WarningCircle size={12} />
+          Failed
+        </span>
+      );
+    case "completed":
+      return <span className="text-xs text-[#F48120]/70">✓ Completed</span>;
+  }
 }
 
 export function ToolInvocationCard({
@@ -28,13 +112,22 @@ export function ToolInvocationCard({
   toolCallId,
   needsConfirmation,
   addToolResult,
+  onAllowForSession,
 }: ToolInvocationCardProps) {
   const [isExpanded, setIsExpanded] = useState(true);
+  const status = invocationStatus(toolInvocation, needsConfirmation);
+  const showResult =
+    toolInvocation.state === "result" &&
+    (status === "completed" || status === "failed");
 
   return (
     <Card
       className={`p-4 my-3 w-full max-w-[500px] rounded-md bg-neutral-100 dark:bg-neutral-900 ${
-        needsConfirmation ? "" : "border-[#F48120]/30"
+        status === "awaiting"
+          ? ""
+          : status === "failed"
+            ? "border-red-600/30"
+            : "border-[#F48120]/30"
       } overflow-hidden`}
     >
       <button
@@ -43,15 +136,13 @@ export function ToolInvocationCard({
         className="w-full flex items-center gap-2 cursor-pointer"
       >
         <div
-          className={`${needsConfirmation ? "bg-[#F48120]/10" : "bg-[#F48120]/5"} p-1.5 rounded-full flex-shrink-0`}
+          className={`${status === "awaiting" ? "bg-[#F48120]/10" : "bg-[#F48120]/5"} p-1.5 rounded-full flex-shrink-0`}
         >
           <Robot size={16} className="text-[#F48120]" />
         </div>
         <h4 className="font-medium flex items-center gap-2 flex-1 text-left">
           {toolInvocation.toolName}
-          {!needsConfirmation && toolInvocation.state === "result" && (
-            <span className="text-xs text-[#F48120]/70">✓ Completed</span>
-          )}
+          <StatusLabel status={status} />
         </h4>
         <CaretDown
           size={16}
@@ -71,11 +162,12 @@ export function ToolInvocationCard({
               Arguments:
             </h5>
             <pre className="bg-background/80 p-2 rounded-md text-xs overflow-auto whitespace-pre-wrap break-words max-w-[450px]">
-              {JSON.stringify(toolInvocation.args, null, 2)}
+              {/* Partial calls stream their arguments in */}
+              {JSON.stringify(toolInvocation.args ?? {}, null, 2)}
             </pre>
           </div>
 
-          {needsConfirmation && toolInvocation.state === "call" && (
+          {status === "awaiting" && (
             <div className="flex gap-2 justify-end">
               <Button
                 variant="primary"
@@ -89,6 +181,19 @@ export function ToolInvocationCard({
               >
                 Reject
               </Button>
+              {onAllowForSession && (
+                <Tooltip
+                  content={"Approve calls to this tool until you close the tab"}
+                >
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={onAllowForSession}
+                  >
+                    Always allow for this session
+                  </Button>
+                </Tooltip>
+              )}
               <Tooltip content={"Accept action"}>
                 <Button
                   variant="primary"
@@ -106,34 +211,17 @@ export function ToolInvocationCard({
             </div>
           )}
 
-          {!needsConfirmation && toolInvocation.state === "result" && (
+          {showResult && (
             <div className="mt-3 border-t border-[#F48120]/10 pt-3">
               <h5 className="text-xs font-medium mb-1 text-muted-foreground">
-                Result:
+                {status === "failed" ? "Error:" : "Result:"}
               </h5>
-              <pre className="bg-background/80 p-2 rounded-md text-xs overflow-auto whitespace-pre-wrap break-words max-w-[450px]">
-                {(() => {
-                  const result = toolInvocation.result;
-                  if (typeof result === "object" && result.content) {
-                    return result.content
-                      .map((item: { type: string; text: string }) => {
-                        if (
-                          item.type === "text" &&
-                          item.text.startsWith("\n~ Page URL:")
-                        ) {
-                          const lines = item.text.split("\n").filter(Boolean);
-                          return lines
-                            .map(
-                              (line: string) => `- ${line.replace("\n~ ", "")}`
-                            )
-                            .join("\n");
-                        }
-                        return item.text;
-                      })
-                      .join("\n");
-                  }
-                  return JSON.stringify(result, null, 2);
-                })()}
+              <pre
+                className={`bg-background/80 p-2 rounded-md text-xs overflow-auto whitespace-pre-wrap break-words max-w-[450px] ${
+                  status === "failed" ? "text-red-600" : ""
+                }`}
+              >
+                {resultText(toolInvocation.result)}
               </pre>
             </div>
           )}
@@ -0,0 +1,38 @@
+import type { ToolInvocation } from "@ai-sdk/ui-utils";
+import { ToolInvocationCard } from "@/components/tool-invocation-card/ToolInvocationCard";
+import { requiresConfirmation } from "@/shared";
+import type { ToolName } from "@/tools";
+import { toolResultRenderers } from "./renderers";
+
+interface ChatToolInvocationProps {
+  toolInvocation: ToolInvocation;
+  addToolResult: (args: { toolCallId: string; result: string }) => void;
+  /** Approves this call and every later call to the tool in this session */
+  onAllowForSession?: () => void;
+}
+
+/**
+ * A tool invocation in the chat: the tool's result card once it has one,
+ * otherwise the generic card with its arguments, status and confirmation
+ */
+export function ChatToolInvocation({
+  toolInvocation,
+  addToolResult,
+  onAllowForSession,
+}: ChatToolInvocationProps) {
+  if (toolInvocation.state === "result") {
+    const render = toolResultRenderers[toolInvocation.toolName as ToolName];
+    const card = render?.(toolInvocation.result);
+    if (card) return card;
+  }
+
+  return (
+    <ToolInvocationCard
+      toolInvocation={toolInvocation}
+      toolCallId={toolInvocation.toolCallId}
+      needsConfirmation={requiresConfirmation(toolInvocation.toolName)}
+      addToolResult={addToolResult}
+      onAllowForSession={onAllowForSession}
+    />
+  );
+}
@@ -0,0 +1,76 @@
+import { ExternalLink, ListMusic, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import usePlayer from "@/hooks/usePlayer";
+import { formatCreatedAt, formatDuration } from "@/lib/format";
+import type { Podcast } from "@/podcasts";
+import type { PodcastListToolResult } from "@/tool-results";
+
+/**
+ * Podcasts as compact rows linking to their episode pages, with a button to
+ * play episodes that have audio
+ */
+export function PodcastRows({ podcasts }: { podcasts: Podcast[] }) {
+  const player = usePlayer();
+  return (
+    <ul className="divide-y divide-secondary/50">
+      {podcasts.map((podcast) => (
+        <li
+          key={podcast.slug}
+          className="flex items-center gap-1 py-1.5 first:pt-0 last:pb-0"
+        >
+          <a
+            href={podcast.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="group flex flex-1 min-w-0 items-center gap-2 text-sm"
+          >
+            <span className="flex-1 min-w-0">
+              <span className="block truncate group-hover:text-[#F48120]">
+                {podcast.title}
+              </span>
+              <span className="block text-xs text-muted-foreground">
+                {formatCreatedAt(podcast.created_at)} ·{" "}
+                {podcast.audio_duration
+                  ? formatDuration(podcast.audio_duration)
+                  : "Text only"}
+              </span>
+            </span>
+            <ExternalLink className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground group-hover:text-[#F48120]" />
+          </a>
+          {podcast.audio_url && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="rounded-full h-7 w-7 flex-shrink-0 text-[#F48120]"
+              onClick={() => player.play(podcast)}
+              aria-label={`Play ${podcast.title}`}
+            >
+              <Play className="h-3.5 w-3.5" />
+            </Button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface PodcastListCardProps {
+  result: PodcastListToolResult;
+}
+
+export function PodcastListCard({ result }: PodcastListCardProps) {
+  return (
+    <Card className="p-4 my-3 gap-3 w-full max-w-[500px] rounded-md bg-secondary/30 border-secondary/50">
+      <div className="flex items-center gap-2">
+        <div className="bg-[#F48120]/10 p-1.5 rounded-full">
+          <ListMusic className="h-4 w-4 text-[#F48120]" />
+        </div>
+        <h4 className="font-medium text-sm">
+          Recent podcasts ({result.podcasts.length})
+        </h4>
+      </div>
+      <PodcastRows podcasts={result.podcasts} />
+    </Card>
+  );
+}
@@ -0,0 +1,125 @@
+import {
+  AlertTriangle,
+  ExternalLink,
+  Headphones,
+  ListPlus,
+  Pause,
+  Play,
+  RotateCw,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import usePlayer from "@/hooks/usePlayer";
+import { formatDuration, formatTimestamp } from "@/lib/format";
+import type { PodcastToolResult } from "@/tool-results";
+
+interface PodcastResultCardProps {
+  result: PodcastToolResult;
+}
+
+export function PodcastResultCard({ result }: PodcastResultCardProps) {
+  const player = usePlayer();
+  const { podcast } = result;
+
+  // Jobs that are retrying or failed have no podcast yet
+  if (!podcast) {
+    const isRetrying = result.status === "retrying";
+    const Icon = isRetrying ? RotateCw : AlertTriangle;
+    return (
+      <Card className="p-4 my-3 gap-2 w-full max-w-[500px] rounded-md bg-secondary/30 border-secondary/50">
+        <div className="flex items-center gap-2">
+          <div className="bg-[#F48120]/10 p-1.5 rounded-full">
+            <Icon
+              className={`h-4 w-4 ${isRetrying ? "text-[#F48120]" : "text-red-600"}`}
+            />
+          </div>
+          <h4 className="font-medium text-sm">
+            {isRetrying ? "Podcast will retry" : "Podcast failed"}
+          </h4>
+        </div>
+        <p className="text-xs text-muted-foreground whitespace-pre-wrap break-words">
+          {result.message}
+        </p>
+      </Card>
+    );
+  }
+
+  const isCurrent = player.current?.slug === podcast.slug;
+  const isPlaying = isCurrent && player.isPlaying;
+
+  return (
+    <Card className="p-4 my-3 gap-3 w-full max-w-[500px] rounded-md bg-secondary/30 border-secondary/50">
+      <div className="flex items-start gap-2">
+        <div className="bg-[#F48120]/10 p-1.5 rounded-full flex-shrink-0">
+          <Headphones className="h-4 w-4 text-[#F48120]" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <h4 className="font-medium text-sm break-words">{podcast.title}</h4>
+          <p className="text-xs text-muted-foreground">
+            {podcast.audio_duration
+              ? formatDuration(podcast.audio_duration)
+              : "Text only"}
+          </p>
+        </div>
+        <a
+          href={podcast.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-muted-foreground hover:text-[#F48120] p-1"
+          aria-label="Open episode"
+        >
+          <ExternalLink className="h-4 w-4" />
+        </a>
+      </div>
+
+      {podcast.description && (
+        <p className="text-xs text-muted-foreground">{podcast.description}</p>
+      )}
+
+      {podcast.audio_url && (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            className="bg-[#F48120] hover:bg-[#F48120]/90 text-white"
+            onClick={() => (isCurrent ? player.toggle() : player.play(podcast))}
+          >
+            {isPlaying ? (
+              <Pause className="h-4 w-4" />
+            ) : (
+              <Play className="h-4 w-4" />
+            )}
+            {isPlaying ? "Pause" : "Play"}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={isCurrent}
+            onClick={() => player.enqueue(podcast)}
+          >
+            <ListPlus className="h-4 w-4" />
+            Add to queue
+          </Button>
+        </div>
+      )}
+
+      {podcast.chapters.length > 1 && (
+        <ol className="space-y-0.5">
+          {podcast.chapters.map((chapter) => (
+            <li key={chapter.startTime}>
+              <button
+                type="button"
+                className="flex w-full gap-2 text-left text-xs text-muted-foreground hover:text-[#F48120]"
+                onClick={() => player.play(podcast, chapter.startTime)}
+              >
+                <span className="tabular-nums">
+                  {formatTimestamp(chapter.startTime)}
+                </span>
+                <span className="truncate">{chapter.title}</span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </Card>
+  );
+}
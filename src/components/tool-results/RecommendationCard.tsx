@@ -0,0 +1,32 @@
+import { Sparkles } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import type { RecommendationToolResult } from "@/tool-results";
+import { PodcastRows } from "./PodcastListCard";
+
+interface RecommendationCardProps {
+  result: RecommendationToolResult;
+}
+
+export function RecommendationCard({ result }: RecommendationCardProps) {
+  // The first line of the message is its heading
+  const explanation = result.message.split("\n").slice(1).join("\n").trim();
+
+  return (
+    <Card className="p-4 my-3 gap-3 w-full max-w-[500px] rounded-md bg-secondary/30 border-secondary/50">
+      <div className="flex items-center gap-2">
+        <div className="bg-[#F48120]/10 p-1.5 rounded-full">
+          <Sparkles className="h-4 w-4 text-[#F48120]" />
+        </div>
+        <h4 className="font-medium text-sm break-words">
+          For your mood: {result.mood}
+        </h4>
+      </div>
+      {result.podcasts.length > 0 && <PodcastRows podcasts={result.podcasts} />}
+      {explanation && (
+        <p className="text-xs text-muted-foreground whitespace-pre-wrap break-words">
+          {explanation}
+        </p>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,38 @@
+import { CalendarCheck } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import type { ScheduledTaskToolResult } from "@/tool-results";
+
+interface ScheduledTaskCardProps {
+  result: ScheduledTaskToolResult;
+}
+
+export function ScheduledTaskCard({ result }: ScheduledTaskCardProps) {
+  const { task } = result;
+  const nextRun = new Date(task.nextRun).toLocaleString([], {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+  return (
+    <Card className="p-4 my-3 gap-1 w-full max-w-[500px] rounded-md bg-secondary/30 border-secondary/50">
+      <div className="flex items-center gap-2">
+        <div className="bg-[#F48120]/10 p-1.5 rounded-full">
+          <CalendarCheck className="h-4 w-4 text-[#F48120]" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <h4 className="font-medium text-sm break-words">
+            {task.description}
+          </h4>
+          <p className="text-xs text-muted-foreground">
+            {task.cron
+              ? `Repeats on ${task.cron} (UTC), first run ${nextRun}`
+              : `Scheduled for ${nextRun}`}
+          </p>
+        </div>
+      </div>
+    </Card>
+  );
+}
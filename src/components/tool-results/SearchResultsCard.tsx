@@ -0,0 +1,77 @@
+import { Play, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import usePlayer from "@/hooks/usePlayer";
+import { formatCreatedAt, formatDuration } from "@/lib/format";
+import { splitSnippet } from "@/search";
+import type { PodcastSearchToolResult } from "@/tool-results";
+
+interface SearchResultsCardProps {
+  result: PodcastSearchToolResult;
+}
+
+export function SearchResultsCard({ result }: SearchResultsCardProps) {
+  const player = usePlayer();
+
+  return (
+    <Card className="p-4 my-3 gap-3 w-full max-w-[500px] rounded-md bg-secondary/30 border-secondary/50">
+      <div className="flex items-center gap-2">
+        <div className="bg-[#F48120]/10 p-1.5 rounded-full">
+          <Search className="h-4 w-4 text-[#F48120]" />
+        </div>
+        <h4 className="font-medium text-sm break-words">
+          Results for "{result.query}" ({result.results.length})
+        </h4>
+      </div>
+      <ul className="divide-y divide-secondary/50">
+        {result.results.map(({ podcast, snippet }) => (
+          <li
+            key={podcast.slug}
+            className="flex items-start gap-1 py-2 first:pt-0 last:pb-0"
+          >
+            <div className="flex-1 min-w-0">
+              <a
+                href={podcast.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block truncate text-sm hover:text-[#F48120]"
+              >
+                {podcast.title}
+              </a>
+              <p className="text-xs text-muted-foreground">
+                {formatCreatedAt(podcast.created_at)} ·{" "}
+                {podcast.audio_duration
+                  ? formatDuration(podcast.audio_duration)
+                  : "Text only"}
+              </p>
+              <p className="text-xs text-muted-foreground mt-1 line-clamp-2 break-words">
+                {splitSnippet(snippet).map(({ text, highlighted }, index) =>
+                  highlighted ? (
+                    // biome-ignore lint/suspicious/noArrayIndexKey: parts of an immutable snippet
+                    <mark key={index} className="bg-[#F48120]/20 text-inherit">
+                      {text}
+                    </mark>
+                  ) : (
+                    // biome-ignore lint/suspicious/noArrayIndexKey: parts of an immutable snippet
+                    <span key={index}>{text}</span>
+                  )
+                )}
+              </p>
+            </div>
+            {podcast.audio_url && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="rounded-full h-7 w-7 flex-shrink-0 text-[#F48120]"
+                onClick={() => player.play(podcast)}
+                aria-label={`Play ${podcast.title}`}
+              >
+                <Play className="h-3.5 w-3.5" />
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </Card>
+  );
+}
@@ -0,0 +1,47 @@
+import type { ReactNode } from "react";
+import { WeatherCard } from "@/components/weather-card/WeatherCard";
+import { isToolResult } from "@/tool-results";
+import type { ToolName } from "@/tools";
+import { isWeatherReport } from "@/weather";
+import { PodcastListCard } from "./PodcastListCard";
+import { PodcastResultCard } from "./PodcastResultCard";
+import { RecommendationCard } from "./RecommendationCard";
+import { ScheduledTaskCard } from "./ScheduledTaskCard";
+import { SearchResultsCard } from "./SearchResultsCard";
+
+/**
+ * Renders a tool's result as a card, or returns null for results it doesn't
+ * recognise, such as error messages
+ */
+export type ToolResultRenderer = (result: unknown) => ReactNode;
+
+/**
+ * Result cards for specific tools. Tools without a renderer, and results a
+ * renderer returns null for, are shown in the generic ToolInvocationCard.
+ */
+export const toolResultRenderers: Partial<
+  Record<ToolName, ToolResultRenderer>
+> = {
+  getWeatherInformation: (result) =>
+    isWeatherReport(result) ? <WeatherCard report={result} /> : null,
+  createAudioPodcast: (result) =>
+    isToolResult(result, "podcast") ? (
+      <PodcastResultCard result={result} />
+    ) : null,
+  listRecentPodcasts: (result) =>
+    isToolResult(result, "podcast-list") && result.podcasts.length > 0 ? (
+      <PodcastListCard result={result} />
+    ) : null,
+  searchPodcasts: (result) =>
+    isToolResult(result, "podcast-search") ? (
+      <SearchResultsCard result={result} />
+    ) : null,
+  recommendPodcast: (result) =>
+    isToolResult(result, "recommendation") ? (
+      <RecommendationCard result={result} />
+    ) : null,
+  scheduleTask: (result) =>
+    isToolResult(result, "scheduled-task") ? (
+      <ScheduledTaskCard result={result} />
+    ) : null,
+};
@@ -0,0 +1,113 @@
+import {
+  Cloud,
+  CloudDrizzle,
+  CloudFog,
+  CloudLightning,
+  CloudRain,
+  CloudSnow,
+  CloudSun,
+  Droplets,
+  type LucideIcon,
+  Moon,
+  Sun,
+  Wind,
+} from "lucide-react";
+import { Card } from "@/components/ui/card";
+import type { WeatherReport } from "@/weather";
+
+// Icon for a WMO weather code
+function weatherIcon(code: number, isDay = true): LucideIcon {
+  if (code === 0 || code === 1) return isDay ? Sun : Moon;
+  if (code === 2) return CloudSun;
+  if (code === 45 || code === 48) return CloudFog;
+  if (code >= 51 && code <= 57) return CloudDrizzle;
+  if ((code >= 61 && code <= 67) || (code >= 80 && code <= 82)) {
+    return CloudRain;
+  }
+  if ((code >= 71 && code <= 77) || code === 85 || code === 86) {
+    return CloudSnow;
+  }
+  if (code >= 95) return CloudLightning;
+  return Cloud;
+}
+
+// Dates are local to the location, so they are formatted without a zone shift
+function formatDay(date: string, index: number) {
+  if (index === 0) return "Today";
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString([], {
+    weekday: "short",
+    timeZone: "UTC",
+  });
+}
+
+interface WeatherCardProps {
+  report: WeatherReport;
+}
+
+export function WeatherCard({ report }: WeatherCardProps) {
+  const { location, current, daily, units } = report;
+  const CurrentIcon = weatherIcon(current.weatherCode, current.isDay);
+  const place = [location.name, location.region, location.country]
+    .filter((part, index, parts) => part && parts.indexOf(part) === index)
+    .join(", ");
+
+  return (
+    <Card className="p-4 my-3 gap-3 w-full max-w-[500px] rounded-md bg-secondary/30 border-secondary/50">
+      <div className="flex items-center gap-3">
+        <div className="bg-[#F48120]/10 p-2 rounded-full">
+          <CurrentIcon className="h-6 w-6 text-[#F48120]" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <h4 className="font-medium truncate">{place}</h4>
+          <p className="text-xs text-muted-foreground">
+            {current.description} · feels like{" "}
+            {Math.round(current.apparentTemperature)}
+            {units.temperature}
+          </p>
+        </div>
+        <span className="text-3xl font-semibold tabular-nums">
+          {Math.round(current.temperature)}
+          {units.temperature}
+        </span>
+      </div>
+
+      <div className="flex gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <Droplets className="h-3 w-3" />
+          {current.humidity}% humidity
+        </span>
+        <span className="flex items-center gap-1">
+          <Wind className="h-3 w-3" />
+          {Math.round(current.windSpeed)} {units.windSpeed}
+        </span>
+      </div>
+
+      <ol className="grid grid-cols-3 gap-2 border-t border-secondary/50 pt-3">
+        {daily.map((day, index) => {
+          const DayIcon = weatherIcon(day.weatherCode);
+          return (
+            <li
+              key={day.date}
+              className="flex flex-col items-center gap-1 text-xs"
+              title={day.description}
+            >
+              <span className="font-medium">{formatDay(day.date, index)}</span>
+              <DayIcon className="h-4 w-4 text-[#F48120]" />
+              <span className="tabular-nums">
+                {Math.round(day.temperatureMax)}° /{" "}
+                <span className="text-muted-foreground">
+                  {Math.round(day.temperatureMin)}°
+                </span>
+              </span>
+              {day.precipitationProbability !== null && (
+                <span className="text-muted-foreground">
+                  {day.precipitationProbability}% rain
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </Card>
+  );
+}
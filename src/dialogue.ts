@@ -0,0 +1,34 @@
+/**
+ * Two-host "conversation" podcasts
+ * Conversation scripts are written as speaker turns, each host gets their
+ * own voice, and the transcript keeps the speaker labels
+ */
+import { z } from "zod";
+import type { Voice } from "./tts";
+
+export const SPEAKERS = ["A", "B"] as const;
+export type Speaker = (typeof SPEAKERS)[number];
+
+export const dialogueTurnSchema = z.object({
+  speaker: z.enum(SPEAKERS),
+  text: z.string().trim().min(1),
+});
+
+export type DialogueTurn = z.infer<typeof dialogueTurnSchema>;
+
+/**
+ * Distinct voices for the two hosts, as speakers of a Deepgram Aura model
+ */
+export function hostVoices(model: string): Record<Speaker, Voice> {
+  return {
+    A: { model, speaker: "asteria" },
+    B: { model, speaker: "orion" },
+  };
+}
+
+/**
+ * Formats the turns as a transcript with speaker labels
+ */
+export function formatTranscript(turns: DialogueTurn[]) {
+  return turns.map((turn) => `Host ${turn.speaker}: ${turn.text}`).join("\n\n");
+}
@@ -0,0 +1,253 @@
+/**
+ * Podcast embeddings for semantic recommendations
+ * Each podcast is embedded once when it's saved. Every embedding is kept in
+ * the podcast_embeddings D1 table, and also in a Vectorize index when the
+ * worker has one bound. Without Vectorize, such as in local runs, the
+ * nearest podcasts are found by comparing against every one of the owner's
+ * embeddings in D1.
+ */
+import type { Ai, D1Database, Vectorize } from "@cloudflare/workers-types";
+import { z } from "zod";
+import { ModelResponseError } from "./models";
+import { PODCAST_COLUMNS, type PodcastRow, parseJsonArray } from "./podcasts";
+
+/**
+ * Turns texts into vectors, one per text
+ */
+export type Embedder = {
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+};
+
+/** A podcast and how similar it is to a query, higher is more similar */
+export type SimilarPodcast = { podcastId: number; score: number };
+
+/**
+ * Where podcast embeddings are stored and searched
+ */
+export type PodcastVectorIndex = {
+  upsert(
+    entries: { podcastId: number; ownerId: string | null; vector: number[] }[]
+  ): Promise<void>;
+  /** The owner's podcasts nearest to a vector, most similar first */
+  query(
+    vector: number[],
+    ownerId: string,
+    topK: number
+  ): Promise<SimilarPodcast[]>;
+};
+
+// Most texts sent to the embedding model in one call
+const EMBEDDING_BATCH_SIZE = 50;
+
+// Embedding models answer with one vector per input text in `data`
+const embeddingSchema = z.object({
+  data: z.array(z.array(z.number())),
+});
+
+/**
+ * An embedder backed by a Workers AI text embedding model
+ */
+export function createWorkersAIEmbedder(ai: Ai, model: string): Embedder {
+  return {
+    model,
+    async embed(texts) {
+      if (texts.length === 0) return [];
+      const output = await ai.run(model as "@cf/baai/bge-base-en-v1.5", {
+        text: texts,
+      });
+      const parsed = embeddingSchema.safeParse(output);
+      if (!parsed.success) {
+        throw new ModelResponseError(
+          model,
+          parsed.error.issues.map((issue) => issue.message).join(", ")
+        );
+      }
+      if (parsed.data.data.length !== texts.length) {
+        throw new ModelResponseError(
+          model,
+          `expected ${texts.length} vectors, got ${parsed.data.data.length}`
+        );
+      }
+      return parsed.data.data;
+    },
+  };
+}
+
+/**
+ * What a podcast is about, for embedding. The script is left out since it's
+ * longer than embedding models read.
+ */
+export function podcastEmbeddingText(
+  row: Pick<
+    PodcastRow,
+    "topic" | "title" | "description" | "tags" | "takeaways"
+  >
+) {
+  const tags = parseJsonArray<string>(row.tags);
+  const takeaways = parseJsonArray<string>(row.takeaways);
+  return [
+    row.title ?? row.topic,
+    row.title ? row.topic : null,
+    row.description,
+    tags.length > 0 ? `Tags: ${tags.join(", ")}` : null,
+    ...takeaways,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Cosine similarity of two vectors, 0 when either is all zeros or their
+ * lengths differ
+ */
+export function cosineSimilarity(a: number[], b: number[]) {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Keeps embeddings in D1 and finds the nearest ones by comparing the query
+ * with each of the owner's embeddings
+ */
+export function createD1VectorIndex(
+  db: D1Database,
+  model: string
+): PodcastVectorIndex {
+  return {
+    async upsert(entries) {
+      if (entries.length === 0) return;
+      const stmt = db.prepare(
+        `INSERT INTO podcast_embeddings (podcast_id, model, vector)
+         VALUES (?, ?, ?)
+         ON CONFLICT (podcast_id) DO UPDATE
+         SET model = excluded.model, vector = excluded.vector, created_at = datetime('now')`
+      );
+      await db.batch(
+        entries.map(({ podcastId, vector }) =>
+          stmt.bind(podcastId, model, JSON.stringify(vector))
+        )
+      );
+    },
+
+    async query(vector, ownerId, topK) {
+      const { results } = await db
+        .prepare(
+          `SELECT e.podcast_id, e.vector
+           FROM podcast_embeddings e
+           JOIN podcasts p ON p.id = e.podcast_id
+           WHERE p.owner_id = ? AND e.model = ?`
+        )
+        .bind(ownerId, model)
+        .all<{ podcast_id: number; vector: string }>();
+
+      return results
+        .map((row) => ({
+          podcastId: row.podcast_id,
+          score: cosineSimilarity(vector, JSON.parse(row.vector)),
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK);
+    },
+  };
+}
+
+/**
+ * Searches a Vectorize index, which needs a metadata index on `owner_id`.
+ * Embeddings are still written to D1 as well, which records which podcasts
+ * have been embedded.
+ */
+export function createVectorizeIndex(
+  vectorize: Vectorize,
+  db: D1Database,
+  model: string
+): PodcastVectorIndex {
+  const d1 = createD1VectorIndex(db, model);
+  return {
+    async upsert(entries) {
+      if (entries.length === 0) return;
+      await d1.upsert(entries);
+      await vectorize.upsert(
+        entries.map(({ podcastId, ownerId, vector }) => ({
+          id: String(podcastId),
+          values: vector,
+          metadata: { owner_id: ownerId ?? "", model },
+        }))
+      );
+    },
+
+    async query(vector, ownerId, topK) {
+      const { matches } = await vectorize.query(vector, {
+        topK,
+        filter: { owner_id: ownerId },
+      });
+      return matches.map((match) => ({
+        podcastId: Number(match.id),
+        score: match.score,
+      }));
+    },
+  };
+}
+
+/**
+ * Embeds podcasts and stores their embeddings in the index
+ */
+async function embedPodcastRows(
+  embedder: Embedder,
+  index: PodcastVectorIndex,
+  rows: (PodcastRow & { owner_id: string | null })[]
+) {
+  for (let i = 0; i < rows.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = rows.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const vectors = await embedder.embed(batch.map(podcastEmbeddingText));
+    await index.upsert(
+      batch.map((row, j) => ({
+        podcastId: row.id,
+        ownerId: row.owner_id,
+        vector: vectors[j],
+      }))
+    );
+  }
+}
+
+/**
+ * Embeds an owner's podcasts that have no embedding from the embedder's
+ * model yet, such as podcasts saved before recommendations used embeddings
+ * or whose embedding failed when they were saved
+ * @param limit - Most podcasts to embed, newest first; the rest are left for
+ * the next call
+ * @returns The number of podcasts embedded
+ */
+export async function backfillPodcastEmbeddings(
+  db: D1Database,
+  embedder: Embedder,
+  index: PodcastVectorIndex,
+  ownerId: string,
+  limit = 100
+): Promise<number> {
+  const { results } = await db
+    .prepare(
+      `SELECT ${PODCAST_COLUMNS}, owner_id
+       FROM podcasts
+       WHERE owner_id = ?
+         AND id NOT IN (SELECT podcast_id FROM podcast_embeddings WHERE model = ?)
+       ORDER BY created_at DESC, id DESC
+       LIMIT ?`
+    )
+    .bind(ownerId, embedder.model, limit)
+    .all<PodcastRow & { owner_id: string | null }>();
+
+  await embedPodcastRows(embedder, index, results);
+  if (results.length > 0) {
+    console.log(`Embedded ${results.length} podcasts for recommendations`);
+  }
+  return results.length;
+}
@@ -0,0 +1,194 @@
+/**
+ * Public podcast episode pages
+ * Each podcast row gets a server-rendered page at /p/:slug with its
+ * transcript and an audio player
+ */
+import type { D1Database } from "@cloudflare/workers-types";
+import { audioPath } from "./audio";
+import { captionsPath } from "./captions";
+import { parseJsonArray, type StoredChapter } from "./podcasts";
+
+export type EpisodeRow = {
+  topic: string;
+  slug: string;
+  script: string | null;
+  audio_key: string | null;
+  title: string | null;
+  description: string | null;
+  chapters: string | null;
+  takeaways: string | null;
+  tags: string | null;
+  has_captions: number;
+  created_at: string;
+};
+
+/**
+ * Public path of a podcast's episode page
+ */
+export function episodePath(slug: string) {
+  return `/p/${encodeURIComponent(slug)}`;
+}
+
+/**
+ * Decodes a percent-encoded path segment, such as a slug from a request path
+ * @returns The decoded segment, or null when it isn't valid percent-encoding
+ */
+export function decodePathSegment(segment: string) {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Joins the configured public base URL and a path
+ */
+export function publicUrl(baseUrl: string, path: string) {
+  return `${baseUrl.replace(/\/+$/, "")}${path}`;
+}
+
+/**
+ * Escapes text for use inside HTML element content and attribute values
+ */
+export function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Parses D1's `datetime('now')` format, which is UTC without a zone marker
+ */
+export function parseCreatedAt(createdAt: string) {
+  return new Date(
+    createdAt.includes("T") ? createdAt : `${createdAt.replace(" ", "T")}Z`
+  );
+}
+
+function renderParagraphs(text: string) {
+  return text
+    .trim()
+    .split(/\n\s*\n/)
+    .map((paragraph) => `<p>${escapeHtml(paragraph.trim())}</p>`)
+    .join("\n");
+}
+
+function renderTranscript(script: string | null, chapters: StoredChapter[]) {
+  if (chapters.length > 0) {
+    return chapters
+      .map(
+        (chapter) =>
+          `<h3>${escapeHtml(chapter.heading)}</h3>\n${renderParagraphs(chapter.text)}`
+      )
+      .join("\n");
+  }
+  if (!script?.trim()) {
+    return `<p class="muted">No transcript is available for this episode.</p>`;
+  }
+  return renderParagraphs(script);
+}
+
+function renderShowNotes(takeaways: string[], tags: string[]) {
+  const sections: string[] = [];
+  if (takeaways.length > 0) {
+    sections.push(`<h2>Key takeaways</h2>
+<ul>
+${takeaways.map((takeaway) => `<li>${escapeHtml(takeaway)}</li>`).join("\n")}
+</ul>`);
+  }
+  if (tags.length > 0) {
+    sections.push(
+      `<p class="muted">Tags: ${tags.map((tag) => `<span class="tag">${escapeHtml(tag)}</span>`).join(" ")}</p>`
+    );
+  }
+  return sections.join("\n");
+}
+
+function renderPage(title: string, body: string, description?: string) {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+${description ? `<meta name="description" content="${escapeHtml(description)}">\n` : ""}
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 42rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.6; color: #1f2937; }
+  h1 { line-height: 1.25; }
+  h2 { margin-top: 2rem; }
+  audio { width: 100%; margin: 1rem 0; }
+  .muted { color: #6b7280; }
+  .accent { color: #F48120; }
+  .lede { font-size: 1.125rem; }
+  .tag { background: #f3f4f6; border-radius: 9999px; padding: 0.125rem 0.5rem; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+/**
+ * Renders the HTML page for a single episode
+ */
+export function renderEpisodePage(podcast: EpisodeRow) {
+  const createdAt = parseCreatedAt(podcast.created_at);
+  const player = podcast.audio_key
+    ? `<audio controls preload="metadata" src="${escapeHtml(audioPath(podcast.slug))}"></audio>`
+    : `<p class="muted">This episode has no audio.</p>`;
+  const captions = podcast.has_captions
+    ? `<p class="muted">Timed transcript: <a href="${escapeHtml(captionsPath(podcast.slug, "vtt"))}">WebVTT</a> · <a href="${escapeHtml(captionsPath(podcast.slug, "srt"))}">SRT</a></p>\n`
+    : "";
+
+  const title = podcast.title ?? podcast.topic;
+  const description = podcast.description
+    ? `<p class="lede">${escapeHtml(podcast.description)}</p>\n`
+    : "";
+
+  return renderPage(
+    title,
+    `<p class="accent">🎧 Podcast episode</p>
+<h1>${escapeHtml(title)}</h1>
+${description}<p class="muted"><time datetime="${createdAt.toISOString()}">${createdAt.toUTCString()}</time></p>
+${player}
+${captions}${renderShowNotes(parseJsonArray(podcast.takeaways), parseJsonArray(podcast.tags))}
+<h2>Transcript</h2>
+${renderTranscript(podcast.script, parseJsonArray(podcast.chapters))}`,
+    podcast.description ?? undefined
+  );
+}
+
+/**
+ * Looks up a podcast by slug and serves its episode page, or a 404 page
+ */
+export async function serveEpisodePage(
+  db: D1Database,
+  slug: string
+): Promise<Response> {
+  const podcast = await db
+    .prepare(
+      `SELECT topic, slug, script, audio_key, title, description, chapters, takeaways, tags, has_captions, created_at
+       FROM podcasts WHERE slug = ?`
+    )
+    .bind(slug)
+    .first<EpisodeRow>();
+
+  const headers = { "Content-Type": "text/html; charset=utf-8" };
+  if (!podcast) {
+    return new Response(
+      renderPage(
+        "Episode not found",
+        `<h1>Episode not found</h1>
+<p class="muted">There is no podcast at this address.</p>`
+      ),
+      { status: 404, headers }
+    );
+  }
+
+  return new Response(renderEpisodePage(podcast), { status: 200, headers });
+}
@@ -0,0 +1,220 @@
+/**
+ * Structured podcast scripts
+ * The scriptwriter model returns the whole episode as JSON: a title, a
+ * one-line description, chapters to be read aloud, key takeaways and tags.
+ * Output that doesn't match the schema is sent back to the model with the
+ * validation errors so it can repair it.
+ */
+import type { Ai } from "@cloudflare/workers-types";
+import { z } from "zod";
+import {
+  type DialogueTurn,
+  dialogueTurnSchema,
+  formatTranscript,
+} from "./dialogue";
+import { type ChatMessage, runTextModel } from "./models";
+import type { PodcastFormat } from "./podcast-jobs";
+
+/** How many times the model is asked to repair invalid output */
+const MAX_REPAIRS = 2;
+
+const metadataShape = {
+  title: z.string().trim().min(1).max(200),
+  description: z.string().trim().min(1).max(500),
+  takeaways: z.array(z.string().trim().min(1)).min(1).max(10),
+  tags: z.array(z.string().trim().toLowerCase().min(1).max(40)).min(1).max(10),
+};
+
+const narratedScriptSchema = z.object({
+  ...metadataShape,
+  chapters: z
+    .array(
+      z.object({
+        heading: z.string().trim().min(1).max(200),
+        body: z.string().trim().min(1),
+      })
+    )
+    .min(1)
+    .max(12),
+});
+
+const conversationScriptSchema = z.object({
+  ...metadataShape,
+  chapters: z
+    .array(
+      z.object({
+        heading: z.string().trim().min(1).max(200),
+        turns: z.array(dialogueTurnSchema).min(1),
+      })
+    )
+    .min(1)
+    .max(12),
+});
+
+export type Chapter = {
+  heading: string;
+  /** What is read aloud; conversation turns are labelled with their host */
+  text: string;
+  /** The speaker turns of a conversation chapter */
+  turns?: DialogueTurn[];
+};
+
+/**
+ * A validated script, the same shape for narrated and conversation episodes
+ */
+export type EpisodeScript = {
+  title: string;
+  description: string;
+  chapters: Chapter[];
+  takeaways: string[];
+  tags: string[];
+};
+
+/**
+ * Chat messages asking the scriptwriter model for an episode as JSON
+ * @param previousTitles - Earlier episodes of the same series, which the new
+ * episode should not repeat
+ */
+export function episodeScriptMessages(
+  topic: string,
+  isAccessible: boolean,
+  format: PodcastFormat,
+  previousTitles: string[] = []
+): ChatMessage[] {
+  const length = isAccessible
+    ? "approximately 4-5 minutes when read aloud (600-750 words), with a clear introduction, main points and conclusion"
+    : "2-3 minutes when read aloud (300-450 words), covering 2-3 key points";
+
+  const chapterShape =
+    format === "conversation"
+      ? `{"heading": "...", "turns": [{"speaker": "A", "text": "..."}, {"speaker": "B", "text": "..."}]}`
+      : `{"heading": "...", "body": "..."}`;
+
+  const system =
+    format === "conversation"
+      ? "You are a professional podcast script writer. You write lively, natural conversations between two podcast hosts, Host A and Host B, who take turns speaking."
+      : isAccessible
+        ? "You are a professional podcast script writer specializing in accessible content. Create engaging, well-structured podcast scripts that are perfect for both audio listening and text reading."
+        : "You are a professional podcast script writer. Create engaging, conversational podcast scripts that sound natural when spoken aloud.";
+
+  const series =
+    previousTitles.length > 0
+      ? ` This episode is part of a series. Earlier episodes were titled ${previousTitles
+          .map((title) => `"${title}"`)
+          .join(", ")}, so cover a fresh angle and use a new title.`
+      : "";
+
+  return [
+    { role: "system", content: system },
+    {
+      role: "user",
+      content: `Write a podcast episode about "${topic}" lasting ${length}. Split it into 2-5 chapters that are read aloud as natural speech, without stage directions or sound cues.${series} Return only a JSON object with this shape, and no other text:
+{"title": "episode title", "description": "one-sentence summary", "chapters": [${chapterShape}], "takeaways": ["key takeaway"], "tags": ["tag"]}`,
+    },
+  ];
+}
+
+function describeIssues(error: z.ZodError) {
+  return error.issues
+    .map((issue) => `${issue.path.join(".") || "output"}: ${issue.message}`)
+    .join("; ");
+}
+
+/**
+ * Parses and validates model output, which may wrap the JSON in prose or a
+ * code fence
+ * @returns The script, or a description of what is wrong with the output
+ */
+export function parseEpisodeScript(
+  output: string,
+  format: PodcastFormat
+): { script: EpisodeScript } | { error: string } {
+  const start = output.indexOf("{");
+  const end = output.lastIndexOf("}");
+  if (start === -1 || end < start) {
+    return { error: "the output does not contain a JSON object" };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(output.slice(start, end + 1));
+  } catch (error) {
+    return { error: `the JSON is malformed (${error})` };
+  }
+
+  if (format === "conversation") {
+    const parsed = conversationScriptSchema.safeParse(json);
+    if (!parsed.success) return { error: describeIssues(parsed.error) };
+    const { chapters, ...metadata } = parsed.data;
+    return {
+      script: {
+        ...metadata,
+        chapters: chapters.map(({ heading, turns }) => ({
+          heading,
+          text: formatTranscript(turns),
+          turns,
+        })),
+      },
+    };
+  }
+
+  const parsed = narratedScriptSchema.safeParse(json);
+  if (!parsed.success) return { error: describeIssues(parsed.error) };
+  const { chapters, ...metadata } = parsed.data;
+  return {
+    script: {
+      ...metadata,
+      chapters: chapters.map(({ heading, body }) => ({ heading, text: body })),
+    },
+  };
+}
+
+/**
+ * Asks the model for a script, feeding validation errors back to it until
+ * the output is valid
+ * @throws When the output is still invalid after MAX_REPAIRS repairs
+ */
+export async function generateEpisodeScript(
+  ai: Ai,
+  model: string,
+  topic: string,
+  isAccessible: boolean,
+  format: PodcastFormat,
+  previousTitles: string[] = []
+): Promise<EpisodeScript> {
+  const messages = episodeScriptMessages(
+    topic,
+    isAccessible,
+    format,
+    previousTitles
+  );
+
+  for (let repairs = 0; ; repairs++) {
+    const output = await runTextModel(ai, model, messages);
+    const result = parseEpisodeScript(output, format);
+    if ("script" in result) return result.script;
+
+    if (repairs >= MAX_REPAIRS) {
+      throw new Error(
+        `Failed to generate a valid podcast script: ${result.error}`
+      );
+    }
+    console.warn(
+      `Invalid podcast script, asking for a repair: ${result.error}`
+    );
+    messages.push(
+      { role: "assistant", content: output },
+      {
+        role: "user",
+        content: `That output is invalid: ${result.error}. Return only the corrected JSON object.`,
+      }
+    );
+  }
+}
+
+/**
+ * The full transcript of a script, one paragraph per chapter
+ */
+export function scriptTranscript(script: EpisodeScript) {
+  return script.chapters.map((chapter) => chapter.text).join("\n\n");
+}
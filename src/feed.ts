@@ -0,0 +1,188 @@
+/**
+ * RSS 2.0 podcast feed with iTunes and Podcasting 2.0 tags, so generated
+ * episodes can be followed from any podcast app
+ */
+import type { D1Database } from "@cloudflare/workers-types";
+import { audioPath } from "./audio";
+import { signFeedToken } from "./auth";
+import { CAPTION_FORMATS, captionsPath } from "./captions";
+import { CHAPTERS_CONTENT_TYPE, chaptersPath } from "./chapters";
+import { episodePath, parseCreatedAt, publicUrl } from "./episode-page";
+import {
+  chapterTimestamps,
+  listRecentPodcastRows,
+  parseJsonArray,
+  type PodcastRow,
+} from "./podcasts";
+
+const FEED_TITLE = "Podcast Chat Agent";
+const FEED_DESCRIPTION =
+  "AI-generated podcast episodes created with the Podcast Chat Agent.";
+const FEED_LIMIT = 50;
+
+/**
+ * Escapes text for XML and drops characters XML 1.0 does not allow at all,
+ * which model output occasionally contains
+ */
+export function escapeXml(text: string) {
+  return text
+    .replace(/[^\t\n\r\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Formats seconds as the HH:MM:SS value of `itunes:duration`
+ */
+export function formatDuration(seconds: number) {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  return [hours, minutes, secs]
+    .map((n) => String(n).padStart(2, "0"))
+    .join(":");
+}
+
+function renderItem(podcast: PodcastRow, baseUrl: string) {
+  const link = publicUrl(baseUrl, episodePath(podcast.slug));
+  const takeaways = parseJsonArray<string>(podcast.takeaways);
+  const lines = [
+    `<title>${escapeXml(podcast.title ?? podcast.topic)}</title>`,
+    `<link>${escapeXml(link)}</link>`,
+    `<guid isPermaLink="false">${escapeXml(podcast.slug)}</guid>`,
+    `<pubDate>${parseCreatedAt(podcast.created_at).toUTCString()}</pubDate>`,
+    `<description>${escapeXml(podcast.description ?? podcast.script ?? podcast.topic)}</description>`,
+  ];
+  if (takeaways.length > 0) {
+    const summary = [
+      podcast.description,
+      "Key takeaways:",
+      ...takeaways.map((takeaway) => `- ${takeaway}`),
+    ]
+      .filter(Boolean)
+      .join("\n");
+    lines.push(`<itunes:summary>${escapeXml(summary)}</itunes:summary>`);
+  }
+  for (const tag of parseJsonArray<string>(podcast.tags)) {
+    lines.push(`<category>${escapeXml(tag)}</category>`);
+  }
+
+  if (podcast.audio_key) {
+    const audioUrl = publicUrl(baseUrl, audioPath(podcast.slug));
+    lines.push(
+      `<enclosure url="${escapeXml(audioUrl)}" length="${podcast.audio_size ?? 0}" type="audio/mpeg"/>`
+    );
+    if (podcast.audio_duration) {
+      lines.push(
+        `<itunes:duration>${formatDuration(podcast.audio_duration)}</itunes:duration>`
+      );
+    }
+    if (chapterTimestamps(podcast).length > 0) {
+      const chaptersUrl = publicUrl(baseUrl, chaptersPath(podcast.slug));
+      lines.push(
+        `<podcast:chapters url="${escapeXml(chaptersUrl)}" type="${CHAPTERS_CONTENT_TYPE}"/>`
+      );
+    }
+    if (podcast.has_captions) {
+      for (const format of ["vtt", "srt"] as const) {
+        const transcriptUrl = publicUrl(
+          baseUrl,
+          captionsPath(podcast.slug, format)
+        );
+        lines.push(
+          `<podcast:transcript url="${escapeXml(transcriptUrl)}" type="${CAPTION_FORMATS[format].contentType}" language="en" rel="captions"/>`
+        );
+      }
+    }
+  }
+  lines.push("<itunes:explicit>false</itunes:explicit>");
+
+  return `<item>\n${lines.map((line) => `  ${line}`).join("\n")}\n</item>`;
+}
+
+/**
+ * Path of a user's feed, or of the feed of podcasts without an owner when no
+ * token is given
+ */
+export function feedPath(token?: string) {
+  return token ? `/feed.xml?token=${encodeURIComponent(token)}` : "/feed.xml";
+}
+
+/**
+ * Renders the feed XML for the given podcasts
+ * @param path - Where the feed is served from, for its self link
+ */
+export function renderFeed(
+  podcasts: PodcastRow[],
+  baseUrl: string,
+  path = feedPath()
+) {
+  const siteUrl = publicUrl(baseUrl, "/");
+  const feedUrl = publicUrl(baseUrl, path);
+  const lastBuildDate = podcasts[0]
+    ? parseCreatedAt(podcasts[0].created_at)
+    : new Date();
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:podcast="https://podcastindex.org/namespace/1.0">
+<channel>
+<title>${FEED_TITLE}</title>
+<link>${escapeXml(siteUrl)}</link>
+<atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml"/>
+<description>${FEED_DESCRIPTION}</description>
+<language>en</language>
+<lastBuildDate>${lastBuildDate.toUTCString()}</lastBuildDate>
+<itunes:author>${FEED_TITLE}</itunes:author>
+<itunes:summary>${FEED_DESCRIPTION}</itunes:summary>
+<itunes:category text="Technology"/>
+<itunes:explicit>false</itunes:explicit>
+${podcasts.map((podcast) => renderItem(podcast, baseUrl)).join("\n")}
+</channel>
+</rss>`;
+}
+
+/**
+ * Serves the feed for a user's most recent podcasts, addressed by their feed
+ * token, or for the most recent podcasts without an owner
+ */
+export async function serveFeed(
+  db: D1Database,
+  baseUrl: string,
+  owner: { id: string; token: string } | null
+): Promise<Response> {
+  const podcasts = await listRecentPodcastRows(
+    db,
+    FEED_LIMIT,
+    owner?.id ?? null
+  );
+  return new Response(renderFeed(podcasts, baseUrl, feedPath(owner?.token)), {
+    headers: {
+      "Content-Type": "application/rss+xml; charset=utf-8",
+      "Cache-Control": owner ? "private, max-age=300" : "public, max-age=300",
+    },
+  });
+}
+
+/**
+ * Serves the URL of a signed-in user's feed, for subscribing in a podcast app
+ */
+export async function serveFeedUrl(
+  userId: string,
+  secret: string,
+  baseUrl: string
+): Promise<Response> {
+  const token = await signFeedToken(userId, secret);
+  return new Response(
+    JSON.stringify({ url: publicUrl(baseUrl, feedPath(token)) }),
+    {
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    }
+  );
+}
@@ -0,0 +1,15 @@
+import { useContext } from "react";
+import { PlayerContext } from "@/components/player/PlayerProvider";
+
+/**
+ * The in-app player. Components using it must be inside a PlayerProvider.
+ */
+const usePlayer = () => {
+  const player = useContext(PlayerContext);
+  if (!player) {
+    throw new Error("usePlayer must be used inside a PlayerProvider");
+  }
+  return player;
+};
+
+export default usePlayer;
@@ -0,0 +1,24 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Fetches the current user's id from the worker, which starts a session
+ * cookie on the first visit. Returns null until the session is known.
+ */
+const useSession = () => {
+  const [userId, setUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/session", { credentials: "same-origin" })
+      .then((response) => {
+        if (!response.ok)
+          throw new Error(`Session request failed: ${response.status}`);
+        return response.json() as Promise<{ userId: string }>;
+      })
+      .then((session) => setUserId(session.userId))
+      .catch((error) => console.error("Failed to start session:", error));
+  }, []);
+
+  return userId;
+};
+
+export default useSession;
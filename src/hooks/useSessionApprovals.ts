@@ -0,0 +1,47 @@
+import { useCallback, useState } from "react";
+import { type ConfirmedToolName, TOOL_CONFIRMATIONS } from "@/shared";
+
+const STORAGE_KEY = "approvedTools";
+
+function readApprovals(): ConfirmedToolName[] {
+  try {
+    const saved = JSON.parse(sessionStorage.getItem(STORAGE_KEY) ?? "[]");
+    // Drop anything the policy no longer allows, e.g. after a deploy
+    return Array.isArray(saved)
+      ? saved.filter(
+          (name): name is ConfirmedToolName =>
+            name in TOOL_CONFIRMATIONS &&
+            TOOL_CONFIRMATIONS[name as ConfirmedToolName].allowForSession
+        )
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Tools the user has chosen to always allow until the tab is closed. Only
+ * tools whose confirmation policy has allowForSession can be added.
+ */
+const useSessionApprovals = () => {
+  const [approved, setApproved] = useState(readApprovals);
+
+  const allowForSession = useCallback((toolName: ConfirmedToolName) => {
+    if (!TOOL_CONFIRMATIONS[toolName].allowForSession) return;
+    setApproved((current) => {
+      if (current.includes(toolName)) return current;
+      const next = [...current, toolName];
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const isAllowedForSession = useCallback(
+    (toolName: ConfirmedToolName) => approved.includes(toolName),
+    [approved]
+  );
+
+  return { isAllowedForSession, allowForSession };
+};
+
+export default useSessionApprovals;
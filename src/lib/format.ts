@@ -0,0 +1,31 @@
+/**
+ * Formats a position in an episode as m:ss
+ */
+export function formatTimestamp(seconds: number) {
+  const total = Math.floor(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Formats an episode's length, such as "4 min" or "45 s"
+ */
+export function formatDuration(seconds: number) {
+  return seconds < 60
+    ? `${Math.round(seconds)} s`
+    : `${Math.round(seconds / 60)} min`;
+}
+
+/**
+ * Formats a podcast's creation date. D1 stores created_at as UTC without a
+ * zone marker.
+ */
+export function formatCreatedAt(createdAt: string) {
+  const date = new Date(
+    createdAt.includes("T") ? createdAt : `${createdAt.replace(" ", "T")}Z`
+  );
+  return date.toLocaleDateString([], {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
@@ -0,0 +1,357 @@
+/**
+ * Local time lookups
+ * Resolves a free-form location to an IANA time zone using the bundled city
+ * dataset, then reads the current time in that zone with Intl. Nothing is
+ * fetched, so the local time tool works without network access.
+ */
+import { CITIES, COUNTRIES, type CityEntry } from "./cities";
+
+export type TimeZoneCandidate = {
+  /** "City, Region, Country" */
+  label: string;
+  timeZone: string;
+};
+
+export type LocalTime = {
+  status: "resolved";
+  location: string;
+  timeZone: string;
+  /** ISO 8601 local time with the zone's UTC offset, to the second */
+  localTime: string;
+  /** Current offset from UTC, e.g. "+05:30" */
+  utcOffset: string;
+  /** Whether the zone is currently observing daylight saving time */
+  isDst: boolean;
+};
+
+/**
+ * What the local time tool returns. Locations that match places in
+ * different zones come back as candidates rather than a guess.
+ */
+export type LocalTimeResult =
+  | LocalTime
+  | {
+      status: "ambiguous";
+      query: string;
+      message: string;
+      candidates: TimeZoneCandidate[];
+    }
+  | { status: "not_found"; query: string; message: string };
+
+// Alternative spellings of country names, normalized
+const COUNTRY_ALIASES: Record<string, string> = {
+  uk: "GB",
+  "united kingdom": "GB",
+  "great britain": "GB",
+  britain: "GB",
+  england: "GB",
+  scotland: "GB",
+  wales: "GB",
+  "northern ireland": "GB",
+  usa: "US",
+  america: "US",
+  "united states of america": "US",
+  uae: "AE",
+  "south korea": "KR",
+  korea: "KR",
+  "north korea": "KP",
+  czechia: "CZ",
+  holland: "NL",
+  burma: "MM",
+  "ivory coast": "CI",
+  turkiye: "TR",
+  vatican: "VA",
+};
+
+// Postal abbreviations of the regions in the dataset. Some are shared, so
+// each maps to every region it could mean.
+const REGION_ABBREVIATIONS: Record<string, string[]> = {
+  al: ["Alabama"],
+  ak: ["Alaska"],
+  az: ["Arizona"],
+  ca: ["California"],
+  co: ["Colorado"],
+  dc: ["District of Columbia"],
+  fl: ["Florida"],
+  ga: ["Georgia"],
+  hi: ["Hawaii"],
+  id: ["Idaho"],
+  il: ["Illinois"],
+  in: ["Indiana"],
+  ky: ["Kentucky"],
+  la: ["Louisiana"],
+  ma: ["Massachusetts"],
+  md: ["Maryland"],
+  me: ["Maine"],
+  mi: ["Michigan"],
+  mn: ["Minnesota"],
+  mo: ["Missouri"],
+  nc: ["North Carolina"],
+  nd: ["North Dakota"],
+  nm: ["New Mexico"],
+  nv: ["Nevada"],
+  ny: ["New York"],
+  oh: ["Ohio"],
+  or: ["Oregon"],
+  pa: ["Pennsylvania"],
+  tn: ["Tennessee"],
+  tx: ["Texas"],
+  ut: ["Utah"],
+  wa: ["Washington", "Western Australia"],
+  wi: ["Wisconsin"],
+  ab: ["Alberta"],
+  bc: ["British Columbia"],
+  mb: ["Manitoba"],
+  nb: ["New Brunswick"],
+  nl: ["Newfoundland and Labrador"],
+  ns: ["Nova Scotia"],
+  nt: ["Northwest Territories", "Northern Territory"],
+  nu: ["Nunavut"],
+  on: ["Ontario"],
+  qc: ["Quebec"],
+  sk: ["Saskatchewan"],
+  yt: ["Yukon"],
+  act: ["Australian Capital Territory"],
+  nsw: ["New South Wales"],
+  qld: ["Queensland"],
+  sa: ["South Australia"],
+  tas: ["Tasmania"],
+  vic: ["Victoria"],
+};
+
+/**
+ * Lowercases, strips accents and punctuation, and collapses whitespace, so
+ * "São Paulo" matches "sao paulo" and "St. John's" matches "St Johns"
+ */
+export function normalizePlace(text: string) {
+  return text
+    .normalize("NFD")
+    .replace(/\p{Diacritic}/gu, "")
+    .toLowerCase()
+    .replace(/[.'’]/g, "")
+    .replace(/[\s_-]+/g, " ")
+    .trim();
+}
+
+const countryCodesByName = new Map<string, string>(
+  Object.entries(COUNTRY_ALIASES)
+);
+for (const [code, name] of Object.entries(COUNTRIES)) {
+  countryCodesByName.set(normalizePlace(name), code);
+  // "Korea (South)" is also "korea south"; "Bosnia & Herzegovina" is also
+  // "bosnia and herzegovina"
+  countryCodesByName.set(
+    normalizePlace(name.replace(/[()]/g, "").replace("&", "and")),
+    code
+  );
+}
+
+function countryCode(text: string) {
+  if (/^[a-z]{2}$/.test(text) && COUNTRIES[text.toUpperCase()]) {
+    return text.toUpperCase();
+  }
+  return countryCodesByName.get(text);
+}
+
+// Whether a city entry is in the region or country named by a qualifier
+function matchesQualifier(
+  [, country, region]: CityEntry,
+  qualifier: string
+): boolean {
+  if (region) {
+    const regions = REGION_ABBREVIATIONS[qualifier] ?? [];
+    if (normalizePlace(region) === qualifier || regions.includes(region)) {
+      return true;
+    }
+  }
+  return countryCode(qualifier) === country;
+}
+
+function cityLabel([city, country, region]: CityEntry) {
+  return [city, region, COUNTRIES[country]].filter(Boolean).join(", ");
+}
+
+/**
+ * Whether Intl knows the IANA zone name
+ */
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+type ZoneResolution =
+  | { status: "resolved"; location: string; timeZone: string }
+  | { status: "ambiguous"; candidates: TimeZoneCandidate[] }
+  | { status: "not_found" };
+
+// Places whose entries all share one zone resolve; otherwise every entry
+// becomes a candidate
+function fromEntries(entries: CityEntry[], location?: string): ZoneResolution {
+  if (entries.length === 0) return { status: "not_found" };
+  const zones = new Set(entries.map((entry) => entry[3]));
+  if (zones.size === 1) {
+    return {
+      status: "resolved",
+      location: location ?? cityLabel(entries[0]),
+      timeZone: entries[0][3],
+    };
+  }
+  return {
+    status: "ambiguous",
+    candidates: entries.map((entry) => ({
+      label: cityLabel(entry),
+      timeZone: entry[3],
+    })),
+  };
+}
+
+/**
+ * Resolves a location to an IANA time zone. Accepts zone names ("Asia/Tokyo"),
+ * cities optionally qualified by region or country ("Portland, OR",
+ * "Birmingham, UK"), and countries that span a single zone.
+ */
+export function resolveTimeZone(query: string): ZoneResolution {
+  const trimmed = query.trim();
+  if (!trimmed) return { status: "not_found" };
+  if (
+    (trimmed.includes("/") || /^utc$/i.test(trimmed)) &&
+    isValidTimeZone(trimmed)
+  ) {
+    const timeZone = new Intl.DateTimeFormat("en-US", {
+      timeZone: trimmed,
+    }).resolvedOptions().timeZone;
+    return { status: "resolved", location: timeZone, timeZone };
+  }
+
+  const [place, ...qualifiers] = trimmed.split(",").map(normalizePlace);
+  const cities = CITIES.filter(
+    (entry) =>
+      normalizePlace(entry[0]) === place &&
+      qualifiers.every((qualifier) => matchesQualifier(entry, qualifier))
+  );
+  if (cities.length > 0 || qualifiers.length > 0) return fromEntries(cities);
+
+  const country = countryCode(place);
+  if (!country) return { status: "not_found" };
+  // One entry per zone, using the city the zone is named after
+  const zones = new Map<string, CityEntry>();
+  for (const entry of CITIES) {
+    const [city, code, , timeZone] = entry;
+    const zoneCity = timeZone.slice(timeZone.lastIndexOf("/") + 1);
+    if (code === country && normalizePlace(zoneCity) === normalizePlace(city)) {
+      zones.set(timeZone, entry);
+    }
+  }
+  return fromEntries([...zones.values()], COUNTRIES[country]);
+}
+
+// Minutes ahead of UTC the zone is at the instant
+function zoneOffsetMinutes(timeZone: string, date: Date) {
+  const parts = zonedParts(timeZone, date);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+function zonedParts(timeZone: string, date: Date) {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+  const values = Object.fromEntries(
+    formatter
+      .formatToParts(date)
+      .filter((part) => part.type !== "literal")
+      .map((part) => [part.type, Number(part.value)])
+  );
+  return values as Record<
+    "year" | "month" | "day" | "hour" | "minute" | "second",
+    number
+  >;
+}
+
+/**
+ * Formats an offset in minutes as "+HH:MM"
+ */
+export function formatUtcOffset(minutes: number) {
+  const sign = minutes < 0 ? "-" : "+";
+  const absolute = Math.abs(minutes);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+}
+
+/**
+ * The current time in an IANA zone
+ */
+export function timeInZone(
+  timeZone: string,
+  now = new Date()
+): Omit<LocalTime, "status" | "location"> {
+  const parts = zonedParts(timeZone, now);
+  const offset = zoneOffsetMinutes(timeZone, now);
+  // Standard time is the smaller of the January and July offsets; zones
+  // without daylight saving have the same offset in both
+  const year = now.getUTCFullYear();
+  const standard = Math.min(
+    zoneOffsetMinutes(timeZone, new Date(Date.UTC(year, 0, 1))),
+    zoneOffsetMinutes(timeZone, new Date(Date.UTC(year, 6, 1)))
+  );
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const utcOffset = formatUtcOffset(offset);
+
+  return {
+    timeZone,
+    localTime: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(
+      parts.hour
+    )}:${pad(parts.minute)}:${pad(parts.second)}${utcOffset}`,
+    utcOffset,
+    isDst: offset > standard,
+  };
+}
+
+/**
+ * Resolves a location and reads the current time there
+ */
+export function lookupLocalTime(
+  query: string,
+  now = new Date()
+): LocalTimeResult {
+  const resolution = resolveTimeZone(query);
+  switch (resolution.status) {
+    case "resolved":
+      return {
+        status: "resolved",
+        location: resolution.location,
+        ...timeInZone(resolution.timeZone, now),
+      };
+    case "ambiguous":
+      return {
+        status: "ambiguous",
+        query,
+        message: `"${query}" matches places in different time zones. Ask which one is meant, or retry with the region or country, e.g. "${resolution.candidates[0].label}".`,
+        candidates: resolution.candidates,
+      };
+    case "not_found":
+      return {
+        status: "not_found",
+        query,
+        message: `No time zone found for "${query}". Try a major city, "City, Country" or an IANA zone such as "Europe/Paris".`,
+      };
+  }
+}
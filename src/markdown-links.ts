@@ -0,0 +1,48 @@
+/**
+ * Link handling for chat markdown
+ * Assistant messages are model output, so their links are limited to a few
+ * safe protocols. Links to this app's episode audio are recognised so the
+ * chat can embed a player next to them.
+ */
+
+/** Protocols assistant messages may link to */
+export const LINK_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+// The audio route, see audioPath in audio.ts
+const AUDIO_PATH = /^\/podcasts\/([^/]+)\/audio\.mp3$/;
+
+/**
+ * Resolves a link from a message against the page URL
+ * @returns The absolute URL, or null when it isn't allowed or can't be parsed
+ */
+export function safeLinkUrl(href: string, base: string): string | null {
+  try {
+    const url = new URL(href, base);
+    return LINK_PROTOCOLS.includes(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The slug of the episode whose audio a link points at, if the audio is
+ * served by this app
+ * @param origin - The origin the app is served from
+ */
+export function episodeAudioSlug(href: string, origin: string): string | null {
+  try {
+    const url = new URL(href, origin);
+    const match = url.origin === origin ? AUDIO_PATH.exec(url.pathname) : null;
+    return match ? decodeURIComponent(match[1]) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Path of the WebVTT transcript served next to an episode's audio, see
+ * captionsPath in captions.ts
+ */
+export function episodeCaptionsPath(slug: string) {
+  return `/podcasts/${encodeURIComponent(slug)}/transcript.vtt`;
+}
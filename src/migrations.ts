@@ -0,0 +1,156 @@
+/**
+ * D1 schema migrations
+ * Numbered SQL files in /migrations are applied in order and recorded in the
+ * schema_migrations table, so each migration only ever runs once per database
+ */
+import type { D1Database } from "@cloudflare/workers-types";
+
+export type Migration = {
+  id: number;
+  name: string;
+  sql: string;
+};
+
+// Bundle every migration file as raw SQL at build time
+const migrationFiles = import.meta.glob<string>("../migrations/*.sql", {
+  query: "?raw",
+  import: "default",
+  eager: true,
+});
+
+/**
+ * All known migrations, sorted by their numeric prefix
+ * (e.g. `0001_create_podcasts.sql` becomes `{ id: 1, name: "create_podcasts" }`)
+ */
+export const migrations: Migration[] = Object.entries(migrationFiles)
+  .map(([path, sql]) => {
+    const match = path.match(/(\d+)_([^/]+)\.sql$/);
+    if (!match) {
+      throw new Error(`Invalid migration file name: ${path}`);
+    }
+    return { id: Number(match[1]), name: match[2], sql };
+  })
+  .sort((a, b) => a.id - b.id);
+
+/**
+ * Columns of the first migration's podcasts table that a table created before
+ * migrations existed may lack. `CREATE TABLE IF NOT EXISTS` leaves such a
+ * table alone, so they are added alongside the first migration.
+ */
+const BASELINE_PODCAST_COLUMNS: Record<string, string> = {
+  script: "TEXT",
+  audio_data: "TEXT",
+};
+
+/**
+ * `ALTER TABLE` statements that add the baseline columns an existing podcasts
+ * table lacks; none when the table doesn't exist yet
+ */
+async function missingBaselineColumns(db: D1Database) {
+  const { results } = await db
+    .prepare("SELECT name FROM pragma_table_info('podcasts')")
+    .all<{ name: string }>();
+  if (results.length === 0) return [];
+
+  const existing = new Set(results.map((column) => column.name));
+  return Object.entries(BASELINE_PODCAST_COLUMNS)
+    .filter(([name]) => !existing.has(name))
+    .map(([name, type]) =>
+      db.prepare(`ALTER TABLE podcasts ADD COLUMN ${name} ${type}`)
+    );
+}
+
+/**
+ * Splits a migration file into individual statements.
+ * Statements end with a trailing `;`, except inside trigger bodies
+ * (`BEGIN ... END;`) which are kept together as one statement.
+ */
+export function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current: string[] = [];
+  let inTrigger = false;
+
+  for (const rawLine of sql.split("\n")) {
+    const line = rawLine.replace(/--.*$/, "").trimEnd();
+    if (!line.trim()) continue;
+
+    current.push(line);
+    if (/\bCREATE\s+TRIGGER\b/i.test(line)) inTrigger = true;
+
+    const endsStatement = inTrigger
+      ? /^\s*END;$/i.test(line)
+      : line.endsWith(";");
+    if (endsStatement) {
+      statements.push(current.join("\n"));
+      current = [];
+      inTrigger = false;
+    }
+  }
+
+  if (current.length > 0) {
+    statements.push(current.join("\n"));
+  }
+  return statements;
+}
+
+/**
+ * Applies every pending migration to the database.
+ * Each migration runs in a single batch together with its schema_migrations
+ * record, so a failing migration leaves no partial changes behind.
+ * @param db - The D1 database to migrate
+ * @returns The ids of the migrations that were applied
+ */
+export async function applyMigrations(db: D1Database): Promise<number[]> {
+  await db
+    .prepare(
+      `CREATE TABLE IF NOT EXISTS schema_migrations (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )`
+    )
+    .run();
+
+  const { results } = await db
+    .prepare("SELECT id FROM schema_migrations")
+    .all<{ id: number }>();
+  const appliedIds = new Set(results.map((row) => row.id));
+
+  const applied: number[] = [];
+  for (const migration of migrations) {
+    if (appliedIds.has(migration.id)) continue;
+
+    console.log(`Applying migration ${migration.id}_${migration.name}`);
+    await db.batch([
+      ...splitStatements(migration.sql).map((statement) =>
+        db.prepare(statement)
+      ),
+      ...(migration.id === 1 ? await missingBaselineColumns(db) : []),
+      db
+        .prepare("INSERT INTO schema_migrations (id, name) VALUES (?, ?)")
+        .bind(migration.id, migration.name),
+    ]);
+    applied.push(migration.id);
+  }
+
+  return applied;
+}
+
+let pendingMigrations: Promise<void> | null = null;
+
+/**
+ * Runs the migrations once per isolate, on the first request or agent start.
+ * A failed run is forgotten so the next caller retries it.
+ */
+export function ensureMigrations(db: D1Database): Promise<void> {
+  if (!pendingMigrations) {
+    pendingMigrations = applyMigrations(db).then(
+      () => undefined,
+      (error) => {
+        pendingMigrations = null;
+        throw error;
+      }
+    );
+  }
+  return pendingMigrations;
+}
@@ -0,0 +1,104 @@
+/**
+ * Workers AI model registry
+ * Every model the Chat agent calls directly is named by the role it plays,
+ * and each role's model can be overridden with an env variable
+ */
+import type { Ai } from "@cloudflare/workers-types";
+import { z } from "zod";
+
+export const MODEL_ROLES = [
+  "scriptwriter",
+  "recommender",
+  "tts",
+  "hosts",
+  "embedding",
+] as const;
+export type ModelRole = (typeof MODEL_ROLES)[number];
+
+export const DEFAULT_MODELS: Record<ModelRole, string> = {
+  scriptwriter: "@cf/meta/llama-4-scout-17b-16e-instruct",
+  recommender: "@cf/meta/llama-4-scout-17b-16e-instruct",
+  tts: "@cf/myshell-ai/melotts",
+  // Conversation hosts need named speakers, which the Deepgram Aura models have
+  hosts: "@cf/deepgram/aura-1",
+  embedding: "@cf/baai/bge-base-en-v1.5",
+};
+
+/**
+ * Env variable that overrides each role's model
+ */
+export const MODEL_ENV_VARS = {
+  scriptwriter: "SCRIPTWRITER_MODEL",
+  recommender: "RECOMMENDER_MODEL",
+  tts: "TTS_MODEL",
+  hosts: "HOSTS_MODEL",
+  embedding: "EMBEDDING_MODEL",
+} as const satisfies Record<ModelRole, string>;
+
+export type ModelEnv = {
+  [Role in ModelRole as (typeof MODEL_ENV_VARS)[Role]]?: string;
+};
+
+export type Models = Record<ModelRole, string>;
+
+/**
+ * The model for every role, with env overrides applied
+ */
+export function resolveModels(env: ModelEnv): Models {
+  const models = { ...DEFAULT_MODELS };
+  for (const role of MODEL_ROLES) {
+    const override = env[MODEL_ENV_VARS[role]]?.trim();
+    if (override) models[role] = override;
+  }
+  return models;
+}
+
+/**
+ * Thrown when a model answers with something other than the expected shape
+ */
+export class ModelResponseError extends Error {
+  constructor(
+    readonly model: string,
+    detail: string
+  ) {
+    super(`Unexpected response from ${model}: ${detail}`);
+    this.name = "ModelResponseError";
+  }
+}
+
+// Text generation models answer with `{ response }`. Models in JSON mode
+// may hand back already-parsed JSON, which is turned back into text.
+const textGenerationSchema = z.object({
+  response: z.preprocess(
+    (value) =>
+      typeof value === "object" && value !== null
+        ? JSON.stringify(value)
+        : value,
+    z.string()
+  ),
+});
+
+export type ChatMessage = { role: string; content: string };
+
+/**
+ * Runs a text generation model and returns its validated response text,
+ * which may be empty
+ */
+export async function runTextModel(
+  ai: Ai,
+  model: string,
+  messages: ChatMessage[]
+): Promise<string> {
+  const output = await ai.run(
+    model as "@cf/meta/llama-4-scout-17b-16e-instruct",
+    { messages }
+  );
+  const parsed = textGenerationSchema.safeParse(output);
+  if (!parsed.success) {
+    throw new ModelResponseError(
+      model,
+      parsed.error.issues.map((issue) => issue.message).join(", ")
+    );
+  }
+  return parsed.data.response;
+}
@@ -0,0 +1,183 @@
+/**
+ * MP3 frame parsing helpers
+ * Just enough of the MPEG audio frame header format to walk the frames of a
+ * file and work out its duration without decoding any audio
+ */
+
+// Bitrates in kbps, indexed by [version group][layer][bitrate index]
+// (version group 0 is MPEG-1, 1 is MPEG-2 and MPEG-2.5)
+const BITRATES = [
+  [
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  ],
+  [
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  ],
+];
+
+// Sample rates in Hz, indexed by the header's version bits
+const SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000], // MPEG-2.5
+};
+
+export type FrameHeader = {
+  /** Total frame length in bytes, header included */
+  length: number;
+  /** Number of audio samples the frame decodes to */
+  samples: number;
+  sampleRate: number;
+};
+
+/**
+ * Parses the 4-byte frame header at `offset`
+ * @returns The frame header, or null if there is no valid frame there
+ */
+export function parseFrameHeader(
+  bytes: Uint8Array,
+  offset: number
+): FrameHeader | null {
+  if (offset + 4 > bytes.length) return null;
+  if (bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) {
+    return null;
+  }
+
+  const versionBits = (bytes[offset + 1] >> 3) & 0x03;
+  const layerBits = (bytes[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = (bytes[offset + 2] >> 4) & 0x0f;
+  const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03;
+  const padding = (bytes[offset + 2] >> 1) & 0x01;
+
+  // Reserved or "free format" values we can't size frames for
+  if (versionBits === 1 || layerBits === 0) return null;
+  if (bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const isMpeg1 = versionBits === 3;
+  const layer = 4 - layerBits; // 1, 2 or 3
+  const bitrate = BITRATES[isMpeg1 ? 0 : 1][layer - 1][bitrateIndex] * 1000;
+  const sampleRate = SAMPLE_RATES[versionBits][sampleRateIndex];
+
+  if (layer === 1) {
+    return {
+      length: (Math.floor((12 * bitrate) / sampleRate) + padding) * 4,
+      samples: 384,
+      sampleRate,
+    };
+  }
+
+  const samples = layer === 3 && !isMpeg1 ? 576 : 1152;
+  return {
+    length: Math.floor(((samples / 8) * bitrate) / sampleRate) + padding,
+    samples,
+    sampleRate,
+  };
+}
+
+/**
+ * Size of the ID3v2 tag at the start of the file, or 0 if there is none
+ */
+export function id3v2Size(bytes: Uint8Array, offset = 0) {
+  if (
+    bytes.length < offset + 10 ||
+    bytes[offset] !== 0x49 || // I
+    bytes[offset + 1] !== 0x44 || // D
+    bytes[offset + 2] !== 0x33 // 3
+  ) {
+    return 0;
+  }
+  // Tag size is a 28-bit "syncsafe" integer, excluding the 10-byte header
+  const size =
+    (bytes[offset + 6] << 21) |
+    (bytes[offset + 7] << 14) |
+    (bytes[offset + 8] << 7) |
+    bytes[offset + 9];
+  const hasFooter = (bytes[offset + 5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+export type Frame = FrameHeader & { offset: number };
+
+/**
+ * Whether a frame is a Xing/Info or VBRI header frame. Encoders put one at
+ * the start of a file to describe its length, so it holds no audio and is
+ * wrong for any file it gets joined into.
+ */
+export function isInfoFrame(bytes: Uint8Array, frame: Frame) {
+  const tagAt = (offset: number) =>
+    String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+  const isMpeg1 = ((bytes[frame.offset + 1] >> 3) & 0x03) === 3;
+  const isMono = bytes[frame.offset + 3] >> 6 === 3;
+  const sideInfoSize = isMpeg1 ? (isMono ? 17 : 32) : isMono ? 9 : 17;
+  const xingTag = tagAt(frame.offset + 4 + sideInfoSize);
+
+  return (
+    xingTag === "Xing" ||
+    xingTag === "Info" ||
+    tagAt(frame.offset + 36) === "VBRI"
+  );
+}
+
+/**
+ * Lists the audio frames in an MP3 file, skipping ID3 tags and any junk
+ * between frames
+ */
+export function findFrames(bytes: Uint8Array): Frame[] {
+  const frames: Frame[] = [];
+  let offset = id3v2Size(bytes);
+
+  while (offset + 4 <= bytes.length) {
+    const header = parseFrameHeader(bytes, offset);
+    if (!header || offset + header.length > bytes.length) {
+      offset++;
+      continue;
+    }
+    frames.push({ ...header, offset });
+    offset += header.length;
+  }
+  return frames;
+}
+
+/**
+ * Duration of an MP3 file in seconds, computed from its frame headers
+ */
+export function mp3Duration(bytes: Uint8Array) {
+  return findFrames(bytes)
+    .filter((frame) => !isInfoFrame(bytes, frame))
+    .reduce((total, frame) => total + frame.samples / frame.sampleRate, 0);
+}
+
+/**
+ * Joins several MP3 files into one by copying their audio frames back to back.
+ * Only the first file's ID3v2 tag is kept and Xing/Info header frames are
+ * dropped, so players see one continuous stream with the right length.
+ */
+export function concatMp3(files: Uint8Array[]): Uint8Array {
+  const parts: Uint8Array[] = [];
+  if (files.length > 0) {
+    parts.push(files[0].subarray(0, id3v2Size(files[0])));
+  }
+  for (const file of files) {
+    for (const frame of findFrames(file)) {
+      if (isInfoFrame(file, frame)) continue;
+      parts.push(file.subarray(frame.offset, frame.offset + frame.length));
+    }
+  }
+
+  const output = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0)
+  );
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
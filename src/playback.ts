@@ -0,0 +1,136 @@
+/**
+ * Listening positions and chapter navigation for the in-app player
+ * The agent keeps each episode's listening position in ChatState, so a
+ * listener picks up where they left off on any device
+ */
+import type { ChapterTimestamp } from "./podcasts";
+
+export type PlaybackPosition = {
+  /** Seconds into the episode */
+  position: number;
+  /** Length of the episode in seconds, when the player knows it */
+  duration: number | null;
+  updatedAt: string;
+};
+
+/** Listening positions by podcast slug */
+export type PlaybackPositions = Record<string, PlaybackPosition>;
+
+/** How many episodes' positions are kept; the oldest are forgotten first */
+export const MAX_PLAYBACK_POSITIONS = 100;
+
+/** Episodes stopped this close to the end count as finished */
+export const FINISHED_MARGIN_SECONDS = 5;
+
+/** Speeds the player offers */
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2];
+
+/**
+ * Thrown for positions that aren't a slug and a time in the episode
+ */
+export class InvalidPlaybackPositionError extends Error {
+  constructor(detail: string) {
+    super(`Invalid playback position: ${detail}`);
+    this.name = "InvalidPlaybackPositionError";
+  }
+}
+
+/**
+ * Records where a listener stopped in an episode. Finished episodes are
+ * forgotten so they start from the beginning next time.
+ * @returns The updated positions
+ * @throws InvalidPlaybackPositionError
+ */
+export function updatePlaybackPositions(
+  positions: PlaybackPositions,
+  slug: string,
+  position: number,
+  duration: number | null = null,
+  now = new Date()
+): PlaybackPositions {
+  if (typeof slug !== "string" || slug.length === 0 || slug.length > 200) {
+    throw new InvalidPlaybackPositionError(`"${slug}" is not a podcast slug`);
+  }
+  if (
+    typeof position !== "number" ||
+    !Number.isFinite(position) ||
+    position < 0
+  ) {
+    throw new InvalidPlaybackPositionError(`${position} is not a time`);
+  }
+  const knownDuration =
+    typeof duration === "number" && Number.isFinite(duration) && duration > 0
+      ? duration
+      : null;
+
+  const { [slug]: _previous, ...others } = positions;
+  if (
+    knownDuration !== null &&
+    position >= knownDuration - FINISHED_MARGIN_SECONDS
+  ) {
+    return others;
+  }
+
+  const updated: PlaybackPositions = {
+    ...others,
+    [slug]: {
+      position: Math.floor(position),
+      duration: knownDuration,
+      updatedAt: now.toISOString(),
+    },
+  };
+  const slugs = Object.keys(updated);
+  if (slugs.length <= MAX_PLAYBACK_POSITIONS) return updated;
+
+  // Keep the most recently updated positions
+  const kept = slugs
+    .sort((a, b) => updated[b].updatedAt.localeCompare(updated[a].updatedAt))
+    .slice(0, MAX_PLAYBACK_POSITIONS);
+  return Object.fromEntries(kept.map((key) => [key, updated[key]]));
+}
+
+/**
+ * Where to start playing an episode
+ */
+export function resumePosition(
+  positions: PlaybackPositions | undefined,
+  slug: string
+) {
+  return positions?.[slug]?.position ?? 0;
+}
+
+/**
+ * The chapter playing at a time, or -1 before the first chapter
+ */
+export function chapterIndexAt(chapters: ChapterTimestamp[], time: number) {
+  let index = -1;
+  chapters.forEach((chapter, i) => {
+    if (chapter.startTime <= time) index = i;
+  });
+  return index;
+}
+
+/**
+ * Start of the chapter after the one playing, or null in the last chapter
+ */
+export function nextChapterStart(chapters: ChapterTimestamp[], time: number) {
+  return chapters[chapterIndexAt(chapters, time) + 1]?.startTime ?? null;
+}
+
+/**
+ * Like a CD player: goes back to the start of the chapter playing, or to the
+ * previous chapter when the current one only just started
+ * @param grace - Seconds into a chapter during which it counts as just started
+ */
+export function previousChapterStart(
+  chapters: ChapterTimestamp[],
+  time: number,
+  grace = 3
+) {
+  const index = chapterIndexAt(chapters, time);
+  if (index < 0) return 0;
+  if (time - chapters[index].startTime > grace) {
+    return chapters[index].startTime;
+  }
+  return chapters[index - 1]?.startTime ?? 0;
+}
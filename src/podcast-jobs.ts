@@ -0,0 +1,167 @@
+/**
+ * Durable podcast generation jobs
+ * Each audio podcast is generated as a job persisted in the agent's SQLite
+ * storage, so a crash or timeout resumes from the last completed step
+ * instead of starting over
+ */
+import type { ChapterMarker } from "./chapters";
+import type { EpisodeScript } from "./episode-script";
+
+export const JOB_STEPS = ["scripting", "synthesizing", "saving"] as const;
+export type PodcastJobStep = (typeof JOB_STEPS)[number];
+
+export type PodcastJobStatus = "running" | "retrying" | "completed" | "failed";
+
+export type PodcastFormat = "monologue" | "conversation";
+
+/** How many times a job is attempted before it is marked as failed */
+export const MAX_JOB_ATTEMPTS = 3;
+
+/** Delay before the first retry; doubles with every failed attempt */
+export const JOB_RETRY_DELAY_SECONDS = 30;
+
+export type PodcastJob = {
+  id: string;
+  topic: string;
+  accessibilityMode: string;
+  format: PodcastFormat;
+  /** The series the episode is published in, for scheduled episodes */
+  seriesId?: string;
+  status: PodcastJobStatus;
+  /** The next step to run, or the step that failed */
+  step: PodcastJobStep;
+  /** Failed attempts so far */
+  attempts: number;
+  // Output of the scripting step
+  /** Model that wrote the script */
+  model?: string;
+  episode?: EpisodeScript;
+  /** Transcript of the whole episode */
+  script?: string;
+  slug?: string;
+  url?: string;
+  // Output of the synthesizing step
+  audio?: {
+    key: string;
+    size: number;
+    duration: number;
+    /** One marker per script chapter */
+    chapters?: ChapterMarker[];
+    /** Whether WebVTT and SRT transcripts were stored */
+    hasCaptions?: boolean;
+  } | null;
+  /** Model that voiced the audio */
+  ttsModel?: string | null;
+  // Final outcome
+  result?: string;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/**
+ * The slice of a job pushed to clients through ChatState
+ */
+export type PodcastJobProgress = Pick<
+  PodcastJob,
+  "id" | "topic" | "format" | "status" | "step" | "attempts" | "url" | "error"
+> & {
+  completedSteps: PodcastJobStep[];
+  updatedAt: string;
+};
+
+export function toJobProgress(job: PodcastJob): PodcastJobProgress {
+  const stepIndex = JOB_STEPS.indexOf(job.step);
+  return {
+    id: job.id,
+    topic: job.topic,
+    format: job.format,
+    status: job.status,
+    step: job.step,
+    attempts: job.attempts,
+    url: job.url,
+    error: job.error,
+    completedSteps:
+      job.status === "completed"
+        ? [...JOB_STEPS]
+        : JOB_STEPS.slice(0, stepIndex),
+    updatedAt: job.updatedAt,
+  };
+}
+
+/**
+ * Seconds to wait before retrying after the given number of failed attempts
+ */
+export function retryDelaySeconds(attempts: number) {
+  return JOB_RETRY_DELAY_SECONDS * 2 ** (attempts - 1);
+}
+
+/**
+ * Signature of the agent's `sql` template tag
+ */
+export type SqlTag = <T = Record<string, string | number | boolean | null>>(
+  strings: TemplateStringsArray,
+  ...values: (string | number | boolean | null)[]
+) => T[];
+
+/**
+ * Job persistence on top of the agent's `sql` tag. Jobs are stored as JSON,
+ * since every step only ever reads or replaces a whole job.
+ */
+export class PodcastJobStore {
+  constructor(private readonly sql: SqlTag) {
+    this.sql`CREATE TABLE IF NOT EXISTS podcast_jobs (
+      id TEXT PRIMARY KEY,
+      data TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )`;
+  }
+
+  create(
+    topic: string,
+    accessibilityMode: string,
+    format: PodcastFormat,
+    seriesId?: string
+  ): PodcastJob {
+    const now = new Date().toISOString();
+    const job: PodcastJob = {
+      id: crypto.randomUUID(),
+      topic,
+      accessibilityMode,
+      format,
+      seriesId,
+      status: "running",
+      step: JOB_STEPS[0],
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.save(job);
+    return job;
+  }
+
+  get(id: string): PodcastJob | null {
+    const [row] = this.sql<{ data: string }>`
+      SELECT data FROM podcast_jobs WHERE id = ${id}
+    `;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  save(job: PodcastJob) {
+    job.updatedAt = new Date().toISOString();
+    this.sql`
+      INSERT OR REPLACE INTO podcast_jobs (id, data, updated_at)
+      VALUES (${job.id}, ${JSON.stringify(job)}, ${job.updatedAt})
+    `;
+  }
+
+  /**
+   * Jobs that were mid-step when the agent last stopped
+   */
+  listInterrupted(): PodcastJob[] {
+    return this.sql<{ data: string }>`
+      SELECT data FROM podcast_jobs
+      WHERE json_extract(data, '$.status') = 'running'
+    `.map((row) => JSON.parse(row.data));
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Podcast series
+ * A series publishes a new audio episode on a topic whenever its cron
+ * schedule fires. Definitions are stored in the agent's SQLite storage next to
+ * the podcast jobs; the episodes themselves are ordinary podcasts linked to
+ * the series by their series_id.
+ */
+import { parseCronExpression } from "cron-schedule";
+import type { PodcastFormat, SqlTag } from "./podcast-jobs";
+
+export type PodcastSeriesStatus = "active" | "paused";
+
+/** Series may not publish more often than this */
+export const MIN_EPISODE_INTERVAL_HOURS = 24;
+
+export type PodcastSeries = {
+  id: string;
+  name: string;
+  topic: string;
+  /** Cron expression in UTC */
+  cron: string;
+  format: PodcastFormat;
+  accessibilityMode: string;
+  status: PodcastSeriesStatus;
+  /** The agent schedule that runs the next episode, while active */
+  scheduleId: string | null;
+  episodeCount: number;
+  lastEpisodeUrl?: string;
+  lastEpisodeAt?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/**
+ * Thrown for cron expressions that can't be parsed or fire too often
+ */
+export class InvalidCadenceError extends Error {
+  constructor(
+    readonly cron: string,
+    detail: string
+  ) {
+    super(`Invalid cadence "${cron}": ${detail}`);
+    this.name = "InvalidCadenceError";
+  }
+}
+
+/**
+ * Checks that a cron expression parses and leaves at least
+ * MIN_EPISODE_INTERVAL_HOURS between episodes
+ * @returns The next time the cron fires
+ * @throws InvalidCadenceError
+ */
+export function validateCadence(cron: string, now = new Date()): Date {
+  let dates: Date[];
+  try {
+    dates = parseCronExpression(cron).getNextDates(8, now);
+  } catch (error) {
+    throw new InvalidCadenceError(
+      cron,
+      `not a cron expression (${error instanceof Error ? error.message : error})`
+    );
+  }
+  for (let i = 1; i < dates.length; i++) {
+    const hours = (dates[i].getTime() - dates[i - 1].getTime()) / 3_600_000;
+    if (hours < MIN_EPISODE_INTERVAL_HOURS) {
+      throw new InvalidCadenceError(
+        cron,
+        `episodes may be published at most once every ${MIN_EPISODE_INTERVAL_HOURS} hours`
+      );
+    }
+  }
+  return dates[0];
+}
+
+/**
+ * Series persistence on top of the agent's `sql` tag, stored as JSON like
+ * podcast jobs
+ */
+export class PodcastSeriesStore {
+  constructor(private readonly sql: SqlTag) {
+    this.sql`CREATE TABLE IF NOT EXISTS podcast_series (
+      id TEXT PRIMARY KEY,
+      data TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    )`;
+  }
+
+  create(
+    fields: Pick<
+      PodcastSeries,
+      "name" | "topic" | "cron" | "format" | "accessibilityMode"
+    >
+  ): PodcastSeries {
+    const now = new Date().toISOString();
+    const series: PodcastSeries = {
+      id: crypto.randomUUID(),
+      ...fields,
+      status: "active",
+      scheduleId: null,
+      episodeCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.sql`
+      INSERT INTO podcast_series (id, data, created_at)
+      VALUES (${series.id}, ${JSON.stringify(series)}, ${now})
+    `;
+    return series;
+  }
+
+  get(id: string): PodcastSeries | null {
+    const [row] = this.sql<{ data: string }>`
+      SELECT data FROM podcast_series WHERE id = ${id}
+    `;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  /**
+   * Finds a series by id, or by name ignoring case
+   */
+  find(idOrName: string): PodcastSeries | null {
+    const name = idOrName.trim().toLowerCase();
+    return (
+      this.get(idOrName.trim()) ??
+      this.list().find((series) => series.name.toLowerCase() === name) ??
+      null
+    );
+  }
+
+  save(series: PodcastSeries) {
+    series.updatedAt = new Date().toISOString();
+    this.sql`
+      UPDATE podcast_series SET data = ${JSON.stringify(series)}
+      WHERE id = ${series.id}
+    `;
+  }
+
+  delete(id: string) {
+    this.sql`DELETE FROM podcast_series WHERE id = ${id}`;
+  }
+
+  /**
+   * Every series, oldest first
+   */
+  list(): PodcastSeries[] {
+    return this.sql<{ data: string }>`
+      SELECT data FROM podcast_series ORDER BY created_at
+    `.map((row) => JSON.parse(row.data));
+  }
+}
+
+/**
+ * One series as a bullet for tool results
+ * @param nextEpisode - When the schedule fires next, if active
+ */
+export function describeSeries(
+  series: PodcastSeries,
+  nextEpisode: Date | null
+) {
+  const lines = [
+    `• "${series.name}" (id: ${series.id}) about ${series.topic}, ${series.format}, ${series.accessibilityMode} length`,
+    `  Schedule: ${series.cron} (UTC), ${series.status}${
+      nextEpisode ? `, next episode ${nextEpisode.toUTCString()}` : ""
+    }`,
+    `  Episodes: ${series.episodeCount}${
+      series.lastEpisodeUrl ? `, latest at ${series.lastEpisodeUrl}` : ""
+    }`,
+  ];
+  return lines.join("\n");
+}
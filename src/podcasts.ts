@@ -0,0 +1,192 @@
+/**
+ * Queries over the podcasts table shared by the agent and the worker routes
+ */
+import type { D1Database } from "@cloudflare/workers-types";
+import { audioPath } from "./audio";
+import { captionsPath } from "./captions";
+import { episodePath, publicUrl } from "./episode-page";
+
+export type PodcastRow = {
+  id: number;
+  topic: string;
+  slug: string;
+  url: string;
+  script: string | null;
+  audio_key: string | null;
+  audio_size: number | null;
+  audio_duration: number | null;
+  title: string | null;
+  description: string | null;
+  /** JSON array of StoredChapter */
+  chapters: string | null;
+  /** JSON array of strings */
+  takeaways: string | null;
+  /** JSON array of strings */
+  tags: string | null;
+  /** 1 when WebVTT and SRT transcripts are stored next to the audio */
+  has_captions: number;
+  created_at: string;
+};
+
+/**
+ * A script chapter as stored in `podcasts.chapters`. Episodes with audio
+ * also record where the chapter starts and ends, in seconds.
+ */
+export type StoredChapter = {
+  heading: string;
+  text: string;
+  startTime?: number;
+  endTime?: number;
+};
+
+/**
+ * A chapter the player can jump to
+ */
+export type ChapterTimestamp = { title: string; startTime: number };
+
+/**
+ * The timestamped chapters of a podcast, empty when it has no audio or was
+ * recorded before chapters were timed
+ */
+export function chapterTimestamps(row: Pick<PodcastRow, "chapters">) {
+  return parseJsonArray<StoredChapter>(row.chapters)
+    .filter((chapter) => typeof chapter.startTime === "number")
+    .map(
+      (chapter): ChapterTimestamp => ({
+        title: chapter.heading,
+        startTime: chapter.startTime!,
+      })
+    );
+}
+
+/**
+ * Reads one of the JSON array columns, treating missing or corrupt values
+ * as empty
+ */
+export function parseJsonArray<T>(value: string | null): T[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/** The columns of a PodcastRow, for SELECTs */
+export const PODCAST_COLUMNS = `id, topic, slug, url, script, audio_key, audio_size, audio_duration,
+       title, description, chapters, takeaways, tags, has_captions, created_at`;
+
+/**
+ * Most recently generated podcasts, newest first. Pass an owner id to only
+ * list that user's podcasts, or null to only list podcasts without an owner.
+ */
+export async function listRecentPodcastRows(
+  db: D1Database,
+  limit: number,
+  ownerId?: string | null
+): Promise<PodcastRow[]> {
+  const where =
+    ownerId === undefined
+      ? ""
+      : ownerId === null
+        ? "WHERE owner_id IS NULL"
+        : "WHERE owner_id = ?";
+  const { results } = await db
+    .prepare(
+      `SELECT ${PODCAST_COLUMNS}
+       FROM podcasts
+       ${where}
+       ORDER BY created_at DESC, id DESC
+       LIMIT ?`
+    )
+    .bind(...(typeof ownerId === "string" ? [ownerId] : []), limit)
+    .all<PodcastRow>();
+  return results;
+}
+
+/**
+ * A podcast as synced to clients in ChatState, without the script so the
+ * state stays small
+ */
+export type Podcast = {
+  topic: string;
+  /** Episode title, or the topic for podcasts without a structured script */
+  title: string;
+  description: string | null;
+  slug: string;
+  url: string;
+  audio_url: string | null;
+  audio_duration: number | null;
+  /** The episode's WebVTT transcript, for audio episodes that have one */
+  captions_url: string | null;
+  chapters: ChapterTimestamp[];
+  created_at: string;
+};
+
+/**
+ * Whether a text mentions a URL as a whole, so `/p/bread` isn't found in a
+ * text that only mentions `/p/bread-rolls`
+ */
+export function mentionsUrl(text: string, url: string) {
+  for (let i = text.indexOf(url); i !== -1; i = text.indexOf(url, i + 1)) {
+    const next = text[i + url.length];
+    if (next === undefined || !/[\w%/-]/.test(next)) return true;
+  }
+  return false;
+}
+
+export function toPodcast(row: PodcastRow, baseUrl: string): Podcast {
+  return {
+    topic: row.topic,
+    title: row.title ?? row.topic,
+    description: row.description,
+    slug: row.slug,
+    // Built from the base URL rather than the stored url, which keeps the
+    // origin the podcast was created on
+    url: publicUrl(baseUrl, episodePath(row.slug)),
+    audio_url: row.audio_key ? publicUrl(baseUrl, audioPath(row.slug)) : null,
+    audio_duration: row.audio_duration,
+    captions_url:
+      row.audio_key && row.has_captions
+        ? publicUrl(baseUrl, captionsPath(row.slug, "vtt"))
+        : null,
+    chapters: row.audio_key ? chapterTimestamps(row) : [],
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * The podcast a generation job saved, if it has been saved
+ */
+export async function findPodcastRowByJob(
+  db: D1Database,
+  jobId: string
+): Promise<PodcastRow | null> {
+  return db
+    .prepare(`SELECT ${PODCAST_COLUMNS} FROM podcasts WHERE job_id = ?`)
+    .bind(jobId)
+    .first<PodcastRow>();
+}
+
+/**
+ * An owner's podcasts with the given ids, in the order of the ids. Ids of
+ * podcasts that don't exist or belong to someone else are skipped.
+ */
+export async function findPodcastRowsByIds(
+  db: D1Database,
+  ids: number[],
+  ownerId: string
+): Promise<PodcastRow[]> {
+  if (ids.length === 0) return [];
+  const { results } = await db
+    .prepare(
+      `SELECT ${PODCAST_COLUMNS}
+       FROM podcasts
+       WHERE owner_id = ? AND id IN (${ids.map(() => "?").join(", ")})`
+    )
+    .bind(ownerId, ...ids)
+    .all<PodcastRow>();
+  const byId = new Map(results.map((row) => [row.id, row]));
+  return ids.flatMap((id) => byId.get(id) ?? []);
+}
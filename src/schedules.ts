@@ -0,0 +1,111 @@
+/**
+ * Scheduled tasks
+ * Validation for the scheduleTask tool and the summaries of pending schedules
+ * that the schedule tools and the schedules panel show, on top of the agent
+ * SDK's schedule API
+ */
+import type { Schedule } from "agents";
+import { parseCronExpression } from "cron-schedule";
+
+export type ScheduleType = Schedule["type"];
+
+/**
+ * A pending schedule, as listed to the model and synced to clients
+ */
+export type ScheduledTask = {
+  id: string;
+  type: ScheduleType;
+  /** The agent method the schedule calls */
+  callback: string;
+  /** What the task does, for people */
+  description: string;
+  /** Cron expression in UTC, for recurring tasks */
+  cron?: string;
+  /** ISO 8601 time of the next run */
+  nextRun: string;
+};
+
+/**
+ * Checks the scheduleTask tool's `when` against its schedule type
+ * @returns What to pass to the agent's `schedule`, or a description of what
+ * is wrong with `when`
+ */
+export function resolveScheduleWhen(
+  type: ScheduleType,
+  when: string | number,
+  now = new Date()
+): { when: Date | number | string } | { error: string } {
+  if (type === "scheduled") {
+    const date = typeof when === "string" ? new Date(when) : null;
+    if (!date || Number.isNaN(date.getTime())) {
+      return {
+        error: `"${when}" is not a date. Scheduled tasks need an ISO 8601 date such as "2025-06-01T09:00:00Z"`,
+      };
+    }
+    if (date <= now) {
+      return { error: `${date.toISOString()} is in the past` };
+    }
+    return { when: date };
+  }
+
+  if (type === "delayed") {
+    const seconds = typeof when === "number" ? when : Number(when.trim());
+    if (!Number.isFinite(seconds) || seconds <= 0) {
+      return {
+        error: `"${when}" is not a delay. Delayed tasks need a positive number of seconds`,
+      };
+    }
+    return { when: Math.ceil(seconds) };
+  }
+
+  if (typeof when !== "string") {
+    return { error: `${when} is not a cron expression` };
+  }
+  try {
+    parseCronExpression(when);
+  } catch (error) {
+    return {
+      error: `"${when}" is not a valid cron expression (${error instanceof Error ? error.message : error}). Use five fields in UTC, such as "0 9 * * 1-5"`,
+    };
+  }
+  return { when };
+}
+
+/**
+ * When a schedule runs next. While a schedule is running, the SDK still has
+ * it at the time it was due, so recurring schedules are moved on to the next
+ * cron time.
+ */
+export function nextRunOf(schedule: Schedule<unknown>, now = new Date()) {
+  const due = new Date(schedule.time * 1000);
+  if (schedule.type === "cron" && due <= now) {
+    return parseCronExpression(schedule.cron).getNextDate(now);
+  }
+  return due;
+}
+
+/**
+ * Summaries of the schedules that are still to run, soonest first. One-off
+ * schedules that are due are running or about to, and are left out.
+ * @param describe - What a schedule does, for people
+ */
+export function pendingTasks(
+  schedules: Schedule<unknown>[],
+  describe: (schedule: Schedule<unknown>) => string,
+  now = new Date()
+): ScheduledTask[] {
+  return schedules
+    .filter(
+      (schedule) =>
+        schedule.type === "cron" || schedule.time * 1000 > now.getTime()
+    )
+    .map((schedule) => ({
+      id: schedule.id,
+      type: schedule.type,
+      callback: schedule.callback,
+      description: describe(schedule),
+      ...(schedule.type === "cron" ? { cron: schedule.cron } : {}),
+      nextRun: nextRunOf(schedule, now).toISOString(),
+    }))
+    .sort((a, b) => a.nextRun.localeCompare(b.nextRun));
+}
@@ -0,0 +1,240 @@
+/**
+ * Full-text search over podcasts
+ * The podcasts_fts table indexes each podcast's topic, title and script and
+ * is kept in sync with the podcasts table by triggers (see migration 0010)
+ */
+import type { D1Database } from "@cloudflare/workers-types";
+import {
+  PODCAST_COLUMNS,
+  type Podcast,
+  type PodcastRow,
+  toPodcast,
+} from "./podcasts";
+
+/** Results returned when no limit is given */
+export const DEFAULT_SEARCH_LIMIT = 10;
+
+/** Most results one search can return */
+export const MAX_SEARCH_LIMIT = 50;
+
+/** Most words of a query that are searched for */
+const MAX_SEARCH_TERMS = 10;
+
+// The podcast columns, qualified since podcasts_fts has columns of the same name
+const ROW_COLUMNS = PODCAST_COLUMNS.split(",")
+  .map((column) => `p.${column.trim()}`)
+  .join(", ");
+
+// Matched words in snippets are wrapped in these private-use characters,
+// which, unlike markdown bold, can't already appear in a podcast's script
+export const SNIPPET_HIGHLIGHT_START = "\uE000";
+export const SNIPPET_HIGHLIGHT_END = "\uE001";
+
+export type PodcastSearchFilters = {
+  /** Only podcasts created on or after this day (YYYY-MM-DD, UTC) */
+  from?: string;
+  /** Only podcasts created on or before this day (YYYY-MM-DD, UTC) */
+  to?: string;
+  /** Only podcasts with audio */
+  audioOnly?: boolean;
+  /** Only podcasts made in accessible mode, which have a full transcript */
+  accessible?: boolean;
+  limit?: number;
+  /**
+   * Match podcasts containing any of the words instead of all of them.
+   * Results containing more of the words still rank higher.
+   */
+  matchAny?: boolean;
+};
+
+export type PodcastSearchResult = {
+  podcast: Podcast;
+  /** Excerpt around the best match, with matched words highlighted */
+  snippet: string;
+  /** Relevance, higher is better */
+  score: number;
+};
+
+/**
+ * Thrown for searches without any words or with invalid filters
+ */
+export class InvalidSearchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidSearchError";
+  }
+}
+
+/**
+ * Turns what a user typed into an FTS5 query. Each word is quoted, so FTS5
+ * operators and column filters in the input are searched for as plain text,
+ * and matches as a prefix, so "bak" finds "baking".
+ * @throws InvalidSearchError when the query has no words
+ */
+export function toFtsQuery(query: string, matchAny = false) {
+  const terms = (query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).slice(
+    0,
+    MAX_SEARCH_TERMS
+  );
+  if (terms.length === 0) {
+    throw new InvalidSearchError("Search for at least one word");
+  }
+  return terms.map((term) => `"${term}"*`).join(matchAny ? " OR " : " ");
+}
+
+function validateDay(value: string | undefined, name: string) {
+  if (value === undefined) return;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  if (
+    !/^\d{4}-\d{2}-\d{2}$/.test(value) ||
+    Number.isNaN(time) ||
+    new Date(time).toISOString().slice(0, 10) !== value
+  ) {
+    throw new InvalidSearchError(`${name} must be a date like 2025-06-01`);
+  }
+}
+
+/**
+ * Searches a user's podcasts, best matches first. Topic and title matches
+ * count for more than matches in the script.
+ * @throws InvalidSearchError
+ */
+export async function searchPodcasts(
+  db: D1Database,
+  ownerId: string,
+  query: string,
+  baseUrl: string,
+  filters: PodcastSearchFilters = {}
+): Promise<PodcastSearchResult[]> {
+  const rows = await searchPodcastRows(db, ownerId, query, filters);
+  return rows.map(({ snippet, rank, ...row }) => ({
+    podcast: toPodcast(row, baseUrl),
+    snippet,
+    // bm25 scores are negative, lower is better
+    score: -rank,
+  }));
+}
+
+/**
+ * Like searchPodcasts, but returns the matching rows with their snippet
+ * and bm25 rank
+ * @throws InvalidSearchError
+ */
+export async function searchPodcastRows(
+  db: D1Database,
+  ownerId: string,
+  query: string,
+  filters: PodcastSearchFilters = {}
+) {
+  const match = toFtsQuery(query, filters.matchAny);
+  validateDay(filters.from, "from");
+  validateDay(filters.to, "to");
+  if (filters.from && filters.to && filters.from > filters.to) {
+    throw new InvalidSearchError("from must not be after to");
+  }
+  const limit = Math.min(
+    Math.max(Math.floor(filters.limit ?? DEFAULT_SEARCH_LIMIT), 1),
+    MAX_SEARCH_LIMIT
+  );
+
+  const conditions = ["podcasts_fts MATCH ?", "p.owner_id = ?"];
+  const params: unknown[] = [match, ownerId];
+  if (filters.from) {
+    conditions.push("date(p.created_at) >= ?");
+    params.push(filters.from);
+  }
+  if (filters.to) {
+    conditions.push("date(p.created_at) <= ?");
+    params.push(filters.to);
+  }
+  if (filters.audioOnly) conditions.push("p.audio_key IS NOT NULL");
+  if (filters.accessible) conditions.push("p.accessible = 1");
+
+  const { results } = await db
+    .prepare(
+      `SELECT ${ROW_COLUMNS},
+              snippet(podcasts_fts, -1, '${SNIPPET_HIGHLIGHT_START}', '${SNIPPET_HIGHLIGHT_END}', '…', 16) AS snippet,
+              bm25(podcasts_fts, 5.0, 5.0, 1.0) AS rank
+       FROM podcasts_fts
+       JOIN podcasts p ON p.id = podcasts_fts.rowid
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY rank, p.created_at DESC
+       LIMIT ?`
+    )
+    .bind(...params, limit)
+    .all<PodcastRow & { snippet: string; rank: number }>();
+
+  return results;
+}
+
+/**
+ * Splits a snippet into plain and highlighted parts, for rendering the
+ * highlights without treating the snippet as markdown
+ */
+export function splitSnippet(snippet: string) {
+  return snippet
+    .split(new RegExp(`[${SNIPPET_HIGHLIGHT_START}${SNIPPET_HIGHLIGHT_END}]`))
+    .map((text, index) => ({ text, highlighted: index % 2 === 1 }))
+    .filter(({ text }) => text.length > 0);
+}
+
+/**
+ * The snippet as markdown, with its highlighted words in bold
+ */
+export function snippetToMarkdown(snippet: string) {
+  return splitSnippet(snippet)
+    .map(({ text, highlighted }) => (highlighted ? `**${text}**` : text))
+    .join("");
+}
+
+/**
+ * Reads a search from the query string of `GET /api/podcasts/search`:
+ * `q`, `from`, `to`, `audio=1`, `accessible=1` and `limit`
+ */
+export function parseSearchParams(params: URLSearchParams) {
+  const flag = (name: string) => ["1", "true"].includes(params.get(name) ?? "");
+  const limit = params.get("limit");
+  if (limit !== null && !/^\d+$/.test(limit)) {
+    throw new InvalidSearchError("limit must be a whole number");
+  }
+  return {
+    query: params.get("q") ?? "",
+    filters: {
+      from: params.get("from") ?? undefined,
+      to: params.get("to") ?? undefined,
+      audioOnly: flag("audio"),
+      accessible: flag("accessible"),
+      limit: limit === null ? undefined : Number(limit),
+    } satisfies PodcastSearchFilters,
+  };
+}
+
+/**
+ * Serves `GET /api/podcasts/search` for a signed-in user
+ */
+export async function serveSearch(
+  request: Request,
+  db: D1Database,
+  ownerId: string,
+  baseUrl: string
+): Promise<Response> {
+  const headers = {
+    "Content-Type": "application/json",
+    "Cache-Control": "no-store",
+  };
+  try {
+    const { query, filters } = parseSearchParams(
+      new URL(request.url).searchParams
+    );
+    const results = await searchPodcasts(db, ownerId, query, baseUrl, filters);
+    return new Response(JSON.stringify({ query, results }), { headers });
+  } catch (error) {
+    if (error instanceof InvalidSearchError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers,
+      });
+    }
+    throw error;
+  }
+}
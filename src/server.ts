@@ -1,7 +1,10 @@
 import {
   type AgentNamespace,
+  type Connection,
+  type ConnectionContext,
   routeAgentRequest,
   type Schedule,
+  unstable_callable,
 } from "agents";
 import { AIChatAgent } from "agents/ai-chat-agent";
 import {
@@ -10,33 +13,115 @@ import {
   streamText,
   type StreamTextOnFinishCallback,
 } from "ai";
-import { createOpenAI } from "@ai-sdk/openai";
 import { processToolCalls } from "./utils";
+import { chatModelConfigError, createChatModel } from "./chat-model";
+import { resolveModels, runTextModel } from "./models";
 import { tools, executions } from "./tools";
+import { ensureMigrations } from "./migrations";
+import {
+  audioPath,
+  ensureLegacyAudioMoved,
+  servePodcastAudio,
+  storePodcastAudio,
+} from "./audio";
+import { decodePathSegment, episodePath, publicUrl, serveEpisodePage } from "./episode-page";
+import { serveFeed, serveFeedUrl } from "./feed";
+import {
+  findPodcastRowByJob,
+  findPodcastRowsByIds,
+  listRecentPodcastRows,
+  mentionsUrl,
+  parseJsonArray,
+  type Podcast,
+  type PodcastRow,
+  toPodcast,
+} from "./podcasts";
+import { type SpeechSegment, synthesizeSegments } from "./tts";
+import { concatMp3, mp3Duration } from "./mp3";
+import { captionCues, type CaptionFormat, servePodcastCaptions, storeCaptions } from "./captions";
+import { chapterMarkers, servePodcastChapters, storeChapters, writeId3Chapters } from "./chapters";
+import { insertWithUniqueSlug, slugify } from "./slugs";
+import {
+  JOB_STEPS,
+  MAX_JOB_ATTEMPTS,
+  type PodcastFormat,
+  type PodcastJob,
+  type PodcastJobProgress,
+  PodcastJobStore,
+  retryDelaySeconds,
+  toJobProgress,
+} from "./podcast-jobs";
+import {
+  describeSeries,
+  InvalidCadenceError,
+  PodcastSeriesStore,
+  validateCadence,
+} from "./podcast-series";
+import { pendingTasks, type ScheduledTask } from "./schedules";
+import { type PlaybackPositions, updatePlaybackPositions } from "./playback";
+import type { PodcastListToolResult, PodcastSearchToolResult, PodcastToolResult, RecommendationToolResult } from "./tool-results";
+import { InvalidSearchError, type PodcastSearchFilters, searchPodcastRows, searchPodcasts, serveSearch, snippetToMarkdown } from "./search";
+import {
+  backfillPodcastEmbeddings,
+  createD1VectorIndex,
+  createVectorizeIndex,
+  createWorkersAIEmbedder,
+} from "./embeddings";
+import { hostVoices } from "./dialogue";
+import { generateEpisodeScript, scriptTranscript } from "./episode-script";
+import { agentInstanceName, authenticate, serveSession, verifyFeedToken } from "./auth";
+import { createOpenMeteoProvider, LocationNotFoundError, type WeatherProvider } from "./weather";
 import { AsyncLocalStorage } from "node:async_hooks";
-import type { D1Database, Ai } from "@cloudflare/workers-types";
+import type { D1Database, Ai, R2Bucket, Vectorize } from "@cloudflare/workers-types";
 
 // Environment variables type definition
 export type Env = {
-  OPENAI_API_KEY: string;
+  OPENAI_API_KEY?: string;
+  LLM_PROVIDER?: string; // "openai", "workers-ai" or "openai-compatible"
+  LLM_MODEL?: string; // Overrides the provider's default chat model
+  LLM_BASE_URL?: string; // Base URL of an OpenAI-compatible API
+  LLM_API_KEY?: string; // API key for the OpenAI-compatible API
+  GATEWAY_BASE_URL?: string; // Optional AI Gateway URL for OpenAI requests
+  SCRIPTWRITER_MODEL?: string; // Overrides the Workers AI model for each role
+  RECOMMENDER_MODEL?: string;
+  TTS_MODEL?: string;
+  HOSTS_MODEL?: string;
+  EMBEDDING_MODEL?: string;
   Chat: AgentNamespace<Chat>;
   AI: Ai; // Cloudflare AI binding for podcast generation
   DB: D1Database; // D1 Database binding for podcast storage
+  AUDIO: R2Bucket; // R2 bucket binding for podcast MP3 files
+  VECTORIZE?: Vectorize; // Optional vector index for podcast embeddings; D1 is searched without it
+  PUBLIC_BASE_URL?: string; // Public origin of this worker, used in episode links; defaults to the origin requests come in on
+  SESSION_SECRET: string; // HMAC key for signing user session cookies
 };
 
 // we use ALS to expose the agent context to the tools
 export const agentContext = new AsyncLocalStorage<Chat>();
 
-type Podcast = {
-  topic: string; 
-  slug: string;
-  url: string;
-  script?: string;
-  audio_data?: string;
-  created_at: string;
-}
+export type ChatState = {
+  podcasts: Podcast[];
+  lastUpdated: Date | null;
+  jobs: PodcastJobProgress[];
+  schedules: ScheduledTask[];
+  /** Where the user stopped listening to each episode */
+  playback: PlaybackPositions;
+};
+
+// How many podcast jobs to show progress for in ChatState
+const MAX_TRACKED_JOBS = 5;
+
+// How many recent podcasts to sync to clients in ChatState
+const LIBRARY_SIZE = 50;
+
+// How many of the podcasts closest to a mood the recommender chooses from
+const RECOMMENDATION_CANDIDATES = 5;
+
+// Storage key for the id of the user an agent instance belongs to
+const OWNER_ID_KEY = "ownerId";
 
-export type ChatState = { podcasts:Podcast[], lastUpdated: Date | null };
+// Storage key for the origin the user last reached their agent at
+const REQUEST_ORIGIN_KEY = "requestOrigin";
 
 /**
  * Chat Agent implementation that handles real-time AI chat interactions
@@ -47,7 +132,73 @@ export class Chat extends AIChatAgent<Env, ChatState> {
    * Handles incoming chat messages and manages the response stream
    * @param onFinish - Callback function executed when streaming completes
    */
-  initialState: ChatState = { podcasts: [], lastUpdated: null };
+  initialState: ChatState = { podcasts: [], lastUpdated: null, jobs: [], schedules: [], playback: {} };
+
+  // Persisted podcast generation jobs
+  jobs = new PodcastJobStore(this.sql.bind(this));
+
+  // Recurring podcast series
+  series = new PodcastSeriesStore(this.sql.bind(this));
+
+  // Where the weather tool gets its forecasts
+  weather: WeatherProvider = createOpenMeteoProvider();
+
+  /**
+   * The user this agent instance belongs to. Instances are named after their
+   * user's id, but the name is only known once a request has been routed
+   * here, so it is also kept in storage for schedule callbacks.
+   */
+  private ownerId: string | null = null;
+
+  /**
+   * The origin the user last connected from, which links are built from when
+   * PUBLIC_BASE_URL isn't set. It's kept in storage so podcasts made by
+   * scheduled tasks get the same links.
+   */
+  private requestOrigin: string | null = null;
+
+  /**
+   * Brings the podcast database schema up to date before the agent handles
+   * anything, loads the podcast library into state, and picks up podcast
+   * jobs that were interrupted
+   */
+  async onStart() {
+    await this.loadOwnerId();
+    this.requestOrigin =
+      (await this.ctx.storage.get<string>(REQUEST_ORIGIN_KEY)) ?? null;
+    await ensureMigrations(this.env.DB);
+    await this.refreshPodcastLibrary();
+    this.publishSchedules();
+
+    // Jobs still marked as running were cut off by an eviction or crash.
+    // That counts as a failed attempt, so a step that keeps taking the agent
+    // down eventually gives up, and jobs that already have a resume pending
+    // aren't queued again.
+    const pendingResumes = new Set(
+      this.getSchedules()
+        .filter((schedule) => schedule.callback === "resumePodcastJob")
+        .map((schedule) => String(schedule.payload))
+    );
+    for (const job of this.jobs.listInterrupted()) {
+      if (pendingResumes.has(job.id)) continue;
+      console.log(`Resuming interrupted podcast job ${job.id} at ${job.step}`);
+      const message = await this.retryPodcastJob(job, `interrupted while ${job.step}`);
+      if (job.status === "failed") await this.postJobResult(message);
+    }
+  }
+
+  /**
+   * Remembers the origin the user connected from, for building links
+   */
+  async onConnect(connection: Connection, ctx: ConnectionContext) {
+    const origin = new URL(ctx.request.url).origin;
+    if (origin !== this.requestOrigin) {
+      this.requestOrigin = origin;
+      await this.ctx.storage.put(REQUEST_ORIGIN_KEY, origin);
+      if (!this.env.PUBLIC_BASE_URL) await this.refreshPodcastLibrary();
+    }
+    return super.onConnect(connection, ctx);
+  }
 
   // biome-ignore lint/complexity/noBannedTypes: <explanation>
   async onChatMessage(onFinish: StreamTextOnFinishCallback<{}>) {
@@ -64,20 +215,17 @@ export class Chat extends AIChatAgent<Env, ChatState> {
             executions,
           });
 
-          // Initialize OpenAI client with API key from environment
-          const openai = createOpenAI({
-            apiKey: this.env.OPENAI_API_KEY,
-          });
-
-          // Stream the AI response using GPT-4
+          // Stream the AI response from the configured chat model
           const result = streamText({
-            model: openai("gpt-4o-2024-11-20"),
+            model: createChatModel(this.env),
             system: `
              You are a helpful podcast assistant that can generate podcasts and manage podcast content using Cloudflare Workers AI. You can:
               - Generate podcasts on any topic using the generatePodcast tool
-              - Create audio podcasts with MP3 files using the createAudioPodcast tool
+              - Create audio podcasts with MP3 files using the createAudioPodcast tool, either narrated by one host or as a conversation between two hosts
               - List previously generated podcasts using the listRecentPodcasts tool
-              - Schedule tasks to be executed later if needed
+              - Search the user's podcasts by topic, title or script using the searchPodcasts tool
+              - Create podcast series that publish a new episode on a schedule, and list, pause, resume or delete them
+              - Schedule tasks to be executed later if needed, and list or cancel scheduled tasks
               
               When users ask for podcasts, use the available tools to create and manage podcast content. The time is now: ${new Date().toISOString()}.
               `,
@@ -105,43 +253,126 @@ export class Chat extends AIChatAgent<Env, ChatState> {
         content: `scheduled message: ${description}`,
       },
     ]);
+    this.publishSchedules();
+  }
+
+  /**
+   * Schedules a task and syncs the pending schedules to clients
+   */
+  async schedule<T = string>(when: Date | string | number, callback: keyof this, payload?: T) {
+    const schedule = await super.schedule(when, callback, payload);
+    this.publishSchedules();
+    return schedule;
+  }
+
+  /**
+   * Cancels a schedule and syncs the pending schedules to clients
+   */
+  async cancelSchedule(id: string) {
+    const cancelled = await super.cancelSchedule(id);
+    this.publishSchedules();
+    return cancelled;
+  }
+
+  /**
+   * Called by the player to remember where the user stopped listening to an
+   * episode, so it resumes there on any device
+   * @param duration - Length of the episode in seconds, if known
+   * @throws InvalidPlaybackPositionError
+   */
+  @unstable_callable({ description: "Save the listening position of an episode" })
+  async savePlaybackPosition(slug: string, position: number, duration?: number | null) {
+    this.setState({
+      ...this.state,
+      playback: updatePlaybackPositions(this.state.playback ?? {}, slug, position, duration),
+    });
+  }
+
+  /**
+   * Schedules that are still to run, soonest first
+   */
+  getScheduledTasks(now = new Date()): ScheduledTask[] {
+    return pendingTasks(this.getSchedules<unknown>(), (schedule) => this.describeSchedule(schedule), now);
+  }
+
+  async listScheduledTasks() {
+    const tasks = this.getScheduledTasks();
+    if (tasks.length === 0) {
+      return "No tasks are scheduled.";
+    }
+
+    const taskList = tasks.map((task) =>
+      `• ${task.description} (id: ${task.id}) - ${task.cron ? `recurring on ${task.cron} (UTC), next` : "once,"} at ${new Date(task.nextRun).toUTCString()}`
+    ).join('\n');
+
+    return `⏰ Scheduled tasks (${tasks.length}):\n\n${taskList}`;
+  }
+
+  /**
+   * Cancels a scheduled task. A series' schedule pauses the series, and a
+   * podcast job's retry fails the job, so neither is left waiting on a
+   * schedule that no longer exists.
+   */
+  async cancelScheduledTask(id: string) {
+    const [schedule] = this.getSchedules<unknown>({ id });
+    if (!schedule) {
+      return `No scheduled task with id ${id} was found. Use listScheduledTasks to see the scheduled tasks.`;
+    }
+
+    const payload = String(schedule.payload);
+    if (schedule.callback === "runSeriesEpisode" && this.series.get(payload)) {
+      return this.pausePodcastSeries(payload);
+    }
+    const description = this.describeSchedule(schedule);
+    if (schedule.callback === "resumePodcastJob") {
+      const job = this.jobs.get(payload);
+      if (job?.status === "retrying") {
+        job.status = "failed";
+        job.error = "The retry was cancelled";
+        job.result = `⚠️ Audio podcast generation for "${job.topic}" was cancelled.`;
+        this.saveJob(job);
+      }
+    }
+
+    await this.cancelSchedule(schedule.id);
+    return `🗑️ Cancelled the scheduled task: ${description}.`;
+  }
+
+  /**
+   * Looks up the current weather and forecast for a city
+   * @returns The report, or a message explaining why there is none
+   */
+  async getWeather(city: string) {
+    console.log(`Getting weather information for ${city}`);
+    try {
+      return await this.weather.getWeather(city);
+    } catch (error) {
+      if (error instanceof LocationNotFoundError) {
+        return `${error.message}. Ask the user to check the spelling or name a nearby larger city.`;
+      }
+      console.error("Failed to get weather information:", error);
+      return `Failed to get the weather for ${city}. Error: ${error}`;
+    }
   }
 
   async generatePodcast(topic: string) {
-    const baseUrl = "https://podcaster.lizziepika.workers.dev";
-    
-    const messages = [
-      { role: "system", content: "You are a friendly assistant" },
-      {
-        role: "user",
-        content: "Return only one realistic-looking podcast URL slug about " + topic + " and nothing else. Don't quote it",
-      },
-    ];
-    
-    const response:any = await this.env.AI.run("@cf/meta/llama-4-scout-17b-16e-instruct", { messages });
-    console.log(`response: ${response.response}`);
-    let slug = response.response;
-    const url = baseUrl + "/" + slug;
+    const url = publicUrl(this.baseUrl, episodePath(slugify(topic)));
     
     console.log(`DB binding exists: ${!!this.env.DB}`);
     
     try {
-      // Check if slug already exists and make it unique if needed
-      const existingSlug = await this.env.DB.prepare("SELECT slug FROM podcasts WHERE slug = ?").bind(slug).first();
-      if (existingSlug) {
-        const timestamp = Date.now();
-        slug = `${slug}-${timestamp}`;
-        console.log(`Slug already exists, using unique slug: ${slug}`);
-      }
-      
-      const finalUrl = baseUrl + "/" + slug;
-      
+      // The UNIQUE index on slug rejects taken slugs, which are retried with a suffix
       const stmt = this.env.DB.prepare(`
-        INSERT INTO podcasts (topic, slug, url, created_at) 
-        VALUES (?, ?, ?, datetime('now'))
+        INSERT INTO podcasts (topic, slug, url, owner_id, created_at) 
+        VALUES (?, ?, ?, ?, datetime('now'))
       `);
-      const insertResult = await stmt.bind(topic, slug, finalUrl).run();
+      const { slug } = await insertWithUniqueSlug(slugify(topic), (slug) =>
+        stmt.bind(topic, slug, publicUrl(this.baseUrl, episodePath(slug)), this.ownerId).run()
+      );
+      const finalUrl = publicUrl(this.baseUrl, episodePath(slug));
       console.log(`Saved podcast slug: ${slug} for topic: ${topic}`);
+      await this.refreshPodcastLibrary();
+      await this.embedOwnPodcasts();
       
       return `Podcast page is now live at this URL: ${finalUrl} about ${topic}`;
     } catch (error) {
@@ -156,216 +387,684 @@ export class Chat extends AIChatAgent<Env, ChatState> {
         },
       ];
       
-      const responseMsg:any = await this.env.AI.run("@cf/meta/llama-4-scout-17b-16e-instruct", { messages });
-      return responseMsg.response;
+      return runTextModel(this.env.AI, resolveModels(this.env).scriptwriter, messages);
     }
   }
 
   /**
-   * Creates an audio podcast with MP3 generation and saves to database
+   * Creates an audio podcast with MP3 generation and saves to database.
+   * The work runs as a durable job (see runPodcastJob), so a failure part way
+   * through is retried later from the step that failed.
    * @param topic - The topic for the podcast
    * @param accessibilityMode - "accessible" for full transcript, otherwise standard
+   * @param format - "conversation" for a two-host dialogue, otherwise a single narrator
    */
-  async createAudioPodcast(topic: string, accessibilityMode: string = "standard") {
-    console.log(`Creating audio podcast for topic: ${topic} with mode: ${accessibilityMode}`);
+  async createAudioPodcast(
+    topic: string,
+    accessibilityMode: string = "standard",
+    format: PodcastFormat = "monologue"
+  ) {
+    console.log(`Creating ${format} audio podcast for topic: ${topic} with mode: ${accessibilityMode}`);
+
+    const job = this.jobs.create(topic, accessibilityMode, format);
+    this.publishJobProgress(job);
+    const message = await this.runPodcastJob(job.id);
 
-    const isAccessible = accessibilityMode.toLowerCase() === "accessible";
-    const baseUrl = "https://podcaster.lizziepika.workers.dev";
+    const { status } = this.jobs.get(job.id)!;
+    const row = status === "completed" ? await findPodcastRowByJob(this.env.DB, job.id) : null;
+    return {
+      kind: "podcast",
+      message,
+      status,
+      podcast: row ? toPodcast(row, this.baseUrl) : null,
+    } satisfies PodcastToolResult;
+  }
+
+  /**
+   * Runs a podcast job from its current step to completion. On failure the
+   * job is rescheduled with exponential backoff until MAX_JOB_ATTEMPTS is hit.
+   * @returns A message describing the outcome for the user
+   */
+  async runPodcastJob(jobId: string): Promise<string> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return `Podcast job ${jobId} not found`;
+    }
+    if (job.status === "completed" || job.status === "failed") {
+      return job.result ?? job.error ?? `Podcast job ${jobId} already finished`;
+    }
+
+    job.status = "running";
+    this.saveJob(job);
 
     try {
-      // Step 1: Generate podcast script using AI
-      const scriptMessages = [
-        {
-          role: "system",
-          content: isAccessible
-            ? `You are a professional podcast script writer specializing in accessible content. Create engaging, well-structured podcast scripts that are perfect for both audio listening and text reading.`
-            : `You are a professional podcast script writer. Create engaging, conversational podcast scripts that sound natural when spoken aloud. Keep scripts concise but informative, typically 2-3 minutes when read aloud (about 300-450 words).`,
-        },
-        {
-          role: "user",
-          content: isAccessible
-            ? `Write a comprehensive podcast script about "${topic}" with clear sections, natural speech patterns, and approximately 4-5 minutes when read aloud (600-750 words). Include an introduction, main points, and conclusion.`
-            : `Write a brief podcast script about "${topic}" that covers 2-3 key points, uses conversational language, and can be read aloud in 2-3 minutes (300-450 words). Return only the script text.`,
-        },
-      ];
+      for (const step of JOB_STEPS.slice(JOB_STEPS.indexOf(job.step))) {
+        job.step = step;
+        this.saveJob(job);
 
-      console.log("Generating podcast script...");
-      const scriptResponse: any = await this.env.AI.run("@cf/meta/llama-4-scout-17b-16e-instruct", {
-        messages: scriptMessages,
+        if (step === "scripting") await this.writePodcastScript(job);
+        if (step === "synthesizing") await this.synthesizePodcastAudio(job);
+        if (step === "saving") await this.savePodcastJob(job);
+      }
+
+      job.status = "completed";
+      this.saveJob(job);
+      return job.result!;
+    } catch (error) {
+      console.error(`Podcast job ${job.id} failed at ${job.step}:`, error);
+      return this.retryPodcastJob(job, `${error}`);
+    }
+  }
+
+  /**
+   * Counts a failed attempt at a job, then schedules a retry with exponential
+   * backoff, or marks the job failed once MAX_JOB_ATTEMPTS is hit
+   * @returns A message describing the outcome for the user
+   */
+  private async retryPodcastJob(job: PodcastJob, error: string): Promise<string> {
+    job.attempts++;
+    job.error = error;
+
+    if (job.attempts >= MAX_JOB_ATTEMPTS) {
+      job.status = "failed";
+      job.result = `⚠️ Audio podcast generation for "${job.topic}" failed while ${job.step} after ${job.attempts} attempts. Error: ${job.error}`;
+      this.saveJob(job);
+      return job.result;
+    }
+
+    const delay = retryDelaySeconds(job.attempts);
+    job.status = "retrying";
+    this.saveJob(job);
+    await this.schedule(delay, "resumePodcastJob", job.id);
+    return `⏳ Audio podcast generation for "${job.topic}" hit a problem while ${job.step}. It will resume automatically in ${delay} seconds and post the result here.`;
+  }
+
+  /**
+   * Schedule callback that resumes a failed job and posts its outcome to the chat
+   */
+  async resumePodcastJob(jobId: string) {
+    const message = await this.runPodcastJob(jobId);
+    const job = this.jobs.get(jobId);
+    if (job?.status === "completed" || job?.status === "failed") {
+      await this.postJobResult(message);
+    }
+    this.publishSchedules();
+  }
+
+  /**
+   * Posts the outcome of a job that finished in the background to the chat
+   */
+  private async postJobResult(message: string) {
+    await this.persistMessages([
+      ...this.messages,
+      { id: generateId(), role: "assistant", content: message, createdAt: new Date() },
+    ]);
+  }
+
+  /**
+   * Job step 1: write the script and pick the podcast's preferred slug
+   */
+  private async writePodcastScript(job: PodcastJob) {
+    const { topic } = job;
+    const isAccessible = job.accessibilityMode.toLowerCase() === "accessible";
+
+    console.log("Generating podcast script...");
+    const models = resolveModels(this.env);
+    // Series episodes are told what earlier episodes covered
+    const previousTitles = job.seriesId ? await this.listSeriesEpisodeTitles(job.seriesId) : [];
+    const episode = await generateEpisodeScript(this.env.AI, models.scriptwriter, topic, isAccessible, job.format, previousTitles);
+    const fullScript = scriptTranscript(episode);
+    console.log(`Generated script "${episode.title}": ${fullScript.substring(0, 100)}...`);
+
+    // Preferred slug; it is made unique when the podcast is saved
+    const slug = slugify(`audio ${episode.title}`);
+
+    job.model = models.scriptwriter;
+    job.episode = episode;
+    job.script = fullScript;
+    job.slug = slug;
+    job.url = publicUrl(this.baseUrl, episodePath(slug));
+  }
+
+  /**
+   * Job step 2: voice the script and upload the MP3 to the audio bucket.
+   * On the last attempt a TTS failure no longer fails the job; the podcast
+   * is saved text-only instead.
+   */
+  private async synthesizePodcastAudio(job: PodcastJob) {
+    console.log("Converting script to audio...");
+
+    // Jobs started before scripts had chapters only have the transcript
+    const chapters = job.episode?.chapters ?? [{ heading: job.topic, text: job.script! }];
+    const isConversation = chapters.some((chapter) => chapter.turns);
+
+    try {
+      // Conversation turns are voiced by their own host; long scripts are
+      // synthesized in chunks and stitched into one file
+      const models = resolveModels(this.env);
+      const narrator = { model: models.tts };
+      const hosts = hostVoices(models.hosts);
+      const segments = chapters.flatMap((chapter, index): (SpeechSegment & { speaker?: string; chapter: number })[] =>
+        chapter.turns
+          ? chapter.turns.map((turn) => ({
+              text: turn.text,
+              voice: hosts[turn.speaker],
+              speaker: `Host ${turn.speaker}`,
+              chapter: index,
+            }))
+          : [{ text: chapter.text, voice: narrator, chapter: index }]
+      );
+      const synthesized = await synthesizeSegments(this.env.AI, segments);
+
+      // Chapter markers come from the length of each chapter's clips
+      const durations = chapters.map(() => 0);
+      synthesized.forEach(({ audio }, index) => {
+        durations[segments[index].chapter] += mp3Duration(audio);
       });
+      const markers = chapterMarkers(chapters.map((chapter) => chapter.heading), durations);
+      const audioBytes = writeId3Chapters(
+        concatMp3(synthesized.map(({ audio }) => audio)),
+        job.episode?.title ?? job.topic,
+        markers
+      );
 
-      if (!scriptResponse.response) {
-        throw new Error("Failed to generate podcast script");
-      }
+      // Captions are timed from the length of each voiced chunk
+      const cues = captionCues(
+        synthesized.flatMap(({ chunks }, index) =>
+          chunks.map((chunk) => ({ ...chunk, speaker: segments[index].speaker }))
+        )
+      );
+
+      const stored = await storePodcastAudio(this.env.AUDIO, job.id, audioBytes);
+      await storeChapters(this.env.AUDIO, stored.key, markers);
+      await storeCaptions(this.env.AUDIO, stored.key, cues);
+      job.audio = { ...stored, chapters: markers, hasCaptions: true };
+      job.ttsModel = isConversation ? hosts.A.model : narrator.model;
+      console.log("Audio generated successfully");
+    } catch (error) {
+      if (job.attempts + 1 < MAX_JOB_ATTEMPTS) throw error;
+      console.warn("Audio generation failed, saving a text-only podcast:", error);
+      job.audio = null;
+      job.ttsModel = null;
+    }
+  }
 
-      const fullScript = scriptResponse.response;
-      console.log(`Generated script: ${fullScript.substring(0, 100)}...`);
+  /**
+   * Job step 3: save the podcast row, settling on a unique slug. Safe to
+   * repeat, since a row that was already saved by an earlier attempt of the
+   * job is found again by its job id.
+   */
+  private async savePodcastJob(job: PodcastJob) {
+    const { topic, audio, episode } = job;
+    const isAccessible = job.accessibilityMode.toLowerCase() === "accessible";
+    const isConversation = job.format === "conversation";
+
+    const existing = await this.env.DB.prepare("SELECT slug FROM podcasts WHERE job_id = ?").bind(job.id).first<string>("slug");
+    if (existing) {
+      job.slug = existing;
+    } else {
+      const stmt = this.env.DB.prepare(`
+        INSERT INTO podcasts (topic, slug, url, script, audio_key, audio_size, audio_duration, owner_id, model, tts_model, job_id,
+          title, description, chapters, takeaways, tags, has_captions, series_id, accessible, created_at) 
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+      `);
+      
+      // The UNIQUE index on slug rejects taken slugs, which are retried with a suffix
+      const { slug } = await insertWithUniqueSlug(job.slug!, (slug) => stmt.bind(
+        `${isAccessible ? "Accessible" : isConversation ? "Conversation" : "Audio"}: ${topic}`, 
+        slug, 
+        publicUrl(this.baseUrl, episodePath(slug)), 
+        job.script!,
+        audio?.key ?? null,
+        audio?.size ?? null,
+        audio?.duration ?? null,
+        this.ownerId,
+        job.model ?? null,
+        job.ttsModel ?? null,
+        job.id,
+        episode?.title ?? null,
+        episode?.description ?? null,
+        episode ? JSON.stringify(episode.chapters.map(({ heading, text }, index) => ({
+          heading,
+          text,
+          startTime: audio?.chapters?.[index]?.startTime,
+          endTime: audio?.chapters?.[index]?.endTime,
+        }))) : null,
+        episode ? JSON.stringify(episode.takeaways) : null,
+        episode ? JSON.stringify(episode.tags) : null,
+        audio?.hasCaptions ? 1 : 0,
+        job.seriesId ?? null,
+        isAccessible ? 1 : 0
+      ).run());
+      job.slug = slug;
+      if (job.seriesId) this.recordSeriesEpisode(job.seriesId, slug);
 
-      // Clean script for audio (remove any section markers)
-      const audioScript = fullScript.replace(/\[.*?\]/g, "").replace(/\n\n+/g, "\n\n").trim();
+      console.log(`Saved audio podcast record for topic: ${topic} with slug: ${slug}`);
+      await this.refreshPodcastLibrary();
+      await this.embedOwnPodcasts();
+    }
+    const slug = job.slug;
+    job.url = publicUrl(this.baseUrl, episodePath(slug));
 
-      // Step 2: Convert script to audio
-      console.log("Converting script to audio...");
-      let audioDataUrl = "";
-      let audioError = null;
+    const successMessage = audio 
+      ? `🎧 Audio podcast created successfully for "${topic}"! The podcast includes both script and MP3 audio.`
+      : `📝 Podcast script created for "${topic}", but audio generation failed. You can still visit the page to see the content.`;
 
-      try {
-        const audioResponse: any = await this.env.AI.run("@cf/myshell-ai/melotts", {
-          prompt: audioScript,
-          lang: "en",
-        });
+    job.result = `${successMessage}\n\n🔗 Visit your podcast: ${job.url}\n\n${audio ? `🎵 Includes playable MP3 audio: ${publicUrl(this.baseUrl, audioPath(slug))}` : '📄 Text-only version available'}`;
+  }
 
-        if (audioResponse?.audio) {
-          audioDataUrl = `data:audio/mp3;base64,${audioResponse.audio}`;
-          console.log("Audio generated successfully");
-        } else {
-          throw new Error("No audio data returned");
-        }
-      } catch (error) {
-        console.warn("Audio generation failed:", error);
-        audioError = error;
+  /**
+   * Starts a podcast series that publishes a new episode whenever the cron
+   * expression fires
+   * @param cron - Cron expression in UTC
+   */
+  async createPodcastSeries(
+    topic: string,
+    cron: string,
+    format: PodcastFormat = "monologue",
+    accessibilityMode = "standard",
+    name: string = topic
+  ) {
+    console.log(`Creating podcast series "${name}" on ${topic} at ${cron}`);
+
+    try {
+      validateCadence(cron);
+    } catch (error) {
+      if (error instanceof InvalidCadenceError) {
+        return `${error.message}. Use a five-field cron expression in UTC, such as "0 8 * * 1" for every Monday at 08:00 UTC.`;
       }
+      throw error;
+    }
+    if (this.series.find(name)) {
+      return `A podcast series called "${name}" already exists. Pick another name.`;
+    }
+
+    const series = this.series.create({ name, topic, cron, format, accessibilityMode });
+    const schedule = await this.schedule(cron, "runSeriesEpisode", series.id);
+    series.scheduleId = schedule.id;
+    this.series.save(series);
+
+    return `📅 Created the podcast series "${name}" about ${topic}.\n\n${describeSeries(series, new Date(schedule.time * 1000))}`;
+  }
+
+  /**
+   * Schedule callback that publishes the next episode of a series and posts
+   * the outcome to the chat. Schedules left behind by a paused or deleted
+   * series are cancelled.
+   */
+  async runSeriesEpisode(seriesId: string, schedule?: Schedule<string>) {
+    const series = this.series.get(seriesId);
+    if (!series || series.status !== "active") {
+      console.warn(`Skipping episode of inactive podcast series ${seriesId}`);
+      if (schedule) await this.cancelSchedule(schedule.id);
+      return;
+    }
 
-      // Step 3: Generate unique slug
-      const slugMessages = [
-        { role: "system", content: "You are a helpful assistant that creates URL-friendly slugs." },
+    console.log(`Publishing episode ${series.episodeCount + 1} of podcast series "${series.name}"`);
+    const job = this.jobs.create(series.topic, series.accessibilityMode, series.format, series.id);
+    this.publishJobProgress(job);
+    const message = await this.runPodcastJob(job.id);
+
+    // Jobs that are retrying post their outcome once they resume
+    if (this.jobs.get(job.id)?.status !== "retrying") {
+      await this.persistMessages([
+        ...this.messages,
         {
-          role: "user",
-          content: `Create a URL-friendly slug for a podcast about "${topic}". Return only the slug with hyphens, no quotes, no extra text.`,
+          id: generateId(),
+          role: "assistant",
+          content: `📻 New episode of "${series.name}":\n\n${message}`,
+          createdAt: new Date(),
         },
-      ];
+      ]);
+    }
+    this.publishSchedules();
+  }
 
-      const slugResponse: any = await this.env.AI.run("@cf/meta/llama-4-scout-17b-16e-instruct", {
-        messages: slugMessages,
-      });
+  async listPodcastSeries() {
+    const series = this.series.list();
+    if (series.length === 0) {
+      return "No podcast series have been created yet.";
+    }
 
-      let slug = slugResponse.response?.trim() || topic.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
-      
-      // Add prefix and ensure uniqueness
-      slug = `audio-${slug}`;
-      
-      try {
-        const existingSlug = await this.env.DB.prepare("SELECT slug FROM podcasts WHERE slug = ?").bind(slug).first();
-        if (existingSlug) {
-          const timestamp = Date.now();
-          slug = `${slug}-${timestamp}`;
-        }
-      } catch (e) {
-        console.warn("Could not check for existing slug:", e);
-      }
+    const list = series.map((s) => {
+      const [schedule] = s.scheduleId ? this.getSchedules({ id: s.scheduleId }) : [];
+      return describeSeries(s, schedule ? new Date(schedule.time * 1000) : null);
+    }).join('\n\n');
 
-      const finalUrl = `${baseUrl}/${slug}`;
+    return `📅 Podcast series (${series.length}):\n\n${list}`;
+  }
 
-      // Step 4: Save to database with audio data
-      try {
-        // Try to add columns if they don't exist (migration)
-        try {
-          await this.env.DB.prepare("ALTER TABLE podcasts ADD COLUMN script TEXT").run();
-          await this.env.DB.prepare("ALTER TABLE podcasts ADD COLUMN audio_data TEXT").run();
-        } catch (e) {
-          // Columns might already exist
-        }
+  /**
+   * Stops a series from publishing until it is resumed
+   * @param idOrName - The series' id or name
+   */
+  async pausePodcastSeries(idOrName: string) {
+    const series = this.series.find(idOrName);
+    if (!series) {
+      return `No podcast series called "${idOrName}" was found.`;
+    }
+    if (series.status === "paused") {
+      return `The podcast series "${series.name}" is already paused.`;
+    }
 
-        const stmt = this.env.DB.prepare(`
-          INSERT INTO podcasts (topic, slug, url, script, audio_data, created_at) 
-          VALUES (?, ?, ?, ?, ?, datetime('now'))
-        `);
-        
-        await stmt.bind(
-          `${isAccessible ? "Accessible" : "Audio"}: ${topic}`, 
-          slug, 
-          finalUrl, 
-          fullScript,
-          audioDataUrl || null
-        ).run();
-
-        console.log(`Saved audio podcast record for topic: ${topic} with slug: ${slug}`);
-      } catch (dbError) {
-        console.warn("Could not save to database with audio data, trying basic save:", dbError);
-        
-        // Fallback: try basic insert
-        try {
-          const fallbackStmt = this.env.DB.prepare(`
-            INSERT INTO podcasts (topic, slug, url, created_at) 
-            VALUES (?, ?, ?, datetime('now'))
-          `);
-          await fallbackStmt.bind(`Audio: ${topic}`, slug, finalUrl).run();
-        } catch (e) {
-          console.warn("Basic save also failed:", e);
-        }
-      }
+    if (series.scheduleId) await this.cancelSchedule(series.scheduleId);
+    series.status = "paused";
+    series.scheduleId = null;
+    this.series.save(series);
+    return `⏸️ Paused the podcast series "${series.name}". No new episodes will be published until it is resumed.`;
+  }
+
+  /**
+   * Puts a paused series back on its schedule
+   * @param idOrName - The series' id or name
+   */
+  async resumePodcastSeries(idOrName: string) {
+    const series = this.series.find(idOrName);
+    if (!series) {
+      return `No podcast series called "${idOrName}" was found.`;
+    }
+    if (series.status === "active") {
+      return `The podcast series "${series.name}" is already active.`;
+    }
 
-      // Step 5: Return success response
-      const successMessage = audioDataUrl 
-        ? `🎧 Audio podcast created successfully for "${topic}"! The podcast includes both script and MP3 audio.`
-        : `📝 Podcast script created for "${topic}", but audio generation failed. You can still visit the page to see the content.`;
+    const schedule = await this.schedule(series.cron, "runSeriesEpisode", series.id);
+    series.status = "active";
+    series.scheduleId = schedule.id;
+    this.series.save(series);
+    return `▶️ Resumed the podcast series "${series.name}".\n\n${describeSeries(series, new Date(schedule.time * 1000))}`;
+  }
 
-      return `${successMessage}\n\n🔗 Visit your podcast: ${finalUrl}\n\n${audioDataUrl ? '🎵 Includes playable MP3 audio' : '📄 Text-only version available'}`;
+  /**
+   * Deletes a series and its schedule. Episodes that were already published
+   * are kept, but no longer belong to a series.
+   * @param idOrName - The series' id or name
+   */
+  async deletePodcastSeries(idOrName: string) {
+    const series = this.series.find(idOrName);
+    if (!series) {
+      return `No podcast series called "${idOrName}" was found.`;
+    }
 
+    if (series.scheduleId) await this.cancelSchedule(series.scheduleId);
+    this.series.delete(series.id);
+    try {
+      await this.env.DB.prepare("UPDATE podcasts SET series_id = NULL WHERE series_id = ? AND owner_id = ?")
+        .bind(series.id, this.ownerId)
+        .run();
     } catch (error) {
-      console.error("Failed to create audio podcast:", error);
+      console.error("Failed to unlink podcast series episodes:", error);
+    }
+    return `🗑️ Deleted the podcast series "${series.name}". Its ${series.episodeCount} published episode(s) are still available.`;
+  }
+
+  /**
+   * Titles of a series' most recent episodes, newest first
+   */
+  private async listSeriesEpisodeTitles(seriesId: string) {
+    const { results } = await this.env.DB.prepare(
+      "SELECT COALESCE(title, topic) AS title FROM podcasts WHERE series_id = ? ORDER BY created_at DESC, id DESC LIMIT 10"
+    )
+      .bind(seriesId)
+      .all<{ title: string }>();
+    return results.map((row) => row.title);
+  }
 
-      // Generate fallback response
-      const fallbackSlug = `audio-${topic.toLowerCase().replace(/[^a-z0-9]+/g, "-")}-fallback-${Date.now()}`;
-      const fallbackUrl = `${baseUrl}/${fallbackSlug}`;
+  /**
+   * Counts a newly saved episode towards its series
+   */
+  private recordSeriesEpisode(seriesId: string, slug: string) {
+    const series = this.series.get(seriesId);
+    if (!series) return;
+    series.episodeCount++;
+    series.lastEpisodeUrl = publicUrl(this.baseUrl, episodePath(slug));
+    series.lastEpisodeAt = new Date().toISOString();
+    this.series.save(series);
+  }
+
+  /**
+   * Reloads the most recent podcasts from D1 into ChatState, which syncs
+   * them to every connected client
+   */
+  private async refreshPodcastLibrary() {
+    // Links can't be built until the first connection (see onConnect)
+    if (!this.env.PUBLIC_BASE_URL && !this.requestOrigin) return;
+    try {
+      const rows = await this.listOwnPodcastRows(LIBRARY_SIZE);
+      this.setState({
+        ...this.state,
+        podcasts: rows.map((row) => toPodcast(row, this.baseUrl)),
+        lastUpdated: new Date(),
+      });
+    } catch (error) {
+      console.error("Failed to refresh podcast library:", error);
+    }
+  }
+
+  /**
+   * The owner's most recent podcasts, or none while the owner is unknown
+   */
+  private async listOwnPodcastRows(limit: number) {
+    return this.ownerId
+      ? listRecentPodcastRows(this.env.DB, limit, this.ownerId)
+      : [];
+  }
+
+  /**
+   * The owner's podcasts closest in meaning to a mood, most similar first.
+   * Falls back to full-text search when the mood or the podcasts can't be
+   * embedded.
+   */
+  private async findPodcastsForMood(mood: string): Promise<PodcastRow[]> {
+    const ownerId = this.ownerId!;
+    try {
+      const embedder = this.createEmbedder();
+      const index = this.createVectorIndex();
+      // Podcasts saved before recommendations used embeddings, or whose
+      // embedding failed, are embedded first
+      await backfillPodcastEmbeddings(this.env.DB, embedder, index, ownerId);
+      const [vector] = await embedder.embed([mood]);
+      const similar = await index.query(vector, ownerId, RECOMMENDATION_CANDIDATES);
+      return await findPodcastRowsByIds(this.env.DB, similar.map((match) => match.podcastId), ownerId);
+    } catch (error) {
+      console.warn("Failed to find podcasts by embedding, using full-text search:", error);
+      return searchPodcastRows(this.env.DB, ownerId, mood, {
+        matchAny: true,
+        limit: RECOMMENDATION_CANDIDATES,
+      }).catch((error) => {
+        if (error instanceof InvalidSearchError) return [];
+        throw error;
+      });
+    }
+  }
+
+  /**
+   * Embeds the owner's new podcasts for recommendations. A failure only
+   * delays that until the next recommendation, which retries them.
+   */
+  private async embedOwnPodcasts() {
+    if (!this.ownerId) return;
+    try {
+      await backfillPodcastEmbeddings(this.env.DB, this.createEmbedder(), this.createVectorIndex(), this.ownerId);
+    } catch (error) {
+      console.warn("Failed to embed podcasts:", error);
+    }
+  }
+
+  private createEmbedder() {
+    return createWorkersAIEmbedder(this.env.AI, resolveModels(this.env).embedding);
+  }
+
+  // Vectorize when it's bound, otherwise the embeddings in D1
+  private createVectorIndex() {
+    const model = resolveModels(this.env).embedding;
+    return this.env.VECTORIZE
+      ? createVectorizeIndex(this.env.VECTORIZE, this.env.DB, model)
+      : createD1VectorIndex(this.env.DB, model);
+  }
+
+  /**
+   * Public origin for episode and audio links: PUBLIC_BASE_URL when it's
+   * set, otherwise the origin the user last connected from
+   */
+  private get baseUrl() {
+    const baseUrl = this.env.PUBLIC_BASE_URL || this.requestOrigin;
+    if (!baseUrl) {
+      throw new Error(
+        "PUBLIC_BASE_URL is not set and no request has reached this agent yet"
+      );
+    }
+    return baseUrl;
+  }
+
+  /**
+   * Reads the owner from the agent's name, falling back to the stored owner
+   * when the agent was woken up by a scheduled task rather than a request
+   */
+  private async loadOwnerId() {
+    try {
+      this.ownerId = this.name;
+      await this.ctx.storage.put(OWNER_ID_KEY, this.ownerId);
+    } catch {
+      this.ownerId = (await this.ctx.storage.get<string>(OWNER_ID_KEY)) ?? null;
+    }
+  }
 
-      return `⚠️ Audio podcast generation encountered issues for "${topic}", but a placeholder page was created at: ${fallbackUrl}`;
+  /**
+   * What a schedule does, for the schedule tools and the schedules panel
+   */
+  private describeSchedule(schedule: Schedule<unknown>) {
+    const payload = String(schedule.payload);
+    switch (schedule.callback) {
+      case "executeTask":
+        return payload;
+      case "resumePodcastJob":
+        return `Retry the podcast about "${this.jobs.get(payload)?.topic ?? payload}"`;
+      case "runSeriesEpisode":
+        return `Publish the next episode of "${this.series.get(payload)?.name ?? payload}"`;
+      default:
+        return schedule.callback;
     }
   }
 
+  /**
+   * Updates ChatState with the pending schedules
+   */
+  private publishSchedules() {
+    this.setState({ ...this.state, schedules: this.getScheduledTasks() });
+  }
+
+  /**
+   * Persists a job and pushes its progress to connected clients
+   */
+  private saveJob(job: PodcastJob) {
+    this.jobs.save(job);
+    this.publishJobProgress(job);
+  }
+
+  /**
+   * Updates ChatState with the job's progress, keeping the most recent jobs
+   */
+  private publishJobProgress(job: PodcastJob) {
+    const others = (this.state.jobs ?? []).filter((j) => j.id !== job.id);
+    this.setState({
+      ...this.state,
+      jobs: [toJobProgress(job), ...others].slice(0, MAX_TRACKED_JOBS),
+    });
+  }
+
   async listRecentPodcasts(limit: number = 10) {
     console.log(`Attempting to list ${limit} recent podcasts`);
     
     try {
-      const stmt = this.env.DB.prepare(`
-        SELECT topic, slug, url, created_at 
-        FROM podcasts 
-        ORDER BY created_at DESC 
-        LIMIT ?
-      `);
+      const rows = await this.listOwnPodcastRows(limit);
       
-      const result = await stmt.bind(limit).all();
-      const podcasts = result.results || [];
-      
-      if (podcasts.length === 0) {
+      if (rows.length === 0) {
         return "No podcasts have been generated yet.";
       }
 
-      const podcastList = podcasts.map((p: any) => 
+      const podcasts = rows.map((row) => toPodcast(row, this.baseUrl));
+      const podcastList = podcasts.map((p) => 
         `• ${p.topic} - ${p.url} (Generated: ${new Date(p.created_at).toLocaleString()})`
       ).join('\n');
 
-      return `📻 Recent podcasts (${podcasts.length}):\n\n${podcastList}`;
+      return {
+        kind: "podcast-list",
+        message: `📻 Recent podcasts (${podcasts.length}):\n\n${podcastList}`,
+        podcasts,
+      } satisfies PodcastListToolResult;
     } catch (error) {
       console.error("Failed to retrieve podcasts:", error);
       return `Failed to retrieve podcast list from database. Error: ${error}`;
     }
   }
 
+  /**
+   * Full-text search over the owner's podcasts
+   */
+  async searchPodcasts(query: string, filters: PodcastSearchFilters = {}) {
+    console.log(`Searching podcasts for: ${query}`);
+
+    try {
+      const results = this.ownerId
+        ? await searchPodcasts(this.env.DB, this.ownerId, query, this.baseUrl, filters)
+        : [];
+
+      if (results.length === 0) {
+        return `🔍 No podcasts found matching "${query}".`;
+      }
+
+      const resultList = results.map(({ podcast, snippet }) =>
+        `• ${podcast.title} - ${podcast.url} (Generated: ${new Date(podcast.created_at).toLocaleString()})\n  ${snippetToMarkdown(snippet)}`
+      ).join('\n');
+
+      return {
+        kind: "podcast-search",
+        message: `🔍 Podcasts matching "${query}" (${results.length}):\n\n${resultList}`,
+        query,
+        results,
+      } satisfies PodcastSearchToolResult;
+    } catch (error) {
+      if (error instanceof InvalidSearchError) {
+        return `⚠️ ${error.message}`;
+      }
+      console.error("Failed to search podcasts:", error);
+      return `Failed to search podcasts. Error: ${error}`;
+    }
+  }
+
+  /**
+   * Recommends one of the owner's podcasts for a mood or interest. Only the
+   * podcasts closest in meaning to the mood are shown to the model, which
+   * picks one and explains the choice.
+   */
   async recommendPodcast(mood: string) {
     console.log(`Looking for podcast recommendations based on mood: ${mood}`);
     
     try {
-      // Get all podcasts from the database
-      const stmt = this.env.DB.prepare(`
-        SELECT topic, slug, url, created_at 
-        FROM podcasts 
-        ORDER BY created_at DESC
-      `);
-      
-      const result = await stmt.all();
-      const podcasts = result.results || [];
-      
-      if (podcasts.length === 0) {
+      const [latest] = await this.listOwnPodcastRows(1);
+      if (!latest) {
         return "No podcasts have been generated yet. Generate some podcasts first to get recommendations!";
       }
 
-      // Format podcasts list for AI analysis
-      const podcastList = podcasts.map((p: any, index: number) => 
-        `${index + 1}. Topic: "${p.topic}" | URL: ${p.url} | Created: ${new Date(p.created_at).toLocaleString()}`
-      ).join('\n');
+      const rows = await this.findPodcastsForMood(mood);
+      if (rows.length === 0) {
+        return `😔 No podcasts found matching "${mood}". Try generating some podcasts with topics you're interested in first!`;
+      }
+      const podcasts = rows.map((row) => toPodcast(row, this.baseUrl));
 
-      // Use AI to analyze and recommend based on mood
+      // Format the candidates for AI analysis
+      const podcastList = podcasts.map((p, index) => {
+        const tags = parseJsonArray<string>(rows[index].tags);
+        return [
+          `${index + 1}. Title: "${p.title}"`,
+          ...(p.description ? [`About: ${p.description}`] : []),
+          ...(tags.length > 0 ? [`Tags: ${tags.join(", ")}`] : []),
+          `URL: ${p.url}`,
+          `Created: ${new Date(p.created_at).toLocaleString()}`,
+        ].join(" | ");
+      }).join('\n');
+
+      // Use AI to pick from the candidates and explain why
       const messages = [
         {
           role: "system", 
@@ -373,27 +1072,31 @@ export class Chat extends AIChatAgent<Env, ChatState> {
         },
         {
           role: "user", 
-          content: `User mood: "${mood}"\n\nAvailable podcasts:\n${podcastList}\n\nRecommend the best podcast that matches my mood.`
+          content: `User mood: "${mood}"\n\nAvailable podcasts, closest to the mood first:\n${podcastList}\n\nRecommend the best podcast that matches my mood, include its URL, and explain why it fits.`
         }
       ];
 
-      const aiResponse: any = await this.env.AI.run("@cf/meta/llama-4-scout-17b-16e-instruct", { messages });
+      const recommendation = await runTextModel(this.env.AI, resolveModels(this.env).recommender, messages);
       
-      if (aiResponse.response) {
-        return `🎧 Podcast Recommendation for "${mood}":\n\n${aiResponse.response}`;
+      if (recommendation) {
+        // The podcasts the model picked, recognised by their URL, or the
+        // closest podcast when the answer doesn't name one
+        const picked = podcasts.filter((podcast) => mentionsUrl(recommendation, podcast.url));
+        return {
+          kind: "recommendation",
+          message: `🎧 Podcast Recommendation for "${mood}":\n\n${recommendation}`,
+          mood,
+          podcasts: picked.length > 0 ? picked : podcasts.slice(0, 1),
+        } satisfies RecommendationToolResult;
       } else {
-        // Fallback to simple keyword matching
-        const keywords = mood.toLowerCase().split(' ');
-        const matches = podcasts.filter((podcast: any) => 
-          keywords.some(keyword => podcast.topic.toLowerCase().includes(keyword))
-        );
-        
-        if (matches.length > 0) {
-          const match = matches[0];
-          return `🎯 Found a matching podcast!\n\n"${match.topic}"\n🔗 Listen here: ${match.url}\n\nThis matches your mood: ${mood}`;
-        } else {
-          return `😔 No podcasts found matching "${mood}". Try generating some podcasts with topics you're interested in first!`;
-        }
+        // Without an answer from the model, recommend the closest podcast
+        const match = podcasts[0];
+        return {
+          kind: "recommendation",
+          message: `🎯 Found a matching podcast!\n\n"${match.title}"\n🔗 Listen here: ${match.url}\n\nThis matches your mood: ${mood}`,
+          mood,
+          podcasts: [match],
+        } satisfies RecommendationToolResult;
       }
     } catch (error) {
       console.error("Failed to get podcast recommendations:", error);
@@ -435,11 +1138,119 @@ export default {
       });
     }
 
-    if (!env.OPENAI_API_KEY) {
+    // Make sure the podcast tables exist before any agent touches them
+    await ensureMigrations(env.DB);
+    ctx.waitUntil(ensureLegacyAudioMoved(env.DB, env.AUDIO));
+
+    // Stream podcast audio from the bucket
+    const audioMatch = url.pathname.match(/^\/podcasts\/([^/]+)\/audio\.mp3$/);
+    if (audioMatch && (request.method === "GET" || request.method === "HEAD")) {
+      const slug = decodePathSegment(audioMatch[1]);
+      if (slug === null) {
+        return new Response("Not found", { status: 404 });
+      }
+      return servePodcastAudio(request, env.DB, env.AUDIO, slug);
+    }
+
+    // Podcasting 2.0 chapters file for podcast apps
+    const chaptersMatch = url.pathname.match(/^\/podcasts\/([^/]+)\/chapters\.json$/);
+    if (chaptersMatch && request.method === "GET") {
+      const slug = decodePathSegment(chaptersMatch[1]);
+      if (slug === null) {
+        return new Response("Not found", { status: 404 });
+      }
+      return servePodcastChapters(env.DB, env.AUDIO, slug);
+    }
+
+    // Timed transcripts
+    const captionsMatch = url.pathname.match(/^\/podcasts\/([^/]+)\/transcript\.(vtt|srt)$/);
+    if (captionsMatch && request.method === "GET") {
+      const slug = decodePathSegment(captionsMatch[1]);
+      if (slug === null) {
+        return new Response("Not found", { status: 404 });
+      }
+      return servePodcastCaptions(env.DB, env.AUDIO, slug, captionsMatch[2] as CaptionFormat);
+    }
+
+    // Podcast feeds for podcast apps. Each user's feed is addressed by a
+    // signed token; without one, only podcasts with no owner are listed.
+    if (url.pathname === "/feed.xml" && request.method === "GET") {
+      const token = url.searchParams.get("token");
+      if (token === null) {
+        return serveFeed(env.DB, env.PUBLIC_BASE_URL || url.origin, null);
+      }
+      const userId = env.SESSION_SECRET
+        ? await verifyFeedToken(token, env.SESSION_SECRET)
+        : null;
+      if (!userId) {
+        return new Response("Not found", { status: 404 });
+      }
+      return serveFeed(env.DB, env.PUBLIC_BASE_URL || url.origin, { id: userId, token });
+    }
+
+    // Render public episode pages
+    const pageMatch = url.pathname.match(/^\/p\/([^/]+)\/?$/);
+    if (pageMatch && request.method === "GET") {
+      const slug = decodePathSegment(pageMatch[1]);
+      if (slug === null) {
+        return new Response("Not found", { status: 404 });
+      }
+      return serveEpisodePage(env.DB, slug);
+    }
+
+    if (!env.SESSION_SECRET) {
+      console.error(
+        "SESSION_SECRET is not set, don't forget to set it locally in .dev.vars, and use `wrangler secret bulk .dev.vars` to upload it to production"
+      );
+      return new Response("SESSION_SECRET is not set", { status: 500 });
+    }
+
+    // Identify the user, starting a session on their first visit
+    if (url.pathname === "/api/session" && request.method === "GET") {
+      return serveSession(request, env.SESSION_SECRET);
+    }
+
+    // The caller's feed URL
+    if (url.pathname === "/api/feed" && request.method === "GET") {
+      const userId = await authenticate(request, env.SESSION_SECRET);
+      if (!userId) {
+        return new Response("Unauthorized", { status: 401 });
+      }
+      return serveFeedUrl(userId, env.SESSION_SECRET, env.PUBLIC_BASE_URL || url.origin);
+    }
+
+    // Full-text search over the caller's podcasts
+    if (url.pathname === "/api/podcasts/search" && request.method === "GET") {
+      const userId = await authenticate(request, env.SESSION_SECRET);
+      if (!userId) {
+        return new Response("Unauthorized", { status: 401 });
+      }
+      return serveSearch(request, env.DB, userId, env.PUBLIC_BASE_URL || url.origin);
+    }
+
+    // Users can only reach the agent instance named after their own id
+    let agentName: string | null;
+    try {
+      agentName = agentInstanceName(url.pathname);
+    } catch {
+      return new Response("Bad request", { status: 400 });
+    }
+    if (agentName !== null) {
+      const userId = await authenticate(request, env.SESSION_SECRET);
+      if (!userId) {
+        return new Response("Unauthorized", { status: 401 });
+      }
+      if (agentName !== userId) {
+        return new Response("Forbidden", { status: 403 });
+      }
+    }
+
+    const modelConfigError = chatModelConfigError(env);
+    if (modelConfigError) {
       console.error(
-        "OPENAI_API_KEY is not set, don't forget to set it locally in .dev.vars, and use `wrangler secret bulk .dev.vars` to upload it to production"
+        `${modelConfigError}. Configure the chat model in .dev.vars locally, and use \`wrangler secret bulk .dev.vars\` to upload it to production`
       );
-      return new Response("OPENAI_API_KEY is not set", { status: 500 });
+      return new Response(modelConfigError, { status: 500 });
     }
     
     return (
@@ -1,5 +1,37 @@
+import type { ToolName } from "./tools";
+
 // Approval string to be shared across frontend and backend
 export const APPROVAL = {
   YES: "Yes, confirmed.",
   NO: "No, denied.",
 } as const;
+
+export type ToolConfirmation = {
+  /** Whether the user can approve the tool once for the rest of the session */
+  allowForSession: boolean;
+};
+
+/**
+ * Tools that wait for the user to approve each call before they run. This
+ * is the one confirmation policy for both sides: the agent strips these
+ * tools' execute functions (see tools.ts) and the client shows the approval
+ * prompt. It lives here because the client can't import the tools.
+ */
+export const TOOL_CONFIRMATIONS = {
+  getWeatherInformation: { allowForSession: true },
+  // Voicing a podcast is slow and costs TTS usage
+  createAudioPodcast: { allowForSession: true },
+  cancelScheduledTask: { allowForSession: false },
+  deletePodcastSeries: { allowForSession: false },
+} as const satisfies Partial<Record<ToolName, ToolConfirmation>>;
+
+export type ConfirmedToolName = keyof typeof TOOL_CONFIRMATIONS;
+
+/**
+ * Whether calls to a tool wait for the user's approval
+ */
+export function requiresConfirmation(
+  toolName: string
+): toolName is ConfirmedToolName {
+  return Object.prototype.hasOwnProperty.call(TOOL_CONFIRMATIONS, toolName);
+}
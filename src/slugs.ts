@@ -0,0 +1,104 @@
+/**
+ * Podcast slugs
+ * Slugs are derived from the podcast's title rather than asked of a model,
+ * normalized to lowercase ASCII words joined by hyphens, and kept unique by
+ * the UNIQUE index on `podcasts.slug`: a conflicting insert is retried with a
+ * short random suffix.
+ */
+
+export const MAX_SLUG_LENGTH = 60;
+
+/** Used when a title has no characters that survive normalization */
+export const FALLBACK_SLUG = "podcast";
+
+const SUFFIX_LENGTH = 4;
+const MAX_INSERT_ATTEMPTS = 5;
+
+// Letters that Unicode decomposition doesn't reduce to ASCII
+const TRANSLITERATIONS: Record<string, string> = {
+  ß: "ss",
+  æ: "ae",
+  œ: "oe",
+  ø: "o",
+  đ: "d",
+  ð: "d",
+  þ: "th",
+  ł: "l",
+  ı: "i",
+  "&": " and ",
+  "@": " at ",
+};
+
+/**
+ * Turns arbitrary text into a URL-safe slug of at most `maxLength`
+ * characters, cutting at a word boundary where possible
+ */
+export function slugify(text: string, maxLength = MAX_SLUG_LENGTH) {
+  let slug = text
+    .toLowerCase()
+    .replace(/[ßæœøđðþłı&@]/g, (char) => TRANSLITERATIONS[char])
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+  if (slug.length > maxLength) {
+    const lastBreak = slug.lastIndexOf("-", maxLength);
+    slug = slug
+      .slice(0, lastBreak > maxLength / 2 ? lastBreak : maxLength)
+      .replace(/-+$/, "");
+  }
+  return slug || FALLBACK_SLUG;
+}
+
+/**
+ * Short random suffix of lowercase letters and digits
+ */
+export function randomSlugSuffix(length = SUFFIX_LENGTH) {
+  const alphabet = "abcdefghijklmnopqrstuvwxyz0123456789";
+  return Array.from(
+    crypto.getRandomValues(new Uint8Array(length)),
+    (byte) => alphabet[byte % alphabet.length]
+  ).join("");
+}
+
+/**
+ * Appends a suffix, shortening the slug so the result still fits `maxLength`
+ */
+export function withSlugSuffix(
+  slug: string,
+  suffix: string,
+  maxLength = MAX_SLUG_LENGTH
+) {
+  const base = slug.slice(0, maxLength - suffix.length - 1).replace(/-+$/, "");
+  return `${base || FALLBACK_SLUG}-${suffix}`;
+}
+
+/**
+ * Whether an error is D1 rejecting a duplicate podcast slug
+ */
+export function isSlugConflict(error: unknown) {
+  return String(error).includes("UNIQUE constraint failed: podcasts.slug");
+}
+
+/**
+ * Runs `insert` with the slug, retrying with suffixed slugs while the slug is
+ * already taken
+ * @returns The slug that was inserted and the insert's result
+ */
+export async function insertWithUniqueSlug<T>(
+  slug: string,
+  insert: (slug: string) => Promise<T>,
+  maxAttempts = MAX_INSERT_ATTEMPTS
+): Promise<{ slug: string; result: T }> {
+  for (let attempt = 1; ; attempt++) {
+    const candidate =
+      attempt === 1 ? slug : withSlugSuffix(slug, randomSlugSuffix());
+    try {
+      return { slug: candidate, result: await insert(candidate) };
+    } catch (error) {
+      if (!isSlugConflict(error) || attempt >= maxAttempts) throw error;
+      console.log(`Slug ${candidate} is taken, retrying with a suffix`);
+    }
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Structured tool results
+ * Tools whose results the chat shows as a card return one of these instead
+ * of plain text. The model reads `message`, the client renders the rest.
+ * Failures are still returned as plain text.
+ */
+import type { PodcastJobStatus } from "./podcast-jobs";
+import type { Podcast } from "./podcasts";
+import type { ScheduledTask } from "./schedules";
+import type { PodcastSearchResult } from "./search";
+
+/**
+ * Outcome of createAudioPodcast
+ */
+export type PodcastToolResult = {
+  kind: "podcast";
+  message: string;
+  status: PodcastJobStatus;
+  /** The saved podcast, once the job has completed */
+  podcast: Podcast | null;
+};
+
+/**
+ * Outcome of listRecentPodcasts
+ */
+export type PodcastListToolResult = {
+  kind: "podcast-list";
+  message: string;
+  podcasts: Podcast[];
+};
+
+/**
+ * Outcome of recommendPodcast
+ */
+export type RecommendationToolResult = {
+  kind: "recommendation";
+  message: string;
+  mood: string;
+  /** The podcasts the recommendation points to */
+  podcasts: Podcast[];
+};
+
+/**
+ * Outcome of searchPodcasts
+ */
+export type PodcastSearchToolResult = {
+  kind: "podcast-search";
+  message: string;
+  query: string;
+  results: PodcastSearchResult[];
+};
+
+/**
+ * Outcome of scheduleTask
+ */
+export type ScheduledTaskToolResult = {
+  kind: "scheduled-task";
+  message: string;
+  task: ScheduledTask;
+};
+
+export type ToolResult =
+  | PodcastToolResult
+  | PodcastListToolResult
+  | RecommendationToolResult
+  | PodcastSearchToolResult
+  | ScheduledTaskToolResult;
+
+/**
+ * Whether a tool invocation's result is a structured result of the given kind
+ */
+export function isToolResult<K extends ToolResult["kind"]>(
+  value: unknown,
+  kind: K
+): value is Extract<ToolResult, { kind: K }> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "kind" in value &&
+    value.kind === kind &&
+    "message" in value
+  );
+}
+
+/**
+ * Whether a tool result reports a failure, such as a denied confirmation or
+ * an invalid argument
+ */
+export function isToolError(value: unknown) {
+  return typeof value === "string" && /^(⚠️ |Error\b|Failed\b)/.test(value);
+}
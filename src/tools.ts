@@ -1,38 +1,56 @@
 /**
  * Tool definitions for the AI chat agent
- * Tools can either require human confirmation or execute automatically
+ * Tools either execute automatically or, if they are in the confirmation
+ * policy in shared.ts, wait for the user to approve each call
  */
 import { tool } from "ai";
 import { z } from "zod";
+import { lookupLocalTime } from "./local-time";
+import { resolveScheduleWhen } from "./schedules";
 import { agentContext } from "./server";
+import { TOOL_CONFIRMATIONS } from "./shared";
+import type { ScheduledTaskToolResult } from "./tool-results";
+import { applyConfirmationPolicy } from "./utils";
 
 /**
  * Weather information tool that requires human confirmation
  */
 const getWeatherInformation = tool({
-  description: "show the weather in a given city to the user",
+  description:
+    "show the current weather and a short forecast for a given city to the user",
   parameters: z.object({ city: z.string() }),
-  // Omitting execute function makes this tool require human confirmation
+  execute: async ({ city }) => {
+    const agent = agentContext.getStore();
+    return await agent!.getWeather(city);
+  },
 });
 
 /**
  * Local time tool that executes automatically
  */
 const getLocalTime = tool({
-  description: "get the local time for a specified location",
-  parameters: z.object({ location: z.string() }),
-  execute: async ({ location }) => {
-    console.log(`Getting local time for ${location}`);
-    return "10am";
-  },
+  description:
+    "get the current local time, UTC offset and daylight saving status for a city, country or IANA time zone. If the location is ambiguous, the result lists candidates: ask the user which one they mean instead of picking one.",
+  parameters: z.object({
+    location: z
+      .string()
+      .describe(
+        'a city, optionally with its region or country ("Portland, Oregon"), a country, or an IANA zone ("Asia/Tokyo")'
+      ),
+  }),
+  execute: async ({ location }) => lookupLocalTime(location),
 });
 
 const scheduleTask = tool({
   description:
-    "schedule a task to be executed at a later time. 'when' can be a date, a delay in seconds, or a cron pattern.",
+    "schedule a task to be executed at a later time. 'when' is an ISO 8601 date for 'scheduled', a delay in seconds for 'delayed', or a cron pattern in UTC for 'cron'.",
   parameters: z.object({
     type: z.enum(["scheduled", "delayed", "cron"]),
-    when: z.union([z.number(), z.string()]),
+    when: z
+      .union([z.number().positive(), z.string().min(1)])
+      .describe(
+        "an ISO 8601 date such as '2025-06-01T09:00:00Z', a number of seconds, or a cron pattern such as '0 9 * * 1-5', matching the type"
+      ),
     payload: z.string(),
   }),
   execute: async ({ type, when, payload }) => {
@@ -40,21 +58,45 @@ const scheduleTask = tool({
     if (!agent) {
       throw new Error("No agent found");
     }
+    const resolved = resolveScheduleWhen(type, when);
+    if ("error" in resolved) {
+      return `Error scheduling task: ${resolved.error}`;
+    }
     try {
-      agent.schedule(
-        type === "scheduled"
-          ? new Date(when)
-          : type === "delayed"
-            ? when
-            : when,
-        "executeTask",
-        payload
-      );
+      const schedule = await agent.schedule(resolved.when, "executeTask", payload);
+      const message = `Task scheduled (id: ${schedule.id}) for ${type === "cron" ? `${when} (UTC), first run at ` : ""}${new Date(schedule.time * 1000).toUTCString()}`;
+      const task = agent.getScheduledTasks().find(({ id }) => id === schedule.id);
+      return task ? ({ kind: "scheduled-task", message, task } satisfies ScheduledTaskToolResult) : message;
     } catch (error) {
       console.error("error scheduling task", error);
       return `Error scheduling task: ${error}`;
     }
-    return `Task scheduled for ${when}`;
+  },
+});
+
+/**
+ * Tool for listing scheduled tasks
+ */
+const listScheduledTasks = tool({
+  description: "list the tasks that are scheduled to run later, including podcast series episodes and podcast retries, with their ids",
+  parameters: z.object({}),
+  execute: async () => {
+    const agent = agentContext.getStore();
+    return await agent!.listScheduledTasks();
+  },
+});
+
+/**
+ * Tool for cancelling a scheduled task that requires human confirmation
+ */
+const cancelScheduledTask = tool({
+  description: "cancel a scheduled task by its id, as listed by listScheduledTasks",
+  parameters: z.object({
+    id: z.string().describe("The id of the scheduled task"),
+  }),
+  execute: async ({ id }) => {
+    const agent = agentContext.getStore();
+    return await agent!.cancelScheduledTask(id);
   },
 });
 
@@ -68,7 +110,6 @@ const generatePodcast = tool({
   }),
   execute: async ({ topic }) => {
     const agent = agentContext.getStore();
-    console.log("agent", agent);
     return await agent!.generatePodcast(topic);
   },
 });
@@ -81,11 +122,12 @@ const createAudioPodcast = tool({
   parameters: z.object({
     topic: z.string().describe("A topic to create an audio podcast about"),
     accessibilityMode: z.string().optional().describe("Set to 'accessible' for longer transcript, otherwise 'standard' for shorter format"),
+    format: z.enum(["monologue", "conversation"]).optional().describe("Set to 'conversation' for a dialogue between two hosts with different voices, otherwise 'monologue' for a single narrator"),
   }),
-  execute: async ({ topic, accessibilityMode = "standard" }) => {
+  execute: async ({ topic, accessibilityMode = "standard", format = "monologue" }) => {
     const agent = agentContext.getStore();
     console.log("Creating audio podcast for:", topic);
-    return await agent!.createAudioPodcast(topic, accessibilityMode);
+    return await agent!.createAudioPodcast(topic, accessibilityMode, format);
   },
 });
 
@@ -103,6 +145,25 @@ const listRecentPodcasts = tool({
   },
 });
 
+/**
+ * Tool for full-text search over the user's podcasts
+ */
+const searchPodcasts = tool({
+  description: "Search the user's podcasts by words in their topic, title or script, best matches first",
+  parameters: z.object({
+    query: z.string().describe("The words to search for"),
+    from: z.string().optional().describe("Only podcasts created on or after this day, as YYYY-MM-DD"),
+    to: z.string().optional().describe("Only podcasts created on or before this day, as YYYY-MM-DD"),
+    audioOnly: z.boolean().optional().describe("Only podcasts that have audio"),
+    accessible: z.boolean().optional().describe("Only podcasts made in accessible mode, with a full-length transcript"),
+    limit: z.number().optional().describe("Number of results to return (default: 10, at most 50)"),
+  }),
+  execute: async ({ query, ...filters }) => {
+    const agent = agentContext.getStore();
+    return await agent!.searchPodcasts(query, filters);
+  },
+});
+
 /**
  * Tool for getting podcast recommendations based on mood
  */
@@ -118,24 +179,105 @@ const recommendPodcast = tool({
 });
 
 /**
- * Export all available tools
+ * Tool for creating a recurring podcast series
+ */
+const createPodcastSeries = tool({
+  description: "Create a podcast series that automatically publishes a new audio episode on a topic on a recurring schedule",
+  parameters: z.object({
+    topic: z.string().describe("The topic every episode of the series is about"),
+    cron: z.string().describe("When to publish episodes, as a five-field cron expression in UTC, at most once a day (e.g. '0 8 * * 1' for every Monday at 08:00 UTC)"),
+    name: z.string().optional().describe("A name for the series (default: the topic)"),
+    accessibilityMode: z.string().optional().describe("Set to 'accessible' for longer episodes, otherwise 'standard' for shorter ones"),
+    format: z.enum(["monologue", "conversation"]).optional().describe("Set to 'conversation' for episodes with two hosts, otherwise 'monologue' for a single narrator"),
+  }),
+  execute: async ({ topic, cron, name, accessibilityMode = "standard", format = "monologue" }) => {
+    const agent = agentContext.getStore();
+    return await agent!.createPodcastSeries(topic, cron, format, accessibilityMode, name);
+  },
+});
+
+/**
+ * Tool for listing podcast series
+ */
+const listPodcastSeries = tool({
+  description: "List the user's podcast series with their schedule, status and episodes",
+  parameters: z.object({}),
+  execute: async () => {
+    const agent = agentContext.getStore();
+    return await agent!.listPodcastSeries();
+  },
+});
+
+/**
+ * Tool for pausing a podcast series
  */
-export const tools = {
+const pausePodcastSeries = tool({
+  description: "Pause a podcast series so it stops publishing new episodes",
+  parameters: z.object({
+    series: z.string().describe("The id or name of the series"),
+  }),
+  execute: async ({ series }) => {
+    const agent = agentContext.getStore();
+    return await agent!.pausePodcastSeries(series);
+  },
+});
+
+/**
+ * Tool for resuming a paused podcast series
+ */
+const resumePodcastSeries = tool({
+  description: "Resume a paused podcast series so it publishes episodes on its schedule again",
+  parameters: z.object({
+    series: z.string().describe("The id or name of the series"),
+  }),
+  execute: async ({ series }) => {
+    const agent = agentContext.getStore();
+    return await agent!.resumePodcastSeries(series);
+  },
+});
+
+/**
+ * Tool for deleting a podcast series that requires human confirmation
+ */
+const deletePodcastSeries = tool({
+  description: "Delete a podcast series and its schedule. Episodes that were already published are kept.",
+  parameters: z.object({
+    series: z.string().describe("The id or name of the series"),
+  }),
+  execute: async ({ series }) => {
+    const agent = agentContext.getStore();
+    return await agent!.deletePodcastSeries(series);
+  },
+});
+
+/**
+ * All available tools, each with its execute function
+ */
+const toolDefinitions = {
   getWeatherInformation,
   getLocalTime,
   scheduleTask,
+  listScheduledTasks,
+  cancelScheduledTask,
   generatePodcast,
   createAudioPodcast,
   listRecentPodcasts,
+  searchPodcasts,
   recommendPodcast,
+  createPodcastSeries,
+  listPodcastSeries,
+  pausePodcastSeries,
+  resumePodcastSeries,
+  deletePodcastSeries,
 };
 
+export type ToolName = keyof typeof toolDefinitions;
+
 /**
- * Implementation of confirmation-required tools
+ * The tools for the model, and the implementations of the tools that require
+ * confirmation, which processToolCalls runs once the user approves
  */
-export const executions = {
-  getWeatherInformation: async ({ city }: { city: string }) => {
-    console.log(`Getting weather information for ${city}`);
-    return `The weather in ${city} is sunny`;
-  },
-};
\ No newline at end of file
+export const { tools, executions } = applyConfirmationPolicy(
+  toolDefinitions,
+  TOOL_CONFIRMATIONS
+);
@@ -0,0 +1,251 @@
+/**
+ * Text-to-speech helpers on top of the Workers AI binding
+ */
+import type { Ai } from "@cloudflare/workers-types";
+import { decodeBase64Audio } from "./audio";
+import { DEFAULT_MODELS } from "./models";
+import { concatMp3, mp3Duration } from "./mp3";
+
+/**
+ * A TTS model plus, for models that have several, the speaker to use
+ */
+export type Voice = {
+  model: string;
+  speaker?: string;
+};
+
+/**
+ * Single narrator used for monologue podcasts
+ */
+export const NARRATOR_VOICE: Voice = { model: DEFAULT_MODELS.tts };
+
+/**
+ * Builds the model inputs for a voice: MeloTTS takes a `prompt`, while the
+ * Deepgram Aura models take `text` and a named `speaker`
+ */
+function speechInputs(voice: Voice, text: string) {
+  if (voice.model.startsWith("@cf/deepgram/")) {
+    return { text, speaker: voice.speaker, encoding: "mp3" };
+  }
+  return { prompt: text, lang: "en" };
+}
+
+/**
+ * Normalizes the different shapes TTS models return audio in into raw bytes
+ */
+async function toAudioBytes(output: unknown): Promise<Uint8Array> {
+  if (output instanceof Uint8Array) return output;
+  if (output instanceof ArrayBuffer) return new Uint8Array(output);
+  if (output instanceof Response) {
+    return new Uint8Array(await output.arrayBuffer());
+  }
+  if (output instanceof ReadableStream) {
+    return new Uint8Array(await new Response(output).arrayBuffer());
+  }
+  const audio = (output as { audio?: unknown } | null)?.audio;
+  if (typeof audio === "string" && audio.length > 0) {
+    return decodeBase64Audio(audio);
+  }
+  throw new Error("No audio data returned");
+}
+
+/**
+ * Synthesizes `text` with the given voice and returns the MP3 bytes
+ */
+export async function synthesizeSpeech(
+  ai: Ai,
+  text: string,
+  voice: Voice = NARRATOR_VOICE
+): Promise<Uint8Array> {
+  const output = await ai.run(
+    voice.model as "@cf/myshell-ai/melotts",
+    speechInputs(voice, text) as { prompt: string }
+  );
+  return toAudioBytes(output);
+}
+
+/**
+ * Longest piece of text sent to a TTS model in one call. Longer prompts get
+ * truncated or rejected, so scripts are split into chunks below this size.
+ */
+export const MAX_CHUNK_CHARS = 800;
+
+const CHUNK_CONCURRENCY = 3;
+const CHUNK_RETRIES = 2;
+const RETRY_DELAY_MS = 500;
+
+/**
+ * Splits text into sentences, keeping closing punctuation and quotes
+ */
+export function splitSentences(text: string) {
+  return (text.match(/[^.!?]+(?:[.!?]+["')\]]*|$)\s*/g) ?? [text])
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Splits text into chunks of at most `maxChars`, preferring paragraph
+ * boundaries, then sentence boundaries, and only cutting between words when
+ * a single sentence is too long
+ */
+export function splitIntoChunks(text: string, maxChars = MAX_CHUNK_CHARS) {
+  const pieces: string[] = [];
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const trimmed = paragraph.replace(/\s+/g, " ").trim();
+    if (!trimmed) continue;
+    if (trimmed.length <= maxChars) {
+      pieces.push(trimmed);
+      continue;
+    }
+
+    for (const sentence of splitSentences(trimmed)) {
+      if (sentence.length <= maxChars) {
+        pieces.push(sentence);
+        continue;
+      }
+      // A single runaway sentence: fall back to word boundaries
+      let current = "";
+      for (const word of sentence.split(" ")) {
+        if (current && current.length + word.length + 1 > maxChars) {
+          pieces.push(current);
+          current = "";
+        }
+        current = current ? `${current} ${word}` : word.slice(0, maxChars);
+      }
+      if (current) pieces.push(current);
+    }
+  }
+
+  // Pack neighbouring pieces back together so we make as few calls as possible
+  const chunks: string[] = [];
+  for (const piece of pieces) {
+    const last = chunks[chunks.length - 1];
+    if (last !== undefined && last.length + piece.length + 1 <= maxChars) {
+      chunks[chunks.length - 1] = `${last} ${piece}`;
+    } else {
+      chunks.push(piece);
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Maps over `items` with at most `limit` calls in flight, keeping result order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+  return results;
+}
+
+/**
+ * Runs `fn`, retrying failures with a linearly growing delay
+ */
+export async function withRetries<T>(
+  fn: () => Promise<T>,
+  retries = CHUNK_RETRIES,
+  delayMs = RETRY_DELAY_MS
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries) throw error;
+      console.warn(`TTS attempt ${attempt + 1} failed, retrying:`, error);
+      await new Promise((resolve) =>
+        setTimeout(resolve, delayMs * (attempt + 1))
+      );
+    }
+  }
+}
+
+/**
+ * A stretch of script read by one voice
+ */
+export type SpeechSegment = {
+  text: string;
+  voice?: Voice;
+};
+
+export type SynthesisOptions = {
+  maxChunkChars?: number;
+  concurrency?: number;
+  retries?: number;
+  retryDelayMs?: number;
+};
+
+/**
+ * A chunk of text and how long it takes to say
+ */
+export type SpokenChunk = { text: string; duration: number };
+
+/**
+ * The audio of one segment, plus the chunks it was voiced in
+ */
+export type SynthesizedSegment = { audio: Uint8Array; chunks: SpokenChunk[] };
+
+/**
+ * Synthesizes every segment into its own MP3 clip: segments are split into
+ * size-bounded chunks, chunks are voiced with bounded concurrency and
+ * per-chunk retries, and each segment's chunks are joined frame by frame
+ * @returns One result per segment, in order
+ */
+export async function synthesizeSegments(
+  ai: Ai,
+  segments: SpeechSegment[],
+  {
+    maxChunkChars = MAX_CHUNK_CHARS,
+    concurrency = CHUNK_CONCURRENCY,
+    retries = CHUNK_RETRIES,
+    retryDelayMs = RETRY_DELAY_MS,
+  }: SynthesisOptions = {}
+): Promise<SynthesizedSegment[]> {
+  const chunks = segments.flatMap((segment, index) =>
+    splitIntoChunks(segment.text, maxChunkChars).map((text) => ({
+      text,
+      voice: segment.voice,
+      segment: index,
+    }))
+  );
+  if (chunks.length === 0) {
+    throw new Error("Nothing to synthesize");
+  }
+
+  console.log(`Synthesizing ${chunks.length} TTS chunks`);
+  const clips = await mapWithConcurrency(chunks, concurrency, (chunk) =>
+    withRetries(
+      () => synthesizeSpeech(ai, chunk.text, chunk.voice),
+      retries,
+      retryDelayMs
+    )
+  );
+  return segments.map((_, index) => {
+    const parts = chunks.flatMap((chunk, position) =>
+      chunk.segment === index
+        ? [{ text: chunk.text, clip: clips[position] }]
+        : []
+    );
+    return {
+      audio: concatMp3(parts.map((part) => part.clip)),
+      chunks: parts.map((part) => ({
+        text: part.text,
+        duration: mp3Duration(part.clip),
+      })),
+    };
+  });
+}
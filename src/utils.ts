@@ -47,7 +47,7 @@ export async function processToolCalls<
     [K in keyof Tools & keyof ExecutableTools]?: (
       args: z.infer<ExecutableTools[K]["parameters"]>,
       context: ToolExecutionOptions
-    ) => Promise<unknown>;
+    ) => PromiseLike<unknown>;
   };
 }): Promise<Message[]> {
   const lastMessage = messages[messages.length - 1];
@@ -62,7 +62,7 @@ export async function processToolCalls<
       const { toolInvocation } = part;
       const toolName = toolInvocation.toolName;
 
-      // Only continue if we have an execute function for the tool (meaning it requires confirmation) and it's in a 'result' state
+      // Only continue if the tool requires confirmation and the user has answered
       if (!(toolName in executions) || toolInvocation.state !== "result")
         return part;
 
@@ -116,14 +116,54 @@ export async function processToolCalls<
   return [...messages.slice(0, -1), { ...lastMessage, parts: processedParts }];
 }
 
-// export function getToolsRequiringConfirmation<
-//   T extends ToolSet
-//   // E extends {
-//   //   [K in keyof T as T[K] extends { execute: Function } ? never : K]: T[K];
-//   // },
-// >(tools: T): string[] {
-//   return (Object.keys(tools) as (keyof T)[]).filter((key) => {
-//     const maybeTool = tools[key];
-//     return typeof maybeTool.execute !== "function";
-//   }) as string[];
-// }
+type WithoutExecute<T> = T extends unknown ? Omit<T, "execute"> : never;
+
+type WithConfirmation<Tools extends ToolSet, Confirmed extends keyof Tools> = {
+  [K in keyof Tools]: K extends Confirmed ? WithoutExecute<Tools[K]> : Tools[K];
+};
+
+type ConfirmedExecutions<
+  Tools extends ToolSet,
+  Confirmed extends keyof Tools,
+> = {
+  [K in Confirmed]: NonNullable<Tools[K]["execute"]>;
+};
+
+/**
+ * Applies a confirmation policy to a tool set. Tools in the policy lose their
+ * execute function, so the model's calls to them wait for the user, and the
+ * function moves to `executions` for processToolCalls to run once the user
+ * approves.
+ *
+ * @param allTools - Every tool, each with its execute function
+ * @param policy - The tools that require confirmation
+ * @returns The tools to give the model, and the execute functions of the
+ * tools that require confirmation
+ */
+export function applyConfirmationPolicy<
+  Tools extends ToolSet,
+  Confirmed extends keyof Tools,
+>(
+  allTools: Tools,
+  policy: { [K in Confirmed]: unknown }
+): {
+  tools: WithConfirmation<Tools, Confirmed>;
+  executions: ConfirmedExecutions<Tools, Confirmed>;
+} {
+  const tools: Record<string, unknown> = {};
+  const executions: Record<string, unknown> = {};
+  for (const [name, tool] of Object.entries(allTools)) {
+    if (name in policy) {
+      const { execute, ...withoutExecute } = tool;
+      if (!execute) throw new Error(`Tool ${name} has no execute function`);
+      tools[name] = withoutExecute;
+      executions[name] = execute;
+    } else {
+      tools[name] = tool;
+    }
+  }
+  return {
+    tools: tools as WithConfirmation<Tools, Confirmed>,
+    executions: executions as ConfirmedExecutions<Tools, Confirmed>,
+  };
+}
@@ -0,0 +1,282 @@
+/**
+ * Weather providers
+ * The weather tool talks to a WeatherProvider, which turns a city name into
+ * current conditions and a short daily forecast. The real provider uses the
+ * free Open-Meteo geocoding and forecast APIs, which need no API key.
+ */
+import { z } from "zod";
+
+/** Days of forecast included in a report, today first */
+export const FORECAST_DAYS = 3;
+
+export type WeatherLocation = {
+  name: string;
+  /** State, province or similar, when the geocoder knows it */
+  region: string | null;
+  country: string | null;
+  latitude: number;
+  longitude: number;
+  /** IANA time zone of the location */
+  timezone: string;
+};
+
+export type CurrentWeather = {
+  /** Local time of the observation, ISO 8601 without an offset */
+  time: string;
+  temperature: number;
+  apparentTemperature: number;
+  /** Relative humidity in percent */
+  humidity: number;
+  windSpeed: number;
+  /** WMO weather interpretation code */
+  weatherCode: number;
+  description: string;
+  isDay: boolean;
+};
+
+export type DailyForecast = {
+  /** Local date, YYYY-MM-DD */
+  date: string;
+  temperatureMax: number;
+  temperatureMin: number;
+  /** Highest chance of precipitation during the day in percent, if known */
+  precipitationProbability: number | null;
+  weatherCode: number;
+  description: string;
+};
+
+/**
+ * What the weather tool returns, and the client renders as a weather card
+ */
+export type WeatherReport = {
+  location: WeatherLocation;
+  units: { temperature: "°C"; windSpeed: "km/h" };
+  current: CurrentWeather;
+  daily: DailyForecast[];
+};
+
+export interface WeatherProvider {
+  /**
+   * @throws LocationNotFoundError when the city is unknown
+   * @throws WeatherProviderError when the provider fails or answers with
+   * something unexpected
+   */
+  getWeather(city: string): Promise<WeatherReport>;
+}
+
+/**
+ * Thrown when the geocoder has no match for a city
+ */
+export class LocationNotFoundError extends Error {
+  constructor(readonly city: string) {
+    super(`Could not find a location called "${city}"`);
+    this.name = "LocationNotFoundError";
+  }
+}
+
+/**
+ * Thrown when a weather API fails or answers with the wrong shape
+ */
+export class WeatherProviderError extends Error {
+  constructor(detail: string) {
+    super(`Weather lookup failed: ${detail}`);
+    this.name = "WeatherProviderError";
+  }
+}
+
+// WMO weather interpretation codes as used by Open-Meteo
+const WEATHER_CODES: Record<number, string> = {
+  0: "Clear sky",
+  1: "Mainly clear",
+  2: "Partly cloudy",
+  3: "Overcast",
+  45: "Fog",
+  48: "Depositing rime fog",
+  51: "Light drizzle",
+  53: "Drizzle",
+  55: "Dense drizzle",
+  56: "Light freezing drizzle",
+  57: "Dense freezing drizzle",
+  61: "Slight rain",
+  63: "Rain",
+  65: "Heavy rain",
+  66: "Light freezing rain",
+  67: "Heavy freezing rain",
+  71: "Slight snowfall",
+  73: "Snowfall",
+  75: "Heavy snowfall",
+  77: "Snow grains",
+  80: "Slight rain showers",
+  81: "Rain showers",
+  82: "Violent rain showers",
+  85: "Slight snow showers",
+  86: "Heavy snow showers",
+  95: "Thunderstorm",
+  96: "Thunderstorm with slight hail",
+  99: "Thunderstorm with heavy hail",
+};
+
+/**
+ * Human-readable description of a WMO weather code
+ */
+export function describeWeatherCode(code: number) {
+  return WEATHER_CODES[code] ?? "Unknown conditions";
+}
+
+/**
+ * Whether a tool result is a weather report, as opposed to an error message
+ */
+export function isWeatherReport(value: unknown): value is WeatherReport {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "location" in value &&
+    "current" in value &&
+    "daily" in value
+  );
+}
+
+const geocodingSchema = z.object({
+  // Omitted entirely when nothing matches
+  results: z
+    .array(
+      z.object({
+        name: z.string(),
+        latitude: z.number(),
+        longitude: z.number(),
+        country: z.string().optional(),
+        admin1: z.string().optional(),
+        timezone: z.string(),
+      })
+    )
+    .optional(),
+});
+
+const forecastSchema = z.object({
+  current: z.object({
+    time: z.string(),
+    temperature_2m: z.number(),
+    relative_humidity_2m: z.number(),
+    apparent_temperature: z.number(),
+    is_day: z.number(),
+    weather_code: z.number(),
+    wind_speed_10m: z.number(),
+  }),
+  daily: z.object({
+    time: z.array(z.string()),
+    weather_code: z.array(z.number()),
+    temperature_2m_max: z.array(z.number()),
+    temperature_2m_min: z.array(z.number()),
+    precipitation_probability_max: z.array(z.number().nullable()),
+  }),
+});
+
+export type OpenMeteoOptions = {
+  /** Defaults to the global fetch; tests pass one that serves fixtures */
+  fetch?: typeof fetch;
+  geocodingUrl?: string;
+  forecastUrl?: string;
+};
+
+/**
+ * Weather provider backed by the Open-Meteo APIs
+ * @see https://open-meteo.com/en/docs
+ */
+export function createOpenMeteoProvider({
+  fetch: fetcher = (input, init) => fetch(input, init),
+  geocodingUrl = "https://geocoding-api.open-meteo.com/v1/search",
+  forecastUrl = "https://api.open-meteo.com/v1/forecast",
+}: OpenMeteoOptions = {}): WeatherProvider {
+  async function getJson<T extends z.ZodTypeAny>(
+    url: URL,
+    schema: T
+  ): Promise<z.infer<T>> {
+    let response: Response;
+    try {
+      response = await fetcher(url.toString());
+    } catch (error) {
+      throw new WeatherProviderError(
+        `${url.hostname} is unreachable (${error})`
+      );
+    }
+    if (!response.ok) {
+      throw new WeatherProviderError(
+        `${url.hostname} answered with HTTP ${response.status}`
+      );
+    }
+    const parsed = schema.safeParse(await response.json());
+    if (!parsed.success) {
+      throw new WeatherProviderError(
+        `unexpected response from ${url.hostname}: ${parsed.error.issues
+          .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+          .join(", ")}`
+      );
+    }
+    return parsed.data;
+  }
+
+  async function geocode(city: string): Promise<WeatherLocation> {
+    const url = new URL(geocodingUrl);
+    url.search = new URLSearchParams({
+      name: city,
+      count: "1",
+      language: "en",
+      format: "json",
+    }).toString();
+
+    const { results } = await getJson(url, geocodingSchema);
+    const match = results?.[0];
+    if (!match) throw new LocationNotFoundError(city);
+    return {
+      name: match.name,
+      region: match.admin1 ?? null,
+      country: match.country ?? null,
+      latitude: match.latitude,
+      longitude: match.longitude,
+      timezone: match.timezone,
+    };
+  }
+
+  return {
+    async getWeather(city) {
+      const location = await geocode(city);
+
+      const url = new URL(forecastUrl);
+      url.search = new URLSearchParams({
+        latitude: String(location.latitude),
+        longitude: String(location.longitude),
+        current:
+          "temperature_2m,relative_humidity_2m,apparent_temperature,is_day,weather_code,wind_speed_10m",
+        daily:
+          "weather_code,temperature_2m_max,temperature_2m_min,precipitation_probability_max",
+        timezone: location.timezone,
+        forecast_days: String(FORECAST_DAYS),
+      }).toString();
+      const { current, daily } = await getJson(url, forecastSchema);
+
+      return {
+        location,
+        units: { temperature: "°C", windSpeed: "km/h" },
+        current: {
+          time: current.time,
+          temperature: current.temperature_2m,
+          apparentTemperature: current.apparent_temperature,
+          humidity: current.relative_humidity_2m,
+          windSpeed: current.wind_speed_10m,
+          weatherCode: current.weather_code,
+          description: describeWeatherCode(current.weather_code),
+          isDay: current.is_day === 1,
+        },
+        daily: daily.time.map((date, index) => ({
+          date,
+          temperatureMax: daily.temperature_2m_max[index],
+          temperatureMin: daily.temperature_2m_min[index],
+          precipitationProbability:
+            daily.precipitation_probability_max[index] ?? null,
+          weatherCode: daily.weather_code[index],
+          description: describeWeatherCode(daily.weather_code[index]),
+        })),
+      };
+    },
+  };
+}
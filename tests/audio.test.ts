@@ -0,0 +1,141 @@
+import {
+  createExecutionContext,
+  env,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import { audioKey, moveLegacyAudioToBucket, parseRange } from "../src/audio";
+import { applyMigrations } from "../src/migrations";
+import worker from "../src/server";
+
+const AUDIO = "0123456789";
+
+async function fetchAudio(slug: string, headers: HeadersInit = {}) {
+  const request = new Request(`http://example.com/podcasts/${slug}/audio.mp3`, {
+    headers,
+  });
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(request, env, ctx);
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+describe("parseRange", () => {
+  it("handles open, closed and suffix ranges", () => {
+    expect(parseRange("bytes=2-", 10)).toEqual({ offset: 2, length: 8 });
+    expect(parseRange("bytes=2-4", 10)).toEqual({ offset: 2, length: 3 });
+    expect(parseRange("bytes=5-99", 10)).toEqual({ offset: 5, length: 5 });
+    expect(parseRange("bytes=-3", 10)).toEqual({ offset: 7, length: 3 });
+  });
+
+  it("rejects ranges outside the file and ignores malformed headers", () => {
+    expect(parseRange("bytes=10-", 10)).toBe("unsatisfiable");
+    expect(parseRange("bytes=4-2", 10)).toBe("unsatisfiable");
+    expect(parseRange("bytes=0-1,4-5", 10)).toBeNull();
+    expect(parseRange("items=0-1", 10)).toBeNull();
+    expect(parseRange(null, 10)).toBeNull();
+  });
+});
+
+describe("GET /podcasts/:slug/audio.mp3", () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+    await env.DB.prepare(
+      `INSERT INTO podcasts (topic, slug, url, audio_key)
+       VALUES ('Bread', 'bread', 'https://example.com/p/bread', ?)`
+    )
+      .bind(audioKey("bread"))
+      .run();
+    await env.AUDIO.put(audioKey("bread"), AUDIO, {
+      httpMetadata: { contentType: "audio/mpeg" },
+    });
+  });
+
+  it("serves the whole file", async () => {
+    const response = await fetchAudio("bread");
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("audio/mpeg");
+    expect(response.headers.get("Content-Length")).toBe("10");
+    expect(response.headers.get("Accept-Ranges")).toBe("bytes");
+    expect(response.headers.get("ETag")).toBeTruthy();
+    expect(await response.text()).toBe(AUDIO);
+  });
+
+  it("serves byte ranges", async () => {
+    const response = await fetchAudio("bread", { Range: "bytes=2-5" });
+    expect(response.status).toBe(206);
+    expect(response.headers.get("Content-Range")).toBe("bytes 2-5/10");
+    expect(response.headers.get("Content-Length")).toBe("4");
+    expect(await response.text()).toBe("2345");
+  });
+
+  it("rejects unsatisfiable ranges", async () => {
+    const response = await fetchAudio("bread", { Range: "bytes=20-" });
+    expect(response.status).toBe(416);
+    expect(response.headers.get("Content-Range")).toBe("bytes */10");
+  });
+
+  it("answers conditional requests with 304", async () => {
+    const full = await fetchAudio("bread");
+    await full.arrayBuffer();
+    const etag = full.headers.get("ETag")!;
+    const response = await fetchAudio("bread", { "If-None-Match": etag });
+    expect(response.status).toBe(304);
+  });
+
+  it("returns 404 for unknown podcasts", async () => {
+    const response = await fetchAudio("missing");
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("moveLegacyAudioToBucket", () => {
+  it("moves base64 audio_data rows into the bucket", async () => {
+    await applyMigrations(env.DB);
+    await env.DB.prepare(
+      `INSERT INTO podcasts (topic, slug, url, audio_data)
+       VALUES ('Old', 'old-show', 'https://example.com/old-show', ?)`
+    )
+      .bind(`data:audio/mp3;base64,${btoa("legacy")}`)
+      .run();
+
+    expect(await moveLegacyAudioToBucket(env.DB, env.AUDIO)).toBe(1);
+    expect(await moveLegacyAudioToBucket(env.DB, env.AUDIO)).toBe(0);
+
+    const row = await env.DB.prepare(
+      "SELECT audio_key, audio_size, audio_data FROM podcasts"
+    ).first();
+    expect(row).toEqual({
+      audio_key: audioKey("old-show"),
+      audio_size: 6,
+      audio_data: null,
+    });
+    expect(await (await env.AUDIO.get(audioKey("old-show")))?.text()).toBe(
+      "legacy"
+    );
+  });
+
+  it("skips rows that can't be moved and carries on", async () => {
+    await applyMigrations(env.DB);
+    await env.DB.prepare(
+      `INSERT INTO podcasts (topic, slug, url, audio_data)
+       VALUES ('Broken', 'broken-show', 'https://example.com/broken-show', ?),
+              ('Old', 'old-show', 'https://example.com/old-show', ?)`
+    )
+      .bind(
+        "data:audio/mp3;base64,%%%",
+        `data:audio/mp3;base64,${btoa("legacy")}`
+      )
+      .run();
+
+    expect(await moveLegacyAudioToBucket(env.DB, env.AUDIO, 1)).toBe(1);
+
+    const { results } = await env.DB.prepare(
+      "SELECT slug, audio_key FROM podcasts ORDER BY id"
+    ).all();
+    expect(results).toEqual([
+      { slug: "broken-show", audio_key: null },
+      { slug: "old-show", audio_key: audioKey("old-show") },
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  createExecutionContext,
+  env,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import { describe, expect, it } from "vitest";
+import {
+  agentInstanceName,
+  authenticate,
+  SESSION_COOKIE,
+  serveSession,
+  signSessionToken,
+  verifySessionToken,
+} from "../src/auth";
+import worker from "../src/server";
+
+const SECRET = "test-secret";
+
+async function fetchWorker(request: Request) {
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(request, env, ctx);
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+describe("session tokens", () => {
+  it("verifies tokens it signed", async () => {
+    const token = await signSessionToken("user-1", SECRET);
+    expect(await verifySessionToken(token, SECRET)).toBe("user-1");
+  });
+
+  it("rejects forged and malformed tokens", async () => {
+    const token = await signSessionToken("user-1", SECRET);
+    const signature = token.slice(token.indexOf("."));
+
+    expect(await verifySessionToken(`user-2${signature}`, SECRET)).toBeNull();
+    expect(await verifySessionToken(token, "another-secret")).toBeNull();
+    expect(await verifySessionToken("user-1", SECRET)).toBeNull();
+    expect(await verifySessionToken("user-1.!!!", SECRET)).toBeNull();
+  });
+
+  it("reads the token from a cookie or bearer header", async () => {
+    const token = await signSessionToken("user-1", SECRET);
+    const fromCookie = new Request("https://example.com", {
+      headers: { Cookie: `theme=dark; ${SESSION_COOKIE}=${token}` },
+    });
+    const fromHeader = new Request("https://example.com", {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+
+    expect(await authenticate(fromCookie, SECRET)).toBe("user-1");
+    expect(await authenticate(fromHeader, SECRET)).toBe("user-1");
+    expect(
+      await authenticate(new Request("https://example.com"), SECRET)
+    ).toBeNull();
+  });
+});
+
+describe("sessions", () => {
+  it("starts a session for new visitors and keeps existing ones", async () => {
+    const response = await serveSession(
+      new Request("https://example.com/api/session"),
+      SECRET
+    );
+    const { userId } = await response.json<{ userId: string }>();
+    const cookie = response.headers.get("Set-Cookie")!;
+    expect(cookie).toContain("HttpOnly");
+    expect(cookie).toContain("Secure");
+
+    const token = cookie.split(";")[0].split("=")[1];
+    expect(await verifySessionToken(token, SECRET)).toBe(userId);
+
+    const again = await serveSession(
+      new Request("https://example.com/api/session", {
+        headers: { Cookie: `${SESSION_COOKIE}=${token}` },
+      }),
+      SECRET
+    );
+    expect(await again.json()).toEqual({ userId });
+    expect(again.headers.get("Set-Cookie")).toBeNull();
+  });
+
+  it("finds the agent instance name in agent paths", () => {
+    expect(agentInstanceName("/agents/chat/user-1")).toBe("user-1");
+    expect(agentInstanceName("/agents/chat/user-1/get-messages")).toBe(
+      "user-1"
+    );
+    expect(agentInstanceName("/feed.xml")).toBeNull();
+    expect(() => agentInstanceName("/agents/chat/%E0")).toThrow(URIError);
+  });
+
+  it("only lets users reach their own agent", async () => {
+    const url = "http://example.com/agents/chat/user-1/get-messages";
+    expect((await fetchWorker(new Request(url))).status).toBe(401);
+
+    const token = await signSessionToken("user-2", env.SESSION_SECRET);
+    const response = await fetchWorker(
+      new Request(url, { headers: { Authorization: `Bearer ${token}` } })
+    );
+    expect(response.status).toBe(403);
+    await response.text();
+  });
+
+  it("rejects agent names that aren't valid percent-encoding", async () => {
+    const token = await signSessionToken("user-1", env.SESSION_SECRET);
+    const response = await fetchWorker(
+      new Request("http://example.com/agents/chat/%E0/get-messages", {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+    );
+    expect(response.status).toBe(400);
+    await response.text();
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  createExecutionContext,
+  env,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import { audioKey } from "../src/audio";
+import {
+  captionCues,
+  captionLines,
+  formatCueTime,
+  renderSrt,
+  renderWebVtt,
+  storeCaptions,
+} from "../src/captions";
+import { applyMigrations } from "../src/migrations";
+import worker from "../src/server";
+
+describe("captionCues", () => {
+  it("wraps long sentences between words", () => {
+    expect(captionLines("Short one. alpha beta gamma delta", 12)).toEqual([
+      "Short one.",
+      "alpha beta",
+      "gamma delta",
+    ]);
+  });
+
+  it("shares each chunk's duration between its sentences by length", () => {
+    const cues = captionCues([
+      { text: "Hi. Hello.", duration: 3 },
+      { text: "Bread & <butter>.", duration: 2, speaker: "Host B" },
+    ]);
+    expect(cues).toEqual([
+      { start: 0, end: 1, text: "Hi." },
+      { start: 1, end: 3, text: "Hello." },
+      { start: 3, end: 5, text: "Bread & <butter>.", speaker: "Host B" },
+    ]);
+  });
+
+  it("formats cue times for WebVTT and SRT", () => {
+    expect(formatCueTime(3725.4567)).toBe("01:02:05.457");
+    expect(formatCueTime(0.5, ",")).toBe("00:00:00,500");
+  });
+
+  it("renders WebVTT with voice spans and SRT with labels", () => {
+    const cues = [
+      { start: 0, end: 1.5, text: "Hi." },
+      { start: 1.5, end: 3, text: "Bread & <butter>.", speaker: "Host B" },
+    ];
+    expect(renderWebVtt(cues)).toBe(
+      "WEBVTT\n\n" +
+        "00:00:00.000 --> 00:00:01.500\nHi.\n\n" +
+        "00:00:01.500 --> 00:00:03.000\n<v Host B>Bread &amp; &lt;butter&gt;.\n"
+    );
+    expect(renderSrt(cues)).toBe(
+      "1\n00:00:00,000 --> 00:00:01,500\nHi.\n\n" +
+        "2\n00:00:01,500 --> 00:00:03,000\nHost B: Bread & <butter>.\n"
+    );
+  });
+});
+
+describe("GET /podcasts/:slug/transcript.:format", () => {
+  const cues = [{ start: 0, end: 2, text: "Welcome to the show." }];
+
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+    await env.DB.prepare(
+      `INSERT INTO podcasts (topic, slug, url, audio_key, has_captions)
+       VALUES ('Bread', 'bread', 'https://example.com/p/bread', ?, 1)`
+    )
+      .bind(audioKey("bread"))
+      .run();
+    await storeCaptions(env.AUDIO, audioKey("bread"), cues);
+  });
+
+  async function fetchTranscript(path: string) {
+    const ctx = createExecutionContext();
+    const response = await worker.fetch(
+      new Request(`http://example.com${path}`),
+      env,
+      ctx
+    );
+    await waitOnExecutionContext(ctx);
+    return response;
+  }
+
+  it("serves WebVTT and SRT transcripts", async () => {
+    const vtt = await fetchTranscript("/podcasts/bread/transcript.vtt");
+    expect(vtt.status).toBe(200);
+    expect(vtt.headers.get("Content-Type")).toBe("text/vtt; charset=utf-8");
+    expect(await vtt.text()).toBe(renderWebVtt(cues));
+
+    const srt = await fetchTranscript("/podcasts/bread/transcript.srt");
+    expect(srt.headers.get("Content-Type")).toBe(
+      "application/x-subrip; charset=utf-8"
+    );
+    expect(await srt.text()).toBe(renderSrt(cues));
+  });
+
+  it("returns 404 for podcasts without captions", async () => {
+    await env.DB.prepare("UPDATE podcasts SET has_captions = 0").run();
+    const response = await fetchTranscript("/podcasts/bread/transcript.vtt");
+    expect(response.status).toBe(404);
+    await response.text();
+  });
+});
@@ -0,0 +1,141 @@
+import {
+  createExecutionContext,
+  env,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import { audioKey } from "../src/audio";
+import {
+  chapterMarkers,
+  podcastChaptersJson,
+  storeChapters,
+  writeId3Chapters,
+} from "../src/chapters";
+import { applyMigrations } from "../src/migrations";
+import { findFrames, id3v2Size } from "../src/mp3";
+import worker from "../src/server";
+import { mp3File } from "./mp3-fixtures";
+
+type Id3Frame = { id: string; body: Uint8Array };
+
+// Reads the frames of an ID3v2.3 frame list
+function readFrames(bytes: Uint8Array): Id3Frame[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const frames: Id3Frame[] = [];
+  for (let offset = 0; offset + 10 <= bytes.length; ) {
+    const id = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4);
+    frames.push({ id, body: bytes.subarray(offset + 10, offset + 10 + size) });
+    offset += 10 + size;
+  }
+  return frames;
+}
+
+function readText(frame: Id3Frame) {
+  const [encoding, ...rest] = frame.body;
+  return encoding === 0
+    ? String.fromCharCode(...rest)
+    : new TextDecoder("utf-16le").decode(Uint8Array.from(rest.slice(2)));
+}
+
+const markers = chapterMarkers(["Intro", "Crème brûlée"], [1.5, 2.25]);
+
+describe("chapterMarkers", () => {
+  it("lays chapters end to end", () => {
+    expect(markers).toEqual([
+      { title: "Intro", startTime: 0, endTime: 1.5 },
+      { title: "Crème brûlée", startTime: 1.5, endTime: 3.75 },
+    ]);
+  });
+
+  it("builds a Podcasting 2.0 chapters document", () => {
+    expect(JSON.parse(podcastChaptersJson(markers))).toEqual({
+      version: "1.2.0",
+      chapters: [
+        { startTime: 0, endTime: 1.5, title: "Intro" },
+        { startTime: 1.5, endTime: 3.75, title: "Crème brûlée" },
+      ],
+    });
+  });
+});
+
+describe("writeId3Chapters", () => {
+  const mp3 = mp3File(3);
+  const tagged = writeId3Chapters(mp3, "Desserts 🍮", markers);
+  const tagSize = id3v2Size(tagged);
+  const frames = readFrames(tagged.subarray(10, tagSize));
+
+  it("replaces the tag and keeps the audio frames", () => {
+    expect(tagged[3]).toBe(3);
+    expect(tagged.subarray(tagSize)).toEqual(mp3.subarray(id3v2Size(mp3)));
+    expect(findFrames(tagged)).toHaveLength(3);
+  });
+
+  it("writes a table of contents and one CHAP frame per marker", () => {
+    expect(frames.map((frame) => frame.id)).toEqual([
+      "TIT2",
+      "CTOC",
+      "CHAP",
+      "CHAP",
+    ]);
+    expect(readText(frames[0])).toBe("Desserts 🍮");
+
+    const toc = frames[1].body;
+    expect(String.fromCharCode(...toc.subarray(0, 4))).toBe("toc\0");
+    expect([toc[4], toc[5]]).toEqual([0x03, 2]);
+    expect(String.fromCharCode(...toc.subarray(6, 16))).toBe("chp0\0chp1\0");
+
+    const chapters = frames.slice(2).map(({ body }) => {
+      const view = new DataView(body.buffer, body.byteOffset);
+      return {
+        id: String.fromCharCode(...body.subarray(0, 4)),
+        start: view.getUint32(5),
+        end: view.getUint32(9),
+        title: readText(readFrames(body.subarray(21))[0]),
+      };
+    });
+    expect(chapters).toEqual([
+      { id: "chp0", start: 0, end: 1500, title: "Intro" },
+      { id: "chp1", start: 1500, end: 3750, title: "Crème brûlée" },
+    ]);
+  });
+});
+
+describe("GET /podcasts/:slug/chapters.json", () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+    await env.DB.prepare(
+      `INSERT INTO podcasts (topic, slug, url, audio_key)
+       VALUES ('Bread', 'bread', 'https://example.com/p/bread', ?)`
+    )
+      .bind(audioKey("bread"))
+      .run();
+    await storeChapters(env.AUDIO, audioKey("bread"), markers);
+  });
+
+  async function fetchChapters(slug: string) {
+    const ctx = createExecutionContext();
+    const response = await worker.fetch(
+      new Request(`http://example.com/podcasts/${slug}/chapters.json`),
+      env,
+      ctx
+    );
+    await waitOnExecutionContext(ctx);
+    return response;
+  }
+
+  it("serves the chapters file", async () => {
+    const response = await fetchChapters("bread");
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe(
+      "application/json+chapters"
+    );
+    expect(await response.text()).toBe(podcastChaptersJson(markers));
+  });
+
+  it("returns 404 for podcasts without chapters", async () => {
+    const response = await fetchChapters("missing");
+    expect(response.status).toBe(404);
+    await response.text();
+  });
+});
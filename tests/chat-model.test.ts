@@ -0,0 +1,66 @@
+import { env } from "cloudflare:test";
+import { describe, expect, it } from "vitest";
+import {
+  type ChatModelEnv,
+  chatModelConfigError,
+  createChatModel,
+  resolveChatProvider,
+} from "../src/chat-model";
+
+function modelEnv(vars: Omit<ChatModelEnv, "AI">): ChatModelEnv {
+  return { AI: env.AI, ...vars };
+}
+
+describe("chat model providers", () => {
+  it("defaults to OpenAI with a key and Workers AI without one", () => {
+    expect(resolveChatProvider(modelEnv({ OPENAI_API_KEY: "sk-test" }))).toBe(
+      "openai"
+    );
+    expect(resolveChatProvider(modelEnv({}))).toBe("workers-ai");
+    expect(chatModelConfigError(modelEnv({}))).toBeNull();
+  });
+
+  it("reports missing or invalid settings", () => {
+    expect(chatModelConfigError(modelEnv({ LLM_PROVIDER: "openai" }))).toBe(
+      "OPENAI_API_KEY is not set"
+    );
+    expect(
+      chatModelConfigError(modelEnv({ LLM_PROVIDER: "openai-compatible" }))
+    ).toBe("LLM_BASE_URL is not set");
+    expect(
+      chatModelConfigError(
+        modelEnv({
+          LLM_PROVIDER: "openai-compatible",
+          LLM_BASE_URL: "https://llm.example.com/v1",
+        })
+      )
+    ).toBe("LLM_MODEL is not set");
+    expect(
+      chatModelConfigError(modelEnv({ LLM_PROVIDER: "anthropic" }))
+    ).toMatch(/^LLM_PROVIDER must be one of/);
+    expect(() => createChatModel(modelEnv({ LLM_PROVIDER: "openai" }))).toThrow(
+      "OPENAI_API_KEY is not set"
+    );
+  });
+
+  it("creates the configured model", () => {
+    const openai = createChatModel(modelEnv({ OPENAI_API_KEY: "sk-test" }));
+    expect(openai.modelId).toBe("gpt-4o-2024-11-20");
+
+    const workersAI = createChatModel(
+      modelEnv({ LLM_MODEL: "@cf/meta/llama-3.3-70b-instruct-fp8-fast" })
+    );
+    expect(workersAI.provider).toBe("workersai.chat");
+    expect(workersAI.modelId).toBe("@cf/meta/llama-3.3-70b-instruct-fp8-fast");
+
+    const compatible = createChatModel(
+      modelEnv({
+        LLM_PROVIDER: "openai-compatible",
+        LLM_BASE_URL: "https://llm.example.com/v1",
+        LLM_MODEL: "mistral-large",
+      })
+    );
+    expect(compatible.provider).toMatch(/^openai-compatible/);
+    expect(compatible.modelId).toBe("mistral-large");
+  });
+});
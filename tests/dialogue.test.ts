@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+import { type DialogueTurn, formatTranscript } from "../src/dialogue";
+
+const turns: DialogueTurn[] = [
+  { speaker: "A", text: "Hi there." },
+  { speaker: "B", text: "Hello!" },
+];
+
+describe("formatTranscript", () => {
+  it("labels each turn with its host", () => {
+    expect(formatTranscript(turns)).toBe("Host A: Hi there.\n\nHost B: Hello!");
+  });
+});
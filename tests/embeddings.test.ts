@@ -0,0 +1,256 @@
+import { env } from "cloudflare:test";
+import type { Ai, Vectorize } from "@cloudflare/workers-types";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  backfillPodcastEmbeddings,
+  cosineSimilarity,
+  createD1VectorIndex,
+  createVectorizeIndex,
+  createWorkersAIEmbedder,
+  podcastEmbeddingText,
+} from "../src/embeddings";
+import { applyMigrations } from "../src/migrations";
+import { DEFAULT_MODELS, ModelResponseError } from "../src/models";
+import { createFakeAI } from "./fake-ai";
+import { createStubEmbedder, stubEmbedding } from "./fake-embedder";
+import { withChat } from "./with-chat";
+
+const OWNER_ID = "embeddings-test";
+const MODEL = DEFAULT_MODELS.embedding;
+
+async function insertPodcast(
+  slug: string,
+  topic: string,
+  fields: { description?: string; tags?: string[]; ownerId?: string } = {}
+) {
+  const { meta } = await env.DB.prepare(
+    `INSERT INTO podcasts (topic, slug, url, description, tags, owner_id)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  )
+    .bind(
+      topic,
+      slug,
+      `https://example.com/p/${slug}`,
+      fields.description ?? null,
+      fields.tags ? JSON.stringify(fields.tags) : null,
+      fields.ownerId ?? OWNER_ID
+    )
+    .run();
+  return meta.last_row_id;
+}
+
+async function countEmbeddings(model = MODEL) {
+  return env.DB.prepare(
+    "SELECT COUNT(*) AS count FROM podcast_embeddings WHERE model = ?"
+  )
+    .bind(model)
+    .first<number>("count");
+}
+
+describe("embedding helpers", () => {
+  it("compares vectors by direction", () => {
+    expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 3])).toBe(0);
+    expect(cosineSimilarity([1, 1], [-1, -1])).toBeCloseTo(-1);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+    expect(cosineSimilarity([1], [1, 0])).toBe(0);
+  });
+
+  it("embeds what a podcast is about", () => {
+    expect(
+      podcastEmbeddingText({
+        topic: "Audio: baking",
+        title: "Learning to Bake Bread",
+        description: "A short guide.",
+        tags: '["Baking","bread"]',
+        takeaways: '["Let the dough rest"]',
+      })
+    ).toBe(
+      "Learning to Bake Bread\nAudio: baking\nA short guide.\nTags: Baking, bread\nLet the dough rest"
+    );
+    expect(
+      podcastEmbeddingText({
+        topic: "baking",
+        title: null,
+        description: null,
+        tags: null,
+        takeaways: null,
+      })
+    ).toBe("baking");
+  });
+
+  it("checks the shape of Workers AI embeddings", async () => {
+    const embedder = (output: unknown) =>
+      createWorkersAIEmbedder(
+        { run: async () => output } as unknown as Ai,
+        MODEL
+      );
+
+    expect(
+      await embedder({ shape: [1, 2], data: [[0.5, 1]] }).embed(["bread"])
+    ).toEqual([[0.5, 1]]);
+    await expect(embedder({ data: [] }).embed(["bread"])).rejects.toThrow(
+      "expected 1 vectors, got 0"
+    );
+    await expect(embedder({ response: "" }).embed(["bread"])).rejects.toThrow(
+      ModelResponseError
+    );
+  });
+});
+
+describe("podcast vector indexes", () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+  });
+
+  it("backfills embeddings and finds the closest podcasts in D1", async () => {
+    const bread = await insertPodcast("bread", "baking bread", {
+      tags: ["sourdough"],
+    });
+    const space = await insertPodcast("space", "rockets and planets");
+    await insertPodcast("theirs", "baking bread", { ownerId: "someone-else" });
+
+    const embedder = createStubEmbedder();
+    const index = createD1VectorIndex(env.DB, MODEL);
+    expect(
+      await backfillPodcastEmbeddings(env.DB, embedder, index, OWNER_ID)
+    ).toBe(2);
+    expect(
+      await backfillPodcastEmbeddings(env.DB, embedder, index, OWNER_ID)
+    ).toBe(0);
+
+    const similar = await index.query(stubEmbedding("sourdough"), OWNER_ID, 5);
+    expect(similar.map((match) => match.podcastId)).toEqual([bread, space]);
+    expect(similar[0].score).toBeGreaterThan(similar[1].score);
+    expect(
+      await index.query(stubEmbedding("sourdough"), OWNER_ID, 1)
+    ).toHaveLength(1);
+  });
+
+  it("embeds podcasts again when the model changes", async () => {
+    await insertPodcast("bread", "baking bread");
+    const index = createD1VectorIndex(env.DB, MODEL);
+    await backfillPodcastEmbeddings(
+      env.DB,
+      createStubEmbedder(),
+      index,
+      OWNER_ID
+    );
+
+    const newModel = "@cf/baai/bge-large-en-v1.5";
+    const newIndex = createD1VectorIndex(env.DB, newModel);
+    // Vectors from another model aren't comparable
+    expect(await newIndex.query(stubEmbedding("bread"), OWNER_ID, 5)).toEqual(
+      []
+    );
+    expect(
+      await backfillPodcastEmbeddings(
+        env.DB,
+        createStubEmbedder(newModel),
+        newIndex,
+        OWNER_ID
+      )
+    ).toBe(1);
+    expect(await countEmbeddings(newModel)).toBe(1);
+    expect(await countEmbeddings(MODEL)).toBe(0);
+  });
+
+  it("searches Vectorize by owner when it's bound", async () => {
+    const bread = await insertPodcast("bread", "baking bread");
+    const upserted: unknown[] = [];
+    const queries: unknown[] = [];
+    const vectorize = {
+      upsert: async (vectors: unknown[]) => {
+        upserted.push(...vectors);
+        return { mutationId: "1" };
+      },
+      query: async (_vector: number[], options: unknown) => {
+        queries.push(options);
+        return { count: 1, matches: [{ id: String(bread), score: 0.9 }] };
+      },
+    } as unknown as Vectorize;
+
+    const index = createVectorizeIndex(vectorize, env.DB, MODEL);
+    await backfillPodcastEmbeddings(
+      env.DB,
+      createStubEmbedder(),
+      index,
+      OWNER_ID
+    );
+    expect(upserted).toEqual([
+      {
+        id: String(bread),
+        values: stubEmbedding("baking bread"),
+        metadata: { owner_id: OWNER_ID, model: MODEL },
+      },
+    ]);
+    // D1 still records which podcasts have been embedded
+    expect(await countEmbeddings()).toBe(1);
+
+    expect(await index.query([1, 0], OWNER_ID, 3)).toEqual([
+      { podcastId: bread, score: 0.9 },
+    ]);
+    expect(queries).toEqual([{ topK: 3, filter: { owner_id: OWNER_ID } }]);
+  });
+});
+
+describe("semantic recommendations", () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+  });
+
+  it("embeds podcasts when they're saved", async () => {
+    await withChat(OWNER_ID, (chat) => chat.createAudioPodcast("baking"));
+    expect(await countEmbeddings()).toBe(1);
+  });
+
+  it("only shows the model the podcasts closest to the mood", async () => {
+    await insertPodcast("bread", "baking bread at home");
+    for (let i = 0; i < 6; i++) {
+      await insertPodcast(`space-${i}`, `rockets and planets part ${i}`);
+    }
+
+    const ai = createFakeAI();
+    const recommendation = await withChat(
+      OWNER_ID,
+      (chat) => chat.recommendPodcast("something about baking"),
+      { ai }
+    );
+    // The fake answer names no podcast, so the closest one is shown
+    expect(recommendation).toMatchObject({
+      kind: "recommendation",
+      podcasts: [expect.objectContaining({ slug: "bread" })],
+    });
+
+    // Existing podcasts were embedded before searching
+    expect(await countEmbeddings()).toBe(7);
+    const prompt = ai.calls.find((call) => call.inputs.messages)?.inputs
+      .messages?.[1].content;
+    expect(prompt).toMatch(/1\. Title: "baking bread at home"/);
+    expect(prompt?.match(/Title:/g)).toHaveLength(5);
+  });
+
+  it("falls back to full-text search when embedding fails", async () => {
+    await insertPodcast("bread", "baking bread");
+    await insertPodcast("space", "rockets and planets");
+
+    const recommendation = await withChat(
+      OWNER_ID,
+      (chat) => chat.recommendPodcast("bread"),
+      { ai: createFakeAI({ embeddingFailures: 1, emptyResponses: 1 }) }
+    );
+    expect(recommendation).toMatchObject({
+      message: expect.stringContaining("Found a matching podcast"),
+      podcasts: [expect.objectContaining({ slug: "bread" })],
+    });
+
+    const nothing = await withChat(
+      OWNER_ID,
+      (chat) => chat.recommendPodcast("cooking"),
+      { ai: createFakeAI({ embeddingFailures: 1 }) }
+    );
+    expect(nothing).toBe(
+      `😔 No podcasts found matching "cooking". Try generating some podcasts with topics you're interested in first!`
+    );
+  });
+});
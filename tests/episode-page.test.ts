@@ -0,0 +1,93 @@
+import {
+  createExecutionContext,
+  env,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import { audioKey } from "../src/audio";
+import { applyMigrations } from "../src/migrations";
+import worker from "../src/server";
+
+async function fetchPage(path: string) {
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(
+    new Request(`http://example.com${path}`),
+    env,
+    ctx
+  );
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+describe("GET /p/:slug", () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+    await env.DB.prepare(
+      `INSERT INTO podcasts (topic, slug, url, script, audio_key, created_at)
+       VALUES (?, 'bread', 'http://localhost:5173/p/bread', ?, ?, '2025-06-01 12:00:00')`
+    )
+      .bind(
+        "Bread & <Butter>",
+        "Welcome to the show.\n\nToday: sourdough.",
+        audioKey("bread")
+      )
+      .run();
+  });
+
+  it("renders the episode with transcript and audio player", async () => {
+    const response = await fetchPage("/p/bread");
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toContain("text/html");
+
+    const html = await response.text();
+    expect(html).toContain("<h1>Bread &amp; &lt;Butter&gt;</h1>");
+    expect(html).toContain("<p>Welcome to the show.</p>");
+    expect(html).toContain("<p>Today: sourdough.</p>");
+    expect(html).toContain('src="/podcasts/bread/audio.mp3"');
+    expect(html).toContain('datetime="2025-06-01T12:00:00.000Z"');
+  });
+
+  it("renders the structured script with show notes", async () => {
+    await env.DB.prepare(
+      `INSERT INTO podcasts (topic, slug, url, script, title, description, chapters, takeaways, tags)
+       VALUES ('bread', 'sourdough', 'x', 'Flat transcript', ?, ?, ?, ?, ?)`
+    )
+      .bind(
+        "Sourdough Basics",
+        "Starters explained.",
+        JSON.stringify([{ heading: "The starter", text: "Feed it daily." }]),
+        JSON.stringify(["Be patient"]),
+        JSON.stringify(["baking"])
+      )
+      .run();
+
+    const html = await (await fetchPage("/p/sourdough")).text();
+    expect(html).toContain("<h1>Sourdough Basics</h1>");
+    expect(html).toContain(
+      '<meta name="description" content="Starters explained.">'
+    );
+    expect(html).toContain("<h3>The starter</h3>\n<p>Feed it daily.</p>");
+    expect(html).toContain("<li>Be patient</li>");
+    expect(html).toContain('<span class="tag">baking</span>');
+    expect(html).not.toContain("Flat transcript");
+  });
+
+  it("returns a 404 page for unknown slugs", async () => {
+    const response = await fetchPage("/p/missing");
+    expect(response.status).toBe(404);
+    expect(await response.text()).toContain("Episode not found");
+  });
+
+  it("returns 404 for slugs that aren't valid percent-encoding", async () => {
+    for (const path of [
+      "/p/%E0",
+      "/podcasts/%E0/audio.mp3",
+      "/podcasts/%E0/chapters.json",
+      "/podcasts/%E0/transcript.vtt",
+    ]) {
+      const response = await fetchPage(path);
+      expect(response.status).toBe(404);
+      await response.text();
+    }
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  episodeScriptMessages,
+  parseEpisodeScript,
+  scriptTranscript,
+} from "../src/episode-script";
+import { FAKE_DIALOGUE, FAKE_EPISODE } from "./fake-ai";
+
+describe("parseEpisodeScript", () => {
+  it("accepts JSON wrapped in prose and a code fence", () => {
+    const output = `Sure!\n\`\`\`json\n${JSON.stringify(FAKE_EPISODE)}\n\`\`\``;
+    const result = parseEpisodeScript(output, "monologue");
+    expect(result).toEqual({
+      script: {
+        title: "Learning to Bake Bread",
+        description: FAKE_EPISODE.description,
+        chapters: [
+          { heading: "Getting started", text: "Flour, water, salt and yeast." },
+          { heading: "Baking", text: "Bake until the crust is golden." },
+        ],
+        takeaways: FAKE_EPISODE.takeaways,
+        tags: ["baking", "bread"],
+      },
+    });
+  });
+
+  it("labels conversation turns with their hosts", () => {
+    const output = JSON.stringify({
+      ...FAKE_EPISODE,
+      chapters: [{ heading: "Bread talk", turns: FAKE_DIALOGUE.slice(0, 2) }],
+    });
+    const result = parseEpisodeScript(output, "conversation");
+    if (!("script" in result)) throw new Error(result.error);
+
+    const [chapter] = result.script.chapters;
+    expect(chapter.turns).toEqual(FAKE_DIALOGUE.slice(0, 2));
+    expect(scriptTranscript(result.script)).toBe(
+      "Host A: Welcome to the show!\n\nHost B: Today we talk about bread."
+    );
+  });
+
+  it("describes what is wrong with invalid output", () => {
+    expect(parseEpisodeScript("no json here", "monologue")).toEqual({
+      error: "the output does not contain a JSON object",
+    });
+    expect(parseEpisodeScript("{ title: 1 }", "monologue")).toMatchObject({
+      error: expect.stringContaining("malformed"),
+    });
+
+    const { takeaways, ...missing } = FAKE_EPISODE;
+    const result = parseEpisodeScript(
+      JSON.stringify({ ...missing, chapters: [] }),
+      "monologue"
+    );
+    expect(result).toMatchObject({
+      error: expect.stringMatching(/takeaways: Required; chapters: /),
+    });
+  });
+});
+
+describe("episodeScriptMessages", () => {
+  it("asks for the chapter shape of the format", () => {
+    const [, narrated] = episodeScriptMessages("bread", false, "monologue");
+    const [, conversation] = episodeScriptMessages(
+      "bread",
+      false,
+      "conversation"
+    );
+    expect(narrated.content).toContain('"body"');
+    expect(conversation.content).toContain('"turns"');
+  });
+});
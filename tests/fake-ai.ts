@@ -0,0 +1,117 @@
+import { DEFAULT_MODELS } from "../src/models";
+import { stubEmbedding } from "./fake-embedder";
+import { mp3File } from "./mp3-fixtures";
+
+type Message = { role: string; content: string };
+type Inputs = {
+  messages?: Message[];
+  prompt?: string;
+  text?: string | string[];
+};
+
+// Answer to every text prompt that doesn't ask for an episode script
+export const FAKE_RESPONSE = "learning-to-bake-bread";
+
+export const FAKE_DIALOGUE = [
+  { speaker: "A", text: "Welcome to the show!" },
+  { speaker: "B", text: "Today we talk about bread." },
+  { speaker: "A", text: "Thanks for listening." },
+];
+
+export const FAKE_EPISODE = {
+  title: "Learning to Bake Bread",
+  description: "A short guide to baking your first loaf.",
+  chapters: [
+    { heading: "Getting started", body: "Flour, water, salt and yeast." },
+    { heading: "Baking", body: "Bake until the crust is golden." },
+  ],
+  takeaways: ["Bread needs only four ingredients", "Let the dough rest"],
+  tags: ["Baking", "bread"],
+};
+
+function toBase64(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+export type FakeAIOptions = {
+  /** Number of TTS calls that throw before TTS starts working */
+  ttsFailures?: number;
+  /** Number of text model calls that return an empty response */
+  emptyResponses?: number;
+  /** Number of embedding model calls that throw */
+  embeddingFailures?: number;
+  /** Number of episode scripts that are returned without their takeaways */
+  invalidScripts?: number;
+};
+
+function fakeScript(conversation: boolean, invalid: boolean) {
+  const { takeaways, ...rest } = FAKE_EPISODE;
+  const script = {
+    ...rest,
+    chapters: conversation
+      ? [{ heading: "Bread talk", turns: FAKE_DIALOGUE }]
+      : FAKE_EPISODE.chapters,
+    ...(invalid ? {} : { takeaways }),
+  };
+  return `Here you go:\n\`\`\`json\n${JSON.stringify(script)}\n\`\`\``;
+}
+
+/**
+ * Stand-in for the Workers AI binding. Text models answer with a fixed text
+ * (or FAKE_EPISODE when asked for a script), TTS models return small but
+ * valid MP3 files and the embedding model answers with stubEmbedding
+ * vectors. Every call is recorded for assertions.
+ */
+export function createFakeAI({
+  ttsFailures = 0,
+  emptyResponses = 0,
+  invalidScripts = 0,
+  embeddingFailures = 0,
+}: FakeAIOptions = {}) {
+  const calls: { model: string; inputs: Inputs }[] = [];
+
+  return {
+    calls,
+    async run(model: string, inputs: Inputs) {
+      calls.push({ model, inputs });
+
+      if (model === DEFAULT_MODELS.embedding) {
+        if (embeddingFailures > 0) {
+          embeddingFailures--;
+          throw new Error("Embeddings unavailable");
+        }
+        const texts = [inputs.text ?? []].flat();
+        return {
+          shape: [texts.length, stubEmbedding("").length],
+          data: texts.map(stubEmbedding),
+        };
+      }
+
+      const isTts =
+        model === "@cf/myshell-ai/melotts" || model.startsWith("@cf/deepgram/");
+      if (isTts && ttsFailures > 0) {
+        ttsFailures--;
+        throw new Error("TTS unavailable");
+      }
+      if (!isTts && emptyResponses > 0) {
+        emptyResponses--;
+        return { response: "" };
+      }
+
+      if (model === "@cf/myshell-ai/melotts") {
+        return { audio: toBase64(mp3File(2)) };
+      }
+      if (model.startsWith("@cf/deepgram/")) {
+        return new Response(mp3File(1)).body;
+      }
+
+      const prompt = inputs.messages?.map((m) => m.content).join("\n") ?? "";
+      if (prompt.includes("JSON object")) {
+        const invalid = invalidScripts > 0;
+        if (invalid) invalidScripts--;
+        return { response: fakeScript(prompt.includes('"turns"'), invalid) };
+      }
+      return { response: FAKE_RESPONSE };
+    },
+  };
+}
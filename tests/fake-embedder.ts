@@ -0,0 +1,38 @@
+import type { Embedder } from "../src/embeddings";
+import { DEFAULT_MODELS } from "../src/models";
+
+// Length of the stub's vectors
+const STUB_DIMENSIONS = 64;
+
+function hashWord(word: string) {
+  let hash = 0;
+  for (const char of word) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return hash % STUB_DIMENSIONS;
+}
+
+/**
+ * Bag-of-words stand-in for an embedding model: every word adds to one
+ * slot of the vector, so texts sharing words are similar and texts with no
+ * words in common are not
+ */
+export function stubEmbedding(text: string) {
+  const vector = new Array<number>(STUB_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    vector[hashWord(word)] += 1;
+  }
+  return vector;
+}
+
+/**
+ * Embedder that uses stubEmbedding instead of calling a model
+ */
+export function createStubEmbedder(
+  model: string = DEFAULT_MODELS.embedding
+): Embedder {
+  return {
+    model,
+    embed: async (texts) => texts.map(stubEmbedding),
+  };
+}
@@ -0,0 +1,127 @@
+import {
+  LocationNotFoundError,
+  type WeatherProvider,
+  type WeatherReport,
+} from "../src/weather";
+
+// Recorded Open-Meteo responses for Berlin, trimmed to the fields we request
+export const GEOCODING_FIXTURE = {
+  results: [
+    {
+      id: 2950159,
+      name: "Berlin",
+      latitude: 52.52437,
+      longitude: 13.41053,
+      country: "Germany",
+      admin1: "Land Berlin",
+      timezone: "Europe/Berlin",
+    },
+  ],
+  generationtime_ms: 0.8,
+};
+
+export const FORECAST_FIXTURE = {
+  latitude: 52.52,
+  longitude: 13.419998,
+  timezone: "Europe/Berlin",
+  current_units: { temperature_2m: "°C", wind_speed_10m: "km/h" },
+  current: {
+    time: "2025-06-01T14:00",
+    interval: 900,
+    temperature_2m: 21.4,
+    relative_humidity_2m: 48,
+    apparent_temperature: 20.1,
+    is_day: 1,
+    weather_code: 2,
+    wind_speed_10m: 11.2,
+  },
+  daily: {
+    time: ["2025-06-01", "2025-06-02", "2025-06-03"],
+    weather_code: [2, 61, 0],
+    temperature_2m_max: [23.1, 18.4, 25],
+    temperature_2m_min: [12.3, 11, 13.6],
+    precipitation_probability_max: [10, 80, null],
+  },
+};
+
+/**
+ * A fetch that answers Open-Meteo requests with the fixtures. Geocoding
+ * requests for any city other than Berlin find nothing. Every request URL is
+ * recorded.
+ */
+export function createFixtureFetch() {
+  const requests: URL[] = [];
+  const fetch = async (input: RequestInfo | URL) => {
+    const url = new URL(String(input));
+    requests.push(url);
+    if (url.hostname === "geocoding-api.open-meteo.com") {
+      const found = url.searchParams.get("name")?.toLowerCase() === "berlin";
+      return Response.json(found ? GEOCODING_FIXTURE : {});
+    }
+    return Response.json(FORECAST_FIXTURE);
+  };
+  return { requests, fetch: fetch as typeof globalThis.fetch };
+}
+
+export const BERLIN_REPORT: WeatherReport = {
+  location: {
+    name: "Berlin",
+    region: "Land Berlin",
+    country: "Germany",
+    latitude: 52.52437,
+    longitude: 13.41053,
+    timezone: "Europe/Berlin",
+  },
+  units: { temperature: "°C", windSpeed: "km/h" },
+  current: {
+    time: "2025-06-01T14:00",
+    temperature: 21.4,
+    apparentTemperature: 20.1,
+    humidity: 48,
+    windSpeed: 11.2,
+    weatherCode: 2,
+    description: "Partly cloudy",
+    isDay: true,
+  },
+  daily: [
+    {
+      date: "2025-06-01",
+      temperatureMax: 23.1,
+      temperatureMin: 12.3,
+      precipitationProbability: 10,
+      weatherCode: 2,
+      description: "Partly cloudy",
+    },
+    {
+      date: "2025-06-02",
+      temperatureMax: 18.4,
+      temperatureMin: 11,
+      precipitationProbability: 80,
+      weatherCode: 61,
+      description: "Slight rain",
+    },
+    {
+      date: "2025-06-03",
+      temperatureMax: 25,
+      temperatureMin: 13.6,
+      precipitationProbability: null,
+      weatherCode: 0,
+      description: "Clear sky",
+    },
+  ],
+};
+
+/**
+ * Stand-in weather provider that serves fixed reports by city name
+ */
+export function createFakeWeatherProvider(
+  reports: Record<string, WeatherReport> = { berlin: BERLIN_REPORT }
+): WeatherProvider {
+  return {
+    async getWeather(city) {
+      const report = reports[city.toLowerCase()];
+      if (!report) throw new LocationNotFoundError(city);
+      return report;
+    },
+  };
+}
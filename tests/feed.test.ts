@@ -0,0 +1,183 @@
+import {
+  createExecutionContext,
+  env,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import { XMLParser, XMLValidator } from "fast-xml-parser";
+import { beforeEach, describe, expect, it } from "vitest";
+import { audioKey } from "../src/audio";
+import { signFeedToken, signSessionToken } from "../src/auth";
+import { escapeXml, formatDuration } from "../src/feed";
+import { applyMigrations } from "../src/migrations";
+import worker from "../src/server";
+
+async function fetchFeed(path = "/feed.xml", headers?: HeadersInit) {
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(
+    new Request(`http://example.com${path}`, { headers }),
+    env,
+    ctx
+  );
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+describe("feed helpers", () => {
+  it("escapes markup and strips characters XML does not allow", () => {
+    expect(escapeXml(`Tom & "Jerry" <3 'em\u0007`)).toBe(
+      "Tom &amp; &quot;Jerry&quot; &lt;3 &apos;em"
+    );
+  });
+
+  it("formats itunes durations", () => {
+    expect(formatDuration(59.6)).toBe("00:01:00");
+    expect(formatDuration(3725)).toBe("01:02:05");
+  });
+});
+
+describe("GET /feed.xml", () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+    await env.DB.batch([
+      env.DB.prepare(
+        `INSERT INTO podcasts (topic, slug, url, script, created_at)
+         VALUES ('Text only', 'text-only', 'x', NULL, '2025-05-01 08:00:00')`
+      ),
+      env.DB.prepare(
+        `INSERT INTO podcasts (topic, slug, url, title, description, takeaways, tags, chapters, audio_key, has_captions, created_at)
+         VALUES ('Audio: jazz', 'jazz', 'x', 'All That Jazz', 'Swing in five minutes.', ?, ?, ?, 'podcasts/jazz.mp3', 1, '2025-04-01 08:00:00')`
+      ).bind(
+        JSON.stringify(["Listen to the bass"]),
+        JSON.stringify(["music", "jazz"]),
+        JSON.stringify([{ heading: "Swing", text: "...", startTime: 0 }])
+      ),
+      env.DB.prepare(
+        `INSERT INTO podcasts (topic, slug, url, script, audio_key, audio_size, audio_duration, created_at)
+         VALUES (?, 'rock-roll', 'x', ?, ?, 12345, 185.2, '2025-06-01 12:00:00')`
+      ).bind(
+        "Rock & Roll <Live>",
+        "Intro]]> & outro\u0000",
+        audioKey("rock-roll")
+      ),
+    ]);
+  });
+
+  it("emits a well-formed RSS 2.0 feed with iTunes tags", async () => {
+    const response = await fetchFeed();
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toContain(
+      "application/rss+xml"
+    );
+
+    const xml = await response.text();
+    expect(XMLValidator.validate(xml)).toBe(true);
+
+    const feed = new XMLParser({ ignoreAttributes: false }).parse(xml);
+    expect(feed.rss["@_version"]).toBe("2.0");
+    expect(feed.rss["@_xmlns:itunes"]).toBe(
+      "http://www.itunes.com/dtds/podcast-1.0.dtd"
+    );
+
+    const channel = feed.rss.channel;
+    expect(channel.title).toBe("Podcast Chat Agent");
+    expect(channel.item).toHaveLength(3);
+
+    const [latest, older, structured] = channel.item;
+    expect(latest.title).toBe("Rock & Roll <Live>");
+    expect(latest.description).toBe("Intro]]> & outro");
+    expect(latest.link).toBe(`${env.PUBLIC_BASE_URL}/p/rock-roll`);
+    expect(latest.guid["#text"]).toBe("rock-roll");
+    expect(latest.guid["@_isPermaLink"]).toBe("false");
+    expect(latest.pubDate).toBe("Sun, 01 Jun 2025 12:00:00 GMT");
+    expect(latest["itunes:duration"]).toBe("00:03:05");
+    expect(latest.enclosure).toEqual({
+      "@_url": `${env.PUBLIC_BASE_URL}/podcasts/rock-roll/audio.mp3`,
+      "@_length": "12345",
+      "@_type": "audio/mpeg",
+    });
+
+    expect(older.guid["#text"]).toBe("text-only");
+    expect(older.enclosure).toBeUndefined();
+    expect(older["itunes:duration"]).toBeUndefined();
+
+    expect(structured.title).toBe("All That Jazz");
+    expect(structured.description).toBe("Swing in five minutes.");
+    expect(structured["itunes:summary"]).toContain("- Listen to the bass");
+    expect(structured.category).toEqual(["music", "jazz"]);
+    expect(structured["podcast:chapters"]).toEqual({
+      "@_url": `${env.PUBLIC_BASE_URL}/podcasts/jazz/chapters.json`,
+      "@_type": "application/json+chapters",
+    });
+    expect(latest["podcast:chapters"]).toBeUndefined();
+    expect(structured["podcast:transcript"]).toEqual([
+      expect.objectContaining({
+        "@_url": `${env.PUBLIC_BASE_URL}/podcasts/jazz/transcript.vtt`,
+        "@_type": "text/vtt",
+        "@_rel": "captions",
+      }),
+      expect.objectContaining({
+        "@_url": `${env.PUBLIC_BASE_URL}/podcasts/jazz/transcript.srt`,
+        "@_type": "application/x-subrip",
+      }),
+    ]);
+    expect(latest["podcast:transcript"]).toBeUndefined();
+  });
+});
+
+describe("per-user feeds", () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+    await env.DB.batch(
+      [
+        ["mine", "feed-owner"],
+        ["theirs", "someone-else"],
+        ["legacy", null],
+      ].map(([slug, ownerId]) =>
+        env.DB.prepare(
+          `INSERT INTO podcasts (topic, slug, url, owner_id) VALUES (?, ?, 'x', ?)`
+        ).bind(slug, slug, ownerId)
+      )
+    );
+  });
+
+  async function feedSlugs(response: Response) {
+    const feed = new XMLParser().parse(await response.text());
+    return [feed.rss.channel.item ?? []].flat().map((item) => item.guid);
+  }
+
+  it("only lists a user's podcasts in the feed their token addresses", async () => {
+    const token = await signFeedToken("feed-owner", env.SESSION_SECRET);
+    const response = await fetchFeed(
+      `/feed.xml?token=${encodeURIComponent(token)}`
+    );
+    expect(response.headers.get("Cache-Control")).toContain("private");
+    expect(await feedSlugs(response)).toEqual(["mine"]);
+  });
+
+  it("keeps owned podcasts out of the public feed", async () => {
+    expect(await feedSlugs(await fetchFeed())).toEqual(["legacy"]);
+  });
+
+  it("rejects forged tokens and session tokens", async () => {
+    const session = await signSessionToken("feed-owner", env.SESSION_SECRET);
+    for (const token of [session, "feed-owner.forged"]) {
+      const response = await fetchFeed(
+        `/feed.xml?token=${encodeURIComponent(token)}`
+      );
+      expect(response.status).toBe(404);
+    }
+  });
+
+  it("hands signed-in users their feed URL", async () => {
+    const session = await signSessionToken("feed-owner", env.SESSION_SECRET);
+    const response = await fetchFeed("/api/feed", {
+      Authorization: `Bearer ${session}`,
+    });
+    const { url } = await response.json<{ url: string }>();
+    const token = await signFeedToken("feed-owner", env.SESSION_SECRET);
+    expect(url).toBe(
+      `${env.PUBLIC_BASE_URL}/feed.xml?token=${encodeURIComponent(token)}`
+    );
+    expect((await fetchFeed("/api/feed")).status).toBe(401);
+  });
+});
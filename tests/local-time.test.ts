@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatUtcOffset,
+  lookupLocalTime,
+  normalizePlace,
+  resolveTimeZone,
+  timeInZone,
+} from "../src/local-time";
+
+// 2025-07-15 12:00:00 UTC, when the northern hemisphere observes DST
+const SUMMER = new Date(Date.UTC(2025, 6, 15, 12, 0, 0));
+const WINTER = new Date(Date.UTC(2025, 0, 15, 12, 0, 0));
+
+describe("resolveTimeZone", () => {
+  it("resolves cities, including ones not named by a zone", () => {
+    expect(resolveTimeZone("Tokyo")).toEqual({
+      status: "resolved",
+      location: "Tokyo, Japan",
+      timeZone: "Asia/Tokyo",
+    });
+    expect(resolveTimeZone("san francisco")).toMatchObject({
+      timeZone: "America/Los_Angeles",
+    });
+    expect(resolveTimeZone("  São Paulo ")).toMatchObject({
+      timeZone: "America/Sao_Paulo",
+    });
+    expect(resolveTimeZone("Mumbai")).toMatchObject({
+      timeZone: "Asia/Kolkata",
+    });
+  });
+
+  it("accepts IANA zone names", () => {
+    expect(resolveTimeZone("Europe/Berlin")).toEqual({
+      status: "resolved",
+      location: "Europe/Berlin",
+      timeZone: "Europe/Berlin",
+    });
+    expect(resolveTimeZone("Mars/Olympus_Mons")).toEqual({
+      status: "not_found",
+    });
+  });
+
+  it("returns candidates for cities in several zones", () => {
+    const result = resolveTimeZone("Portland");
+    expect(result).toEqual({
+      status: "ambiguous",
+      candidates: [
+        {
+          label: "Portland, Maine, United States",
+          timeZone: "America/New_York",
+        },
+        {
+          label: "Portland, Oregon, United States",
+          timeZone: "America/Los_Angeles",
+        },
+      ],
+    });
+  });
+
+  it("narrows ambiguous cities by region or country", () => {
+    expect(resolveTimeZone("Portland, OR")).toMatchObject({
+      status: "resolved",
+      timeZone: "America/Los_Angeles",
+    });
+    expect(resolveTimeZone("Springfield, MA")).toMatchObject({
+      timeZone: "America/New_York",
+    });
+    expect(resolveTimeZone("Birmingham, UK")).toMatchObject({
+      timeZone: "Europe/London",
+    });
+    expect(resolveTimeZone("Paris, Texas")).toEqual({ status: "not_found" });
+  });
+
+  it("resolves countries with a single zone and lists the rest", () => {
+    expect(resolveTimeZone("Japan")).toEqual({
+      status: "resolved",
+      location: "Japan",
+      timeZone: "Asia/Tokyo",
+    });
+    const australia = resolveTimeZone("Australia");
+    expect(australia.status).toBe("ambiguous");
+    expect(
+      australia.status === "ambiguous" &&
+        australia.candidates.map((candidate) => candidate.timeZone)
+    ).toContain("Australia/Sydney");
+  });
+
+  it("normalizes accents and punctuation", () => {
+    expect(normalizePlace("St. John's")).toBe("st johns");
+    expect(normalizePlace("Zürich")).toBe("zurich");
+  });
+});
+
+describe("timeInZone", () => {
+  it("reports the local time, offset and DST flag", () => {
+    expect(timeInZone("Europe/London", SUMMER)).toEqual({
+      timeZone: "Europe/London",
+      localTime: "2025-07-15T13:00:00+01:00",
+      utcOffset: "+01:00",
+      isDst: true,
+    });
+    expect(timeInZone("Europe/London", WINTER)).toMatchObject({
+      localTime: "2025-01-15T12:00:00+00:00",
+      isDst: false,
+    });
+  });
+
+  it("handles negative, fractional and southern hemisphere offsets", () => {
+    expect(timeInZone("America/New_York", WINTER)).toMatchObject({
+      localTime: "2025-01-15T07:00:00-05:00",
+      isDst: false,
+    });
+    expect(timeInZone("Asia/Kolkata", SUMMER)).toMatchObject({
+      localTime: "2025-07-15T17:30:00+05:30",
+      isDst: false,
+    });
+    expect(timeInZone("Australia/Sydney", WINTER)).toMatchObject({
+      utcOffset: "+11:00",
+      isDst: true,
+    });
+  });
+
+  it("formats offsets", () => {
+    expect(formatUtcOffset(-210)).toBe("-03:30");
+    expect(formatUtcOffset(0)).toBe("+00:00");
+  });
+});
+
+describe("lookupLocalTime", () => {
+  it("combines resolution and the current time", () => {
+    expect(lookupLocalTime("Berlin", SUMMER)).toEqual({
+      status: "resolved",
+      location: "Berlin, Germany",
+      timeZone: "Europe/Berlin",
+      localTime: "2025-07-15T14:00:00+02:00",
+      utcOffset: "+02:00",
+      isDst: true,
+    });
+  });
+
+  it("asks the model to clarify ambiguous places", () => {
+    const result = lookupLocalTime("Springfield", SUMMER);
+    expect(result.status).toBe("ambiguous");
+    expect(result).toMatchObject({
+      query: "Springfield",
+      message: expect.stringContaining("Ask which one is meant"),
+    });
+  });
+
+  it("explains unknown places", () => {
+    expect(lookupLocalTime("Atlantis")).toMatchObject({
+      status: "not_found",
+      query: "Atlantis",
+    });
+  });
+});
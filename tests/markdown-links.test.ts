@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { episodeAudioSlug, safeLinkUrl } from "../src/markdown-links";
+
+const ORIGIN = "https://podcasts.example.com";
+
+describe("safeLinkUrl", () => {
+  it("allows web and mail links, resolving relative ones", () => {
+    expect(safeLinkUrl("https://example.com/a?b=c", ORIGIN)).toBe(
+      "https://example.com/a?b=c"
+    );
+    expect(safeLinkUrl("/p/bread", `${ORIGIN}/chat`)).toBe(`${ORIGIN}/p/bread`);
+    expect(safeLinkUrl("mailto:hi@example.com", ORIGIN)).toBe(
+      "mailto:hi@example.com"
+    );
+  });
+
+  it("drops script, data and other protocols", () => {
+    expect(safeLinkUrl("javascript:alert(1)", ORIGIN)).toBeNull();
+    expect(safeLinkUrl(" JaVaScRiPt:alert(1)", ORIGIN)).toBeNull();
+    expect(safeLinkUrl("data:text/html,<script>", ORIGIN)).toBeNull();
+    expect(safeLinkUrl("vbscript:msgbox", ORIGIN)).toBeNull();
+    expect(safeLinkUrl("http://[::1", ORIGIN)).toBeNull();
+  });
+});
+
+describe("episodeAudioSlug", () => {
+  it("recognises this app's episode audio", () => {
+    expect(
+      episodeAudioSlug(`${ORIGIN}/podcasts/audio-bread/audio.mp3`, ORIGIN)
+    ).toBe("audio-bread");
+    expect(episodeAudioSlug("/podcasts/caf%C3%A9/audio.mp3", ORIGIN)).toBe(
+      "café"
+    );
+  });
+
+  it("ignores other links", () => {
+    expect(
+      episodeAudioSlug("https://evil.example/podcasts/x/audio.mp3", ORIGIN)
+    ).toBeNull();
+    expect(episodeAudioSlug(`${ORIGIN}/p/audio-bread`, ORIGIN)).toBeNull();
+    expect(
+      episodeAudioSlug(`${ORIGIN}/podcasts/a/b/audio.mp3`, ORIGIN)
+    ).toBeNull();
+    expect(
+      episodeAudioSlug(`${ORIGIN}/podcasts/%E0/audio.mp3`, ORIGIN)
+    ).toBeNull();
+  });
+});
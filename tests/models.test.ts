@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_MODELS,
+  ModelResponseError,
+  resolveModels,
+  runTextModel,
+} from "../src/models";
+import type { Ai } from "@cloudflare/workers-types";
+
+function aiReturning(output: unknown) {
+  return { run: async () => output } as unknown as Ai;
+}
+
+const MODEL = DEFAULT_MODELS.scriptwriter;
+const MESSAGES = [{ role: "user", content: "Hi" }];
+
+describe("model registry", () => {
+  it("applies env overrides per role", () => {
+    expect(resolveModels({})).toEqual(DEFAULT_MODELS);
+    expect(
+      resolveModels({
+        TTS_MODEL: "@cf/deepgram/aura-1",
+        RECOMMENDER_MODEL: " ",
+      })
+    ).toEqual({ ...DEFAULT_MODELS, tts: "@cf/deepgram/aura-1" });
+  });
+
+  it("returns the text of valid responses", async () => {
+    expect(
+      await runTextModel(aiReturning({ response: "Hello" }), MODEL, MESSAGES)
+    ).toBe("Hello");
+    expect(
+      await runTextModel(aiReturning({ response: [1, 2] }), MODEL, MESSAGES)
+    ).toBe("[1,2]");
+  });
+
+  it("rejects responses with the wrong shape", async () => {
+    for (const output of [null, "Hello", {}, { response: 42 }]) {
+      await expect(
+        runTextModel(aiReturning(output), MODEL, MESSAGES)
+      ).rejects.toThrow(ModelResponseError);
+    }
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Builders for tiny synthetic MP3 files: silent MPEG-1 Layer III frames at
+ * 128 kbps / 44.1 kHz, each 417 bytes long and 1152 samples (~26ms)
+ */
+export const FRAME_LENGTH = 417;
+export const FRAME_SECONDS = 1152 / 44100;
+
+export function mp3Frame(fill = 0) {
+  const frame = new Uint8Array(FRAME_LENGTH).fill(fill);
+  frame.set([0xff, 0xfb, 0x90, 0x00]);
+  return frame;
+}
+
+/**
+ * An encoder "Info" header frame (stereo MPEG-1, so the tag sits after 32
+ * bytes of side info)
+ */
+export function infoFrame() {
+  const frame = mp3Frame();
+  frame.set(new TextEncoder().encode("Info"), 4 + 32);
+  return frame;
+}
+
+export function id3Tag(payloadSize = 20) {
+  const tag = new Uint8Array(10 + payloadSize);
+  tag.set([0x49, 0x44, 0x33, 0x04, 0x00, 0x00]);
+  tag.set(
+    [
+      (payloadSize >> 21) & 0x7f,
+      (payloadSize >> 14) & 0x7f,
+      (payloadSize >> 7) & 0x7f,
+      payloadSize & 0x7f,
+    ],
+    6
+  );
+  return tag;
+}
+
+export function mp3File(
+  frameCount: number,
+  { id3 = true, info = false, fill = 0 } = {}
+) {
+  const parts = [
+    ...(id3 ? [id3Tag()] : []),
+    ...(info ? [infoFrame()] : []),
+    ...Array.from({ length: frameCount }, () => mp3Frame(fill)),
+  ];
+  const file = new Uint8Array(parts.reduce((n, part) => n + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    file.set(part, offset);
+    offset += part.length;
+  }
+  return file;
+}
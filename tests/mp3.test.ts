@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { concatMp3, findFrames, id3v2Size, mp3Duration } from "../src/mp3";
+import { FRAME_LENGTH, FRAME_SECONDS, id3Tag, mp3File } from "./mp3-fixtures";
+
+describe("mp3", () => {
+  it("measures the ID3v2 tag", () => {
+    expect(id3v2Size(id3Tag(20))).toBe(30);
+    expect(id3v2Size(mp3File(1, { id3: false }))).toBe(0);
+  });
+
+  it("walks the frames after the ID3 tag", () => {
+    const frames = findFrames(mp3File(3));
+    expect(frames.map((frame) => frame.offset)).toEqual([
+      30,
+      30 + FRAME_LENGTH,
+      30 + 2 * FRAME_LENGTH,
+    ]);
+  });
+
+  it("computes the duration from frame headers", () => {
+    expect(mp3Duration(mp3File(100))).toBeCloseTo(100 * FRAME_SECONDS, 6);
+    expect(mp3Duration(new TextEncoder().encode("not an mp3"))).toBe(0);
+  });
+
+  it("concatenates files frame by frame, keeping only the first ID3 tag", () => {
+    const joined = concatMp3([mp3File(2), mp3File(3), mp3File(1)]);
+    expect(joined).toEqual(mp3File(6));
+    expect(findFrames(joined)).toHaveLength(6);
+  });
+
+  it("drops Xing/Info header frames when joining and measuring", () => {
+    const encoded = mp3File(2, { info: true });
+    expect(mp3Duration(encoded)).toBeCloseTo(2 * FRAME_SECONDS, 6);
+    expect(concatMp3([encoded, mp3File(1, { info: true })])).toEqual(
+      mp3File(3)
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, expect, it } from "vitest";
+import {
+  chapterIndexAt,
+  InvalidPlaybackPositionError,
+  MAX_PLAYBACK_POSITIONS,
+  nextChapterStart,
+  type PlaybackPositions,
+  previousChapterStart,
+  resumePosition,
+  updatePlaybackPositions,
+} from "../src/playback";
+import type { Chat } from "../src/server";
+
+const NOW = new Date(Date.UTC(2025, 5, 1, 12));
+
+const CHAPTERS = [
+  { title: "Intro", startTime: 0 },
+  { title: "Dough", startTime: 60 },
+  { title: "Baking", startTime: 180 },
+];
+
+describe("updatePlaybackPositions", () => {
+  it("records positions and forgets finished episodes", () => {
+    const positions = updatePlaybackPositions({}, "bread", 42.7, 300, NOW);
+    expect(positions).toEqual({
+      bread: { position: 42, duration: 300, updatedAt: NOW.toISOString() },
+    });
+    expect(resumePosition(positions, "bread")).toBe(42);
+    expect(resumePosition(positions, "cake")).toBe(0);
+
+    expect(updatePlaybackPositions(positions, "bread", 297, 300)).toEqual({});
+    // Without a duration the end of an episode isn't known
+    expect(updatePlaybackPositions({}, "bread", 297)).toMatchObject({
+      bread: { position: 297, duration: null },
+    });
+  });
+
+  it("keeps the most recently updated episodes", () => {
+    let positions: PlaybackPositions = {};
+    for (let i = 0; i <= MAX_PLAYBACK_POSITIONS; i++) {
+      positions = updatePlaybackPositions(
+        positions,
+        `episode-${i}`,
+        10,
+        null,
+        new Date(NOW.getTime() + i * 1000)
+      );
+    }
+    expect(Object.keys(positions)).toHaveLength(MAX_PLAYBACK_POSITIONS);
+    expect(positions["episode-0"]).toBeUndefined();
+    expect(positions[`episode-${MAX_PLAYBACK_POSITIONS}`]).toBeDefined();
+  });
+
+  it("rejects positions that aren't a time in an episode", () => {
+    expect(() => updatePlaybackPositions({}, "", 1)).toThrow(
+      InvalidPlaybackPositionError
+    );
+    expect(() => updatePlaybackPositions({}, "bread", -1)).toThrow(
+      "-1 is not a time"
+    );
+    expect(() => updatePlaybackPositions({}, "bread", Number.NaN)).toThrow(
+      InvalidPlaybackPositionError
+    );
+  });
+});
+
+describe("chapter navigation", () => {
+  it("finds the chapter playing and the next one", () => {
+    expect(chapterIndexAt(CHAPTERS, 0)).toBe(0);
+    expect(chapterIndexAt(CHAPTERS, 90)).toBe(1);
+    expect(chapterIndexAt([], 90)).toBe(-1);
+    expect(nextChapterStart(CHAPTERS, 90)).toBe(180);
+    expect(nextChapterStart(CHAPTERS, 200)).toBeNull();
+  });
+
+  it("restarts the chapter, or goes back one when it just started", () => {
+    expect(previousChapterStart(CHAPTERS, 90)).toBe(60);
+    expect(previousChapterStart(CHAPTERS, 61)).toBe(0);
+    expect(previousChapterStart(CHAPTERS, 1)).toBe(0);
+    expect(previousChapterStart([], 90)).toBe(0);
+  });
+});
+
+describe("Chat.savePlaybackPosition", () => {
+  it("syncs positions through the agent state", async () => {
+    const stub = env.Chat.get(env.Chat.idFromName("playback-test"));
+    await runInDurableObject(stub, async (chat: Chat) => {
+      await chat.savePlaybackPosition("bread", 42, 300);
+      expect(chat.state.playback).toMatchObject({
+        bread: { position: 42, duration: 300 },
+      });
+
+      await expect(chat.savePlaybackPosition("bread", -5)).rejects.toThrow(
+        InvalidPlaybackPositionError
+      );
+      await chat.savePlaybackPosition("bread", 300, 300);
+      expect(chat.state.playback).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { env } from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import { applyMigrations } from "../src/migrations";
+import { MAX_JOB_ATTEMPTS } from "../src/podcast-jobs";
+import { createFakeAI } from "./fake-ai";
+import { withChat } from "./with-chat";
+
+const CHAT_NAME = "podcast-jobs-test";
+
+describe("Podcast generation jobs", () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+  });
+
+  it("completes every step and reports progress in state", async () => {
+    const ai = createFakeAI();
+    await withChat(
+      CHAT_NAME,
+      async (chat) => {
+        const result = await chat.createAudioPodcast("baking");
+        expect(result.message).toContain("Audio podcast created successfully");
+        expect(result).toMatchObject({
+          kind: "podcast",
+          status: "completed",
+          podcast: {
+            title: "Learning to Bake Bread",
+            audio_url: `${env.PUBLIC_BASE_URL}/podcasts/audio-learning-to-bake-bread/audio.mp3`,
+            captions_url: `${env.PUBLIC_BASE_URL}/podcasts/audio-learning-to-bake-bread/transcript.vtt`,
+          },
+        });
+
+        const [job] = chat.state.jobs;
+        expect(job).toMatchObject({
+          topic: "baking",
+          status: "completed",
+          completedSteps: ["scripting", "synthesizing", "saving"],
+          url: `${env.PUBLIC_BASE_URL}/p/audio-learning-to-bake-bread`,
+        });
+      },
+      { ai }
+    );
+  });
+
+  it("resumes from the failed step after a scheduled retry", async () => {
+    // Enough failures to exhaust the per-chunk retries of both chapters on
+    // the first attempt
+    const ai = createFakeAI({ ttsFailures: 6 });
+    await withChat(
+      CHAT_NAME,
+      async (chat) => {
+        const result = await chat.createAudioPodcast("baking");
+        expect(result.message).toContain("will resume automatically");
+        expect(result).toMatchObject({ status: "retrying", podcast: null });
+
+        const [job] = chat.state.jobs;
+        expect(job).toMatchObject({
+          status: "retrying",
+          step: "synthesizing",
+          attempts: 1,
+          completedSteps: ["scripting"],
+        });
+
+        const [schedule] = chat.getSchedules();
+        expect(schedule).toMatchObject({
+          callback: "resumePodcastJob",
+          payload: job.id,
+        });
+
+        const scriptCalls = ai.calls.filter((c) => c.inputs.messages).length;
+        await chat.resumePodcastJob(job.id);
+
+        // The script was not written again
+        expect(ai.calls.filter((c) => c.inputs.messages)).toHaveLength(
+          scriptCalls
+        );
+        expect(chat.state.jobs[0].status).toBe("completed");
+
+        const lastMessage = chat.messages[chat.messages.length - 1];
+        expect(lastMessage.role).toBe("assistant");
+        expect(lastMessage.content).toContain(
+          "Audio podcast created successfully"
+        );
+      },
+      { ai }
+    );
+
+    const { results } = await env.DB.prepare(
+      "SELECT slug, audio_key FROM podcasts"
+    ).all();
+    expect(results).toHaveLength(1);
+    expect(results[0].audio_key).toBeTruthy();
+  });
+
+  it("fails the job once every attempt is used up", async () => {
+    const ai = createFakeAI({ emptyResponses: 9 });
+    await withChat(
+      CHAT_NAME,
+      async (chat) => {
+        await chat.createAudioPodcast("baking");
+        const jobId = chat.state.jobs[0].id;
+        await chat.resumePodcastJob(jobId);
+        await chat.resumePodcastJob(jobId);
+
+        expect(chat.state.jobs[0]).toMatchObject({
+          status: "failed",
+          step: "scripting",
+          attempts: 3,
+        });
+        const lastMessage = chat.messages[chat.messages.length - 1];
+        expect(lastMessage.content).toContain("failed while scripting");
+      },
+      { ai }
+    );
+
+    const row = await env.DB.prepare(
+      "SELECT COUNT(*) AS n FROM podcasts"
+    ).first();
+    expect(row).toEqual({ n: 0 });
+  });
+
+  it("counts restarts as attempts and queues each interrupted job once", async () => {
+    await withChat(CHAT_NAME, async (chat) => {
+      // A job left running, as if the agent was evicted mid-step
+      const job = chat.jobs.create("baking", "standard", "monologue");
+      const resumes = () =>
+        chat
+          .getSchedules()
+          .filter((schedule) => schedule.callback === "resumePodcastJob");
+
+      await chat.onStart();
+      expect(chat.jobs.get(job.id)).toMatchObject({
+        status: "retrying",
+        attempts: 1,
+      });
+      expect(resumes()).toHaveLength(1);
+
+      // Restarting again before the resume runs doesn't queue it twice
+      chat.jobs.save({ ...chat.jobs.get(job.id)!, status: "running" });
+      await chat.onStart();
+      expect(resumes()).toHaveLength(1);
+      expect(chat.jobs.get(job.id)?.attempts).toBe(1);
+
+      // A job that keeps getting cut off gives up
+      for (const schedule of resumes()) await chat.cancelSchedule(schedule.id);
+      chat.jobs.save({
+        ...chat.jobs.get(job.id)!,
+        status: "running",
+        attempts: MAX_JOB_ATTEMPTS - 1,
+      });
+      await chat.onStart();
+      expect(chat.jobs.get(job.id)).toMatchObject({
+        status: "failed",
+        attempts: MAX_JOB_ATTEMPTS,
+      });
+      expect(resumes()).toHaveLength(0);
+      const lastMessage = chat.messages[chat.messages.length - 1];
+      expect(lastMessage.content).toContain("failed while scripting");
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { env } from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import { applyMigrations } from "../src/migrations";
+import { InvalidCadenceError, validateCadence } from "../src/podcast-series";
+import { createFakeAI } from "./fake-ai";
+import { withChat } from "./with-chat";
+
+const CHAT_NAME = "podcast-series-test";
+
+describe("validateCadence", () => {
+  const now = new Date(Date.UTC(2025, 5, 1, 12));
+
+  it("returns the next episode time of daily and weekly crons", () => {
+    expect(validateCadence("0 8 * * 1", now)).toEqual(
+      new Date(Date.UTC(2025, 5, 2, 8))
+    );
+    expect(validateCadence("30 6 * * *", now)).toEqual(
+      new Date(Date.UTC(2025, 5, 2, 6, 30))
+    );
+  });
+
+  it("rejects malformed crons and ones that fire more than daily", () => {
+    expect(() => validateCadence("every monday", now)).toThrow(
+      InvalidCadenceError
+    );
+    expect(() => validateCadence("0 * * * *", now)).toThrow(
+      "at most once every 24 hours"
+    );
+    expect(() => validateCadence("0 8,20 * * 1", now)).toThrow(
+      InvalidCadenceError
+    );
+  });
+});
+
+describe("Podcast series", () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+  });
+
+  it("schedules a series and publishes episodes into it", async () => {
+    const ai = createFakeAI();
+    await withChat(
+      CHAT_NAME,
+      async (chat) => {
+        const created = await chat.createPodcastSeries(
+          "sourdough",
+          "0 8 * * 1",
+          "monologue",
+          "standard",
+          "Bread Mondays"
+        );
+        expect(created).toContain('Created the podcast series "Bread Mondays"');
+
+        const [series] = chat.series.list();
+        const [schedule] = chat.getSchedules();
+        expect(schedule).toMatchObject({
+          id: series.scheduleId,
+          callback: "runSeriesEpisode",
+          payload: series.id,
+          type: "cron",
+          cron: "0 8 * * 1",
+        });
+
+        await chat.runSeriesEpisode(series.id);
+        await chat.runSeriesEpisode(series.id);
+
+        // The second script knows what the first episode covered
+        const prompts = ai.calls
+          .filter((call) => call.inputs.messages)
+          .map((call) => call.inputs.messages!.at(-1)!.content);
+        expect(prompts[0]).not.toContain("part of a series");
+        expect(prompts[1]).toContain(
+          'Earlier episodes were titled "Learning to Bake Bread"'
+        );
+
+        expect(chat.series.get(series.id)).toMatchObject({
+          episodeCount: 2,
+          // The second episode's slug gets a suffix
+          lastEpisodeUrl: expect.stringMatching(
+            /\/p\/audio-learning-to-bake-bread-/
+          ),
+        });
+        const lastMessage = chat.messages[chat.messages.length - 1];
+        expect(lastMessage.content).toContain('New episode of "Bread Mondays"');
+        expect(await chat.listPodcastSeries()).toContain("Episodes: 2");
+
+        const { results } = await env.DB.prepare(
+          "SELECT series_id FROM podcasts"
+        ).all();
+        expect(results).toEqual([
+          { series_id: series.id },
+          { series_id: series.id },
+        ]);
+      },
+      { ai }
+    );
+  });
+
+  it("explains invalid and duplicate series", async () => {
+    await withChat(CHAT_NAME, async (chat) => {
+      expect(await chat.createPodcastSeries("bread", "*/5 * * * *")).toContain(
+        "at most once every 24 hours"
+      );
+      await chat.createPodcastSeries("bread", "0 8 * * *");
+      expect(await chat.createPodcastSeries("bread", "0 9 * * *")).toContain(
+        "already exists"
+      );
+      expect(chat.getSchedules()).toHaveLength(1);
+    });
+  });
+
+  it("pauses, resumes and deletes a series", async () => {
+    const ai = createFakeAI();
+    await withChat(
+      CHAT_NAME,
+      async (chat) => {
+        await chat.createPodcastSeries("bread", "0 8 * * *");
+        const [{ id }] = chat.series.list();
+
+        expect(await chat.pausePodcastSeries("Bread")).toContain("Paused");
+        expect(chat.getSchedules()).toHaveLength(0);
+        await chat.runSeriesEpisode(id);
+        expect(ai.calls).toHaveLength(0);
+
+        expect(await chat.resumePodcastSeries(id)).toContain("Resumed");
+        const [schedule] = chat.getSchedules();
+        expect(chat.series.get(id)).toMatchObject({
+          status: "active",
+          scheduleId: schedule.id,
+        });
+
+        expect(await chat.deletePodcastSeries("bread")).toContain("Deleted");
+        expect(chat.series.list()).toEqual([]);
+        expect(chat.getSchedules()).toHaveLength(0);
+        expect(await chat.pausePodcastSeries("bread")).toContain(
+          "No podcast series"
+        );
+      },
+      { ai }
+    );
+  });
+
+  it("cancels schedules left behind by deleted series", async () => {
+    await withChat(CHAT_NAME, async (chat) => {
+      const schedule = await chat.schedule(
+        "0 8 * * *",
+        "runSeriesEpisode",
+        "gone"
+      );
+      await chat.runSeriesEpisode("gone", schedule);
+      expect(chat.getSchedules()).toHaveLength(0);
+    });
+  });
+});
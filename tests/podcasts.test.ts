@@ -0,0 +1,422 @@
+import { env } from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  applyMigrations,
+  migrations,
+  splitStatements,
+} from "../src/migrations";
+import { DEFAULT_MODELS } from "../src/models";
+import { id3v2Size } from "../src/mp3";
+import { mentionsUrl, type PodcastRow, toPodcast } from "../src/podcasts";
+import { createFakeAI, FAKE_DIALOGUE, FAKE_EPISODE } from "./fake-ai";
+import { FRAME_SECONDS, mp3File } from "./mp3-fixtures";
+import { withChat } from "./with-chat";
+
+// Generated audio starts with a chapters tag, so compare the frames after it
+function audioFrames(bytes: Uint8Array) {
+  return bytes.subarray(id3v2Size(bytes));
+}
+
+// Agent instances are named after the user they belong to
+const OWNER_ID = "podcasts-test";
+
+describe("D1 migrations", () => {
+  it("applies every migration to an empty database exactly once", async () => {
+    const applied = await applyMigrations(env.DB);
+    expect(applied).toEqual(migrations.map((m) => m.id));
+    expect(await applyMigrations(env.DB)).toEqual([]);
+
+    const { results } = await env.DB.prepare(
+      "SELECT id, name FROM schema_migrations ORDER BY id"
+    ).all();
+    expect(results).toEqual(migrations.map(({ id, name }) => ({ id, name })));
+  });
+
+  it("adds baseline columns missing from a table made before migrations", async () => {
+    await env.DB.prepare(
+      `CREATE TABLE podcasts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        topic TEXT NOT NULL,
+        slug TEXT NOT NULL,
+        url TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )`
+    ).run();
+    await env.DB.prepare(
+      "INSERT INTO podcasts (topic, slug, url) VALUES ('Old', 'old', 'x')"
+    ).run();
+
+    expect(await applyMigrations(env.DB)).toEqual(migrations.map((m) => m.id));
+    const row = await env.DB.prepare(
+      "SELECT slug, script, audio_data FROM podcasts"
+    ).first();
+    expect(row).toEqual({ slug: "old", script: null, audio_data: null });
+  });
+
+  it("keeps trigger bodies together when splitting statements", () => {
+    const statements = splitStatements(`
+      CREATE TABLE a (id INTEGER); -- comment
+      CREATE TRIGGER a_ai AFTER INSERT ON a BEGIN
+        INSERT INTO b VALUES (new.id);
+      END;
+    `);
+    expect(statements).toHaveLength(2);
+    expect(statements[1]).toMatch(/BEGIN[\s\S]*END;$/);
+  });
+});
+
+describe("toPodcast", () => {
+  it("builds links from the base URL, not the stored url", () => {
+    const row = {
+      id: 1,
+      topic: "bread",
+      slug: "bread",
+      url: "https://podcaster.lizziepika.workers.dev/p/bread",
+      script: null,
+      audio_key: "podcasts/bread.mp3",
+      audio_size: null,
+      audio_duration: null,
+      title: null,
+      description: null,
+      chapters: null,
+      takeaways: null,
+      tags: null,
+      has_captions: 0,
+      created_at: "2025-06-01 12:00:00",
+    } satisfies PodcastRow;
+    expect(toPodcast(row, "https://podcasts.example.com/")).toMatchObject({
+      url: "https://podcasts.example.com/p/bread",
+      audio_url: "https://podcasts.example.com/podcasts/bread/audio.mp3",
+    });
+  });
+});
+
+describe("mentionsUrl", () => {
+  it("only finds whole URLs", () => {
+    const url = "https://example.com/p/bread";
+    expect(mentionsUrl(`Try ${url}.`, url)).toBe(true);
+    expect(mentionsUrl(`(${url})`, url)).toBe(true);
+    expect(mentionsUrl(`Try ${url}-rolls`, url)).toBe(false);
+    expect(mentionsUrl(`${url}-rolls or ${url}`, url)).toBe(true);
+    expect(mentionsUrl("Try the bread one", url)).toBe(false);
+  });
+});
+
+describe("Podcast storage", () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+  });
+
+  it("generates a podcast page", async () => {
+    const result = await withChat(OWNER_ID, (chat) =>
+      chat.generatePodcast("baking")
+    );
+    expect(result).toContain(`${env.PUBLIC_BASE_URL}/p/baking`);
+
+    const row = await env.DB.prepare(
+      "SELECT topic, slug FROM podcasts"
+    ).first();
+    expect(row).toEqual({ topic: "baking", slug: "baking" });
+  });
+
+  it("gives podcasts on the same topic distinct slugs", async () => {
+    await withChat(OWNER_ID, (chat) => chat.generatePodcast("Baking"));
+    const result = await withChat(OWNER_ID, (chat) =>
+      chat.generatePodcast("baking!")
+    );
+    expect(result).toMatch(/\/p\/baking-[a-z0-9]{4} /);
+
+    const { results } = await env.DB.prepare(
+      "SELECT slug FROM podcasts ORDER BY id"
+    ).all<{ slug: string }>();
+    expect(results.map((row) => row.slug)).toEqual([
+      "baking",
+      expect.stringMatching(/^baking-[a-z0-9]{4}$/),
+    ]);
+  });
+
+  it("creates an audio podcast with script and audio", async () => {
+    const result = await withChat(OWNER_ID, (chat) =>
+      chat.createAudioPodcast("baking", "accessible")
+    );
+    expect(result.message).toContain("Audio podcast created successfully");
+
+    const row = await env.DB.prepare(
+      "SELECT topic, slug, script, audio_key, audio_data, model, tts_model FROM podcasts"
+    ).first<{
+      topic: string;
+      slug: string;
+      script: string;
+      audio_key: string;
+      audio_data: string | null;
+      model: string;
+      tts_model: string;
+    }>();
+    expect(row?.topic).toBe("Accessible: baking");
+    expect(row?.slug).toBe("audio-learning-to-bake-bread");
+    expect(row?.script).toBe(
+      "Flour, water, salt and yeast.\n\nBake until the crust is golden."
+    );
+    expect(row?.audio_data).toBeNull();
+    expect(row?.model).toBe(DEFAULT_MODELS.scriptwriter);
+    expect(row?.tts_model).toBe(DEFAULT_MODELS.tts);
+
+    // Each chapter is voiced separately and the clips are stitched together
+    const audio = await env.AUDIO.get(row!.audio_key);
+    expect(audioFrames(new Uint8Array(await audio!.arrayBuffer()))).toEqual(
+      audioFrames(mp3File(4))
+    );
+  });
+
+  it("creates a two-host conversation podcast", async () => {
+    const ai = createFakeAI();
+    const result = await withChat(
+      OWNER_ID,
+      (chat) => chat.createAudioPodcast("baking", "standard", "conversation"),
+      { ai }
+    );
+    expect(result.message).toContain("Audio podcast created successfully");
+
+    // One TTS call per turn, alternating host voices
+    const speakers = ai.calls
+      .filter((call) => call.model.startsWith("@cf/deepgram/"))
+      .map((call) => call.inputs);
+    expect(speakers).toEqual(
+      FAKE_DIALOGUE.map((turn) =>
+        expect.objectContaining({
+          text: turn.text,
+          speaker: turn.speaker === "A" ? "asteria" : "orion",
+        })
+      )
+    );
+
+    const row = await env.DB.prepare(
+      "SELECT topic, script, audio_key, audio_duration FROM podcasts"
+    ).first<{
+      topic: string;
+      script: string;
+      audio_key: string;
+      audio_duration: number;
+    }>();
+    expect(row?.topic).toBe("Conversation: baking");
+    expect(row?.script).toBe(
+      "Host A: Welcome to the show!\n\nHost B: Today we talk about bread.\n\nHost A: Thanks for listening."
+    );
+
+    // Each turn is captioned with its host
+    const captions = await env.AUDIO.get(
+      row!.audio_key.replace(".mp3", ".vtt")
+    );
+    expect(await captions!.text()).toContain(
+      "<v Host B>Today we talk about bread."
+    );
+
+    // The three single-frame clips are stitched into one three-frame file
+    const audio = await env.AUDIO.get(row!.audio_key);
+    expect(audioFrames(new Uint8Array(await audio!.arrayBuffer()))).toEqual(
+      audioFrames(mp3File(3))
+    );
+  });
+
+  it("voices conversation hosts with the hosts model", async () => {
+    const ai = createFakeAI();
+    await withChat(
+      OWNER_ID,
+      (chat) => chat.createAudioPodcast("baking", "standard", "conversation"),
+      {
+        ai,
+        vars: {
+          TTS_MODEL: "@cf/myshell-ai/melotts",
+          HOSTS_MODEL: "@cf/deepgram/aura-2-en",
+        },
+      }
+    );
+
+    expect(
+      new Set(
+        ai.calls
+          .filter((call) => call.model.startsWith("@cf/deepgram/"))
+          .map((call) => call.model)
+      )
+    ).toEqual(new Set(["@cf/deepgram/aura-2-en"]));
+    const row = await env.DB.prepare("SELECT tts_model FROM podcasts").first();
+    expect(row).toEqual({ tts_model: "@cf/deepgram/aura-2-en" });
+  });
+
+  it("stores the structured script metadata", async () => {
+    await withChat(OWNER_ID, (chat) => chat.createAudioPodcast("baking"));
+
+    const row = await env.DB.prepare(
+      "SELECT title, description, chapters, takeaways, tags FROM podcasts"
+    ).first<Record<string, string>>();
+    expect(row?.title).toBe(FAKE_EPISODE.title);
+    expect(row?.description).toBe(FAKE_EPISODE.description);
+    expect(JSON.parse(row!.chapters)).toEqual(
+      FAKE_EPISODE.chapters.map(({ heading, body }) =>
+        expect.objectContaining({ heading, text: body })
+      )
+    );
+    expect(JSON.parse(row!.takeaways)).toEqual(FAKE_EPISODE.takeaways);
+    expect(JSON.parse(row!.tags)).toEqual(["baking", "bread"]);
+  });
+
+  it("times each chapter and publishes the markers", async () => {
+    const podcasts = await withChat(OWNER_ID, async (chat) => {
+      await chat.createAudioPodcast("baking");
+      return chat.state.podcasts;
+    });
+
+    // Every chapter is two frames of audio
+    const chapterSeconds = 2 * FRAME_SECONDS;
+    expect(podcasts[0].chapters).toEqual([
+      { title: "Getting started", startTime: 0 },
+      { title: "Baking", startTime: chapterSeconds },
+    ]);
+
+    const row = await env.DB.prepare(
+      "SELECT chapters, audio_key FROM podcasts"
+    ).first<{ chapters: string; audio_key: string }>();
+    expect(JSON.parse(row!.chapters)[1]).toMatchObject({
+      startTime: chapterSeconds,
+      endTime: 2 * chapterSeconds,
+    });
+
+    const file = await env.AUDIO.get(
+      row!.audio_key.replace(".mp3", ".chapters.json")
+    );
+    expect(await file!.json()).toMatchObject({
+      chapters: [
+        { title: "Getting started", startTime: 0 },
+        { title: "Baking", startTime: expect.closeTo(chapterSeconds, 3) },
+      ],
+    });
+  });
+
+  it("asks the model to repair an invalid script", async () => {
+    const ai = createFakeAI({ invalidScripts: 1 });
+    const result = await withChat(
+      OWNER_ID,
+      (chat) => chat.createAudioPodcast("baking"),
+      { ai }
+    );
+    expect(result.message).toContain("Audio podcast created successfully");
+
+    const scriptCalls = ai.calls.filter((call) => call.inputs.messages);
+    expect(scriptCalls).toHaveLength(2);
+    expect(scriptCalls[1].inputs.messages?.at(-1)?.content).toContain(
+      "takeaways"
+    );
+  });
+
+  it("lists and recommends stored podcasts", async () => {
+    await withChat(OWNER_ID, (chat) => chat.generatePodcast("baking"));
+
+    const list = await withChat(OWNER_ID, (chat) => chat.listRecentPodcasts(5));
+    expect(list).toMatchObject({
+      kind: "podcast-list",
+      message: expect.stringContaining("Recent podcasts (1)"),
+      podcasts: [expect.objectContaining({ topic: "baking", audio_url: null })],
+    });
+
+    const recommendation = await withChat(OWNER_ID, (chat) =>
+      chat.recommendPodcast("hungry")
+    );
+    expect(recommendation).toMatchObject({
+      kind: "recommendation",
+      message: expect.stringContaining('Podcast Recommendation for "hungry"'),
+      mood: "hungry",
+    });
+  });
+
+  it("links the closest podcast when the model gives no answer", async () => {
+    await withChat(OWNER_ID, (chat) => chat.generatePodcast("baking"));
+
+    // Without an answer from the model, the closest embedding match is
+    // recommended
+    const recommendation = await withChat(
+      OWNER_ID,
+      (chat) => chat.recommendPodcast("baking bread"),
+      { ai: createFakeAI({ emptyResponses: 1 }) }
+    );
+    expect(recommendation).toMatchObject({
+      kind: "recommendation",
+      message: expect.stringContaining("Found a matching podcast"),
+      podcasts: [expect.objectContaining({ topic: "baking", slug: "baking" })],
+    });
+  });
+
+  it("syncs new podcasts into the library state", async () => {
+    const podcasts = await withChat(OWNER_ID, async (chat) => {
+      await chat.createAudioPodcast("baking");
+      return chat.state.podcasts;
+    });
+    expect(podcasts).toEqual([
+      expect.objectContaining({
+        topic: "Audio: baking",
+        title: FAKE_EPISODE.title,
+        slug: "audio-learning-to-bake-bread",
+        audio_url: `${env.PUBLIC_BASE_URL}/podcasts/audio-learning-to-bake-bread/audio.mp3`,
+      }),
+    ]);
+  });
+
+  it("hydrates the library from D1 on start", async () => {
+    await env.DB.prepare(
+      "INSERT INTO podcasts (topic, slug, url, script, owner_id) VALUES (?, ?, ?, ?, ?)"
+    )
+      .bind(
+        "bread",
+        "bread",
+        "https://example.com/p/bread",
+        "Knead it",
+        OWNER_ID
+      )
+      .run();
+
+    const podcasts = await withChat(OWNER_ID, async (chat) => {
+      await chat.onStart();
+      return chat.state.podcasts;
+    });
+    expect(podcasts).toEqual([
+      expect.objectContaining({
+        topic: "bread",
+        slug: "bread",
+        audio_url: null,
+      }),
+    ]);
+  });
+
+  it("only lists and recommends the owner's podcasts", async () => {
+    await env.DB.prepare(
+      "INSERT INTO podcasts (topic, slug, url, owner_id) VALUES (?, ?, ?, ?)"
+    )
+      .bind(
+        "gardening",
+        "gardening",
+        "https://example.com/p/gardening",
+        "someone-else"
+      )
+      .run();
+
+    expect(await withChat(OWNER_ID, (chat) => chat.listRecentPodcasts(5))).toBe(
+      "No podcasts have been generated yet."
+    );
+    expect(
+      await withChat(OWNER_ID, (chat) => chat.recommendPodcast("calm"))
+    ).toContain("No podcasts have been generated yet.");
+
+    await withChat(OWNER_ID, (chat) => chat.generatePodcast("baking"));
+    const list = await withChat(OWNER_ID, (chat) => chat.listRecentPodcasts(5));
+    expect(list).toMatchObject({
+      message: expect.stringContaining("Recent podcasts (1)"),
+      podcasts: [expect.objectContaining({ topic: "baking" })],
+    });
+
+    const owner = await env.DB.prepare(
+      "SELECT owner_id FROM podcasts WHERE topic = ?"
+    )
+      .bind("baking")
+      .first("owner_id");
+    expect(owner).toBe(OWNER_ID);
+  });
+});
@@ -0,0 +1,175 @@
+import { env } from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import { applyMigrations } from "../src/migrations";
+import { pendingTasks, resolveScheduleWhen } from "../src/schedules";
+import { tools } from "../src/tools";
+import { withChat } from "./with-chat";
+
+const NOW = new Date(Date.UTC(2025, 5, 1, 12));
+
+const CHAT_NAME = "schedules-test";
+
+// Runs a tool's execute function as the model would
+function runTool<T extends "scheduleTask" | "listScheduledTasks">(
+  name: T,
+  args: Parameters<NonNullable<(typeof tools)[T]["execute"]>>[0]
+) {
+  const execute = tools[name].execute as (
+    args: unknown,
+    options: unknown
+  ) => Promise<unknown>;
+  return execute(args, { toolCallId: "call", messages: [] });
+}
+
+describe("resolveScheduleWhen", () => {
+  it("accepts future dates, positive delays and cron patterns", () => {
+    expect(
+      resolveScheduleWhen("scheduled", "2025-06-02T09:00:00Z", NOW)
+    ).toEqual({ when: new Date("2025-06-02T09:00:00Z") });
+    expect(resolveScheduleWhen("delayed", "90.5", NOW)).toEqual({ when: 91 });
+    expect(resolveScheduleWhen("cron", "0 9 * * 1-5", NOW)).toEqual({
+      when: "0 9 * * 1-5",
+    });
+  });
+
+  it("describes values that don't fit the type", () => {
+    expect(resolveScheduleWhen("scheduled", "tomorrow", NOW)).toMatchObject({
+      error: expect.stringContaining("is not a date"),
+    });
+    expect(
+      resolveScheduleWhen("scheduled", "2025-05-01T09:00:00Z", NOW)
+    ).toEqual({ error: "2025-05-01T09:00:00.000Z is in the past" });
+    expect(resolveScheduleWhen("delayed", -5, NOW)).toMatchObject({
+      error: expect.stringContaining("positive number of seconds"),
+    });
+    expect(resolveScheduleWhen("cron", "every day", NOW)).toMatchObject({
+      error: expect.stringContaining("not a valid cron expression"),
+    });
+    expect(resolveScheduleWhen("cron", 60, NOW)).toMatchObject({
+      error: "60 is not a cron expression",
+    });
+  });
+});
+
+describe("pendingTasks", () => {
+  it("skips due one-off tasks and moves running crons on", () => {
+    const seconds = NOW.getTime() / 1000;
+    const tasks = pendingTasks(
+      [
+        {
+          id: "cron",
+          callback: "executeTask",
+          payload: "stand-up",
+          type: "cron",
+          cron: "0 12 * * *",
+          time: seconds,
+        },
+        {
+          id: "due",
+          callback: "executeTask",
+          payload: "running",
+          type: "delayed",
+          delayInSeconds: 10,
+          time: seconds,
+        },
+        {
+          id: "later",
+          callback: "executeTask",
+          payload: "later",
+          type: "scheduled",
+          time: seconds + 60,
+        },
+      ],
+      (schedule) => String(schedule.payload),
+      NOW
+    );
+    expect(tasks).toEqual([
+      {
+        id: "later",
+        type: "scheduled",
+        callback: "executeTask",
+        description: "later",
+        nextRun: "2025-06-01T12:01:00.000Z",
+      },
+      {
+        id: "cron",
+        type: "cron",
+        callback: "executeTask",
+        description: "stand-up",
+        cron: "0 12 * * *",
+        nextRun: "2025-06-02T12:00:00.000Z",
+      },
+    ]);
+  });
+});
+
+describe("schedule tools", () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+  });
+
+  it("rejects invalid crons before scheduling anything", async () => {
+    await withChat(CHAT_NAME, async (chat) => {
+      const result = await runTool("scheduleTask", {
+        type: "cron",
+        when: "every monday",
+        payload: "stand-up",
+      });
+      expect(result).toContain("not a valid cron expression");
+      expect(chat.getSchedules()).toHaveLength(0);
+    });
+  });
+
+  it("lists scheduled tasks and syncs them to state", async () => {
+    await withChat(CHAT_NAME, async (chat) => {
+      expect(await runTool("listScheduledTasks", {})).toBe(
+        "No tasks are scheduled."
+      );
+      const result = await runTool("scheduleTask", {
+        type: "delayed",
+        when: 3600,
+        payload: "remind me to stretch",
+      });
+      const [task] = chat.state.schedules;
+      expect(task).toMatchObject({
+        type: "delayed",
+        callback: "executeTask",
+        description: "remind me to stretch",
+      });
+      expect(result).toEqual({
+        kind: "scheduled-task",
+        message: expect.stringMatching(/^Task scheduled \(id: .+\) for /),
+        task,
+      });
+      expect(await runTool("listScheduledTasks", {})).toContain(
+        `• remind me to stretch (id: ${task.id}) - once, at `
+      );
+
+      expect(await chat.cancelScheduledTask(task.id)).toBe(
+        "🗑️ Cancelled the scheduled task: remind me to stretch."
+      );
+      expect(chat.getSchedules()).toHaveLength(0);
+      expect(chat.state.schedules).toEqual([]);
+      expect(await chat.cancelScheduledTask(task.id)).toContain(
+        "No scheduled task"
+      );
+    });
+  });
+
+  it("pauses a series instead of orphaning it", async () => {
+    await withChat(CHAT_NAME, async (chat) => {
+      await chat.createPodcastSeries("bread", "0 8 * * *");
+      const [task] = chat.getScheduledTasks();
+      expect(task.description).toBe('Publish the next episode of "bread"');
+
+      expect(await chat.cancelScheduledTask(task.id)).toContain(
+        'Paused the podcast series "bread"'
+      );
+      expect(chat.series.list()[0]).toMatchObject({
+        status: "paused",
+        scheduleId: null,
+      });
+      expect(chat.state.schedules).toEqual([]);
+    });
+  });
+});
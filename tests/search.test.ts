@@ -0,0 +1,231 @@
+import {
+  createExecutionContext,
+  env,
+  runInDurableObject,
+  waitOnExecutionContext,
+} from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import { signSessionToken } from "../src/auth";
+import { applyMigrations } from "../src/migrations";
+import {
+  InvalidSearchError,
+  searchPodcasts,
+  snippetToMarkdown,
+  splitSnippet,
+  toFtsQuery,
+} from "../src/search";
+import worker, { type Chat } from "../src/server";
+
+const OWNER_ID = "search-owner";
+const BASE_URL = "https://podcasts.example.com";
+
+async function insertPodcast(
+  slug: string,
+  fields: {
+    topic: string;
+    title?: string;
+    script?: string;
+    audioKey?: string;
+    accessible?: boolean;
+    createdAt?: string;
+    ownerId?: string;
+  }
+) {
+  await env.DB.prepare(
+    `INSERT INTO podcasts (topic, slug, url, title, script, audio_key, accessible, owner_id, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  )
+    .bind(
+      fields.topic,
+      slug,
+      `${BASE_URL}/p/${slug}`,
+      fields.title ?? null,
+      fields.script ?? null,
+      fields.audioKey ?? null,
+      fields.accessible ? 1 : 0,
+      fields.ownerId ?? OWNER_ID,
+      fields.createdAt ?? "2025-06-01 12:00:00"
+    )
+    .run();
+}
+
+function search(query: string, filters = {}) {
+  return searchPodcasts(env.DB, OWNER_ID, query, BASE_URL, filters);
+}
+
+async function fetchSearch(query: string, userId: string | null = OWNER_ID) {
+  const headers = userId
+    ? {
+        Authorization: `Bearer ${await signSessionToken(userId, env.SESSION_SECRET)}`,
+      }
+    : undefined;
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(
+    new Request(`http://example.com/api/podcasts/search?${query}`, { headers }),
+    env,
+    ctx
+  );
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+describe("toFtsQuery", () => {
+  it("quotes words so FTS5 syntax is searched as text", () => {
+    expect(toFtsQuery("Sourdough bread")).toBe('"sourdough"* "bread"*');
+    expect(toFtsQuery('title:"x" OR NEAR(a b)', true)).toBe(
+      '"title"* OR "x"* OR "or"* OR "near"* OR "a"* OR "b"*'
+    );
+    expect(() => toFtsQuery(" *:- ")).toThrow(InvalidSearchError);
+  });
+
+  it("splits snippets into highlighted parts", () => {
+    const snippet = "…the **best** \uE000bread\uE001 rises";
+    expect(splitSnippet(snippet)).toEqual([
+      { text: "…the **best** ", highlighted: false },
+      { text: "bread", highlighted: true },
+      { text: " rises", highlighted: false },
+    ]);
+    expect(snippetToMarkdown(snippet)).toBe("…the **best** **bread** rises");
+  });
+});
+
+describe("searchPodcasts", () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+    await insertPodcast("bread", {
+      topic: "Audio: baking",
+      title: "Learning to bake bread",
+      script: "Flour, water, salt and yeast. Knead the dough.",
+      audioKey: "podcasts/bread.mp3",
+      accessible: true,
+      createdAt: "2025-06-01 09:00:00",
+    });
+    await insertPodcast("dough", {
+      topic: "pizza",
+      script: "A good pizza starts with bread dough left to rise overnight.",
+      createdAt: "2025-06-10 09:00:00",
+    });
+    await insertPodcast("someone-elses-bread", {
+      topic: "bread",
+      ownerId: "someone-else",
+    });
+  });
+
+  it("ranks title and topic matches above script matches", async () => {
+    const results = await search("bread");
+    expect(results.map((result) => result.podcast.slug)).toEqual([
+      "bread",
+      "dough",
+    ]);
+    expect(results[0].podcast).toMatchObject({
+      title: "Learning to bake bread",
+      audio_url: `${BASE_URL}/podcasts/bread/audio.mp3`,
+    });
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+    expect(results[1].snippet).toContain("\uE000bread\uE001");
+  });
+
+  it("only highlights matches in scripts that use markdown bold", async () => {
+    await insertPodcast("bold", {
+      topic: "proofing",
+      script: "Let it **rest** before shaping the loaf.",
+    });
+    const [result] = await search("loaf");
+    expect(splitSnippet(result.snippet)).toEqual([
+      { text: "Let it **rest** before shaping the ", highlighted: false },
+      { text: "loaf", highlighted: true },
+      { text: ".", highlighted: false },
+    ]);
+  });
+
+  it("matches word prefixes and stems", async () => {
+    expect((await search("knead")).map((r) => r.podcast.slug)).toEqual([
+      "bread",
+    ]);
+    expect((await search("rising")).map((r) => r.podcast.slug)).toEqual([
+      "dough",
+    ]);
+    expect((await search("piz")).map((r) => r.podcast.slug)).toEqual(["dough"]);
+    expect(await search("bread cake")).toEqual([]);
+    expect(await search("bread cake", { matchAny: true })).toHaveLength(2);
+  });
+
+  it("filters by date, audio and accessibility", async () => {
+    const slugs = async (filters: object) =>
+      (await search("bread", filters)).map((r) => r.podcast.slug);
+    expect(await slugs({ from: "2025-06-02" })).toEqual(["dough"]);
+    expect(await slugs({ to: "2025-06-01" })).toEqual(["bread"]);
+    expect(await slugs({ audioOnly: true })).toEqual(["bread"]);
+    expect(await slugs({ accessible: true })).toEqual(["bread"]);
+    expect(await slugs({ limit: 1 })).toEqual(["bread"]);
+    await expect(search("bread", { from: "2025-02-30" })).rejects.toThrow(
+      "from must be a date like 2025-06-01"
+    );
+  });
+
+  it("keeps the index in sync with updates and deletes", async () => {
+    await env.DB.prepare(
+      "UPDATE podcasts SET title = 'Neapolitan pizza' WHERE slug = 'bread'"
+    ).run();
+    expect((await search("neapolitan")).map((r) => r.podcast.slug)).toEqual([
+      "bread",
+    ]);
+
+    await env.DB.prepare("DELETE FROM podcasts WHERE slug = 'dough'").run();
+    expect((await search("pizza")).map((r) => r.podcast.slug)).toEqual([
+      "bread",
+    ]);
+  });
+
+  it("is available to the agent as a tool result", async () => {
+    const stub = env.Chat.get(env.Chat.idFromName(OWNER_ID));
+    const [found, missing] = await runInDurableObject(
+      stub,
+      async (chat: Chat) => {
+        await chat.setName(OWNER_ID);
+        return [
+          await chat.searchPodcasts("bread", { audioOnly: true }),
+          await chat.searchPodcasts("cake"),
+        ];
+      }
+    );
+    expect(found).toMatchObject({
+      kind: "podcast-search",
+      message: expect.stringContaining('Podcasts matching "bread" (1)'),
+      results: [expect.objectContaining({ snippet: expect.any(String) })],
+    });
+    expect(missing).toBe('🔍 No podcasts found matching "cake".');
+  });
+});
+
+describe("GET /api/podcasts/search", () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+    await insertPodcast("bread", { topic: "bread", audioKey: "bread.mp3" });
+  });
+
+  it("returns the signed-in user's matches", async () => {
+    const response = await fetchSearch("q=bread&audio=1");
+    expect(response.status).toBe(200);
+    const body = await response.json<{ query: string; results: unknown[] }>();
+    expect(body.query).toBe("bread");
+    expect(body.results).toEqual([
+      expect.objectContaining({
+        podcast: expect.objectContaining({ slug: "bread" }),
+      }),
+    ]);
+
+    const other = await fetchSearch("q=bread", "someone-else");
+    expect(await other.json()).toMatchObject({ results: [] });
+  });
+
+  it("rejects invalid searches and anonymous callers", async () => {
+    const empty = await fetchSearch("q=");
+    expect(empty.status).toBe(400);
+    expect(await empty.json()).toEqual({
+      error: "Search for at least one word",
+    });
+    expect((await fetchSearch("q=bread&limit=ten")).status).toBe(400);
+    expect((await fetchSearch("q=bread", null)).status).toBe(401);
+  });
+});
@@ -0,0 +1,119 @@
+import { env } from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import { applyMigrations } from "../src/migrations";
+import {
+  FALLBACK_SLUG,
+  insertWithUniqueSlug,
+  isSlugConflict,
+  MAX_SLUG_LENGTH,
+  slugify,
+  withSlugSuffix,
+} from "../src/slugs";
+
+const SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+describe("slugify", () => {
+  it("normalizes titles into lowercase hyphenated words", () => {
+    expect(slugify("Learning to Bake Bread")).toBe("learning-to-bake-bread");
+    expect(slugify("  Rock & Roll: 1950s–1970s!  ")).toBe(
+      "rock-and-roll-1950s-1970s"
+    );
+  });
+
+  it("transliterates accented and special letters", () => {
+    expect(slugify("Crème Brûlée à la Française")).toBe(
+      "creme-brulee-a-la-francaise"
+    );
+    expect(slugify("Straße, Smørrebrød & Łódź")).toBe(
+      "strasse-smorrebrod-and-lodz"
+    );
+    expect(slugify("ＦＵＬＬＷＩＤＴＨ ﬁsh")).toBe("fullwidth-fish");
+  });
+
+  it("survives hostile model output", () => {
+    const hostile = [
+      '"learning-to-bake-bread"',
+      "Sure! Here is your slug:\n\n`learning-to-bake-bread`",
+      "../../etc/passwd",
+      "<script>alert('x')</script>",
+      "slug with spaces\tand\ttabs\r\n",
+      "🍞🔥 bread 🔥🍞",
+      "a%20b?c=d#e",
+      "-".repeat(200),
+    ];
+    for (const output of hostile) {
+      const slug = slugify(output);
+      expect(slug).toMatch(SLUG_PATTERN);
+      expect(slug.length).toBeLessThanOrEqual(MAX_SLUG_LENGTH);
+    }
+    expect(slugify("../../etc/passwd")).toBe("etc-passwd");
+  });
+
+  it("falls back when nothing survives", () => {
+    expect(slugify("")).toBe(FALLBACK_SLUG);
+    expect(slugify("🎧🎧🎧")).toBe(FALLBACK_SLUG);
+    expect(slugify("日本のパン")).toBe(FALLBACK_SLUG);
+  });
+
+  it("cuts long titles at a word boundary", () => {
+    const slug = slugify(
+      "The Complete History of Sourdough Bread From Ancient Egypt to Modern San Francisco Bakeries"
+    );
+    expect(slug).toBe(
+      "the-complete-history-of-sourdough-bread-from-ancient-egypt"
+    );
+    expect(slugify("x".repeat(100))).toBe("x".repeat(MAX_SLUG_LENGTH));
+  });
+
+  it("keeps suffixed slugs within the length limit", () => {
+    const long = slugify("word ".repeat(40));
+    const suffixed = withSlugSuffix(long, "ab12");
+    expect(suffixed).toMatch(SLUG_PATTERN);
+    expect(suffixed.length).toBeLessThanOrEqual(MAX_SLUG_LENGTH);
+    expect(suffixed.endsWith("-ab12")).toBe(true);
+  });
+});
+
+describe("insertWithUniqueSlug", () => {
+  beforeEach(async () => {
+    await applyMigrations(env.DB);
+  });
+
+  const insert = (slug: string) =>
+    env.DB.prepare("INSERT INTO podcasts (topic, slug, url) VALUES (?, ?, ?)")
+      .bind("Bread", slug, `https://example.com/p/${slug}`)
+      .run();
+
+  it("retries taken slugs with a short suffix", async () => {
+    expect((await insertWithUniqueSlug("bread", insert)).slug).toBe("bread");
+    const { slug } = await insertWithUniqueSlug("bread", insert);
+    expect(slug).toMatch(/^bread-[a-z0-9]{4}$/);
+
+    const { results } = await env.DB.prepare(
+      "SELECT slug FROM podcasts ORDER BY id"
+    ).all();
+    expect(results).toEqual([{ slug: "bread" }, { slug }]);
+  });
+
+  it("gives up after the maximum number of attempts", async () => {
+    let attempts = 0;
+    const alwaysTaken = async () => {
+      attempts++;
+      throw new Error("D1_ERROR: UNIQUE constraint failed: podcasts.slug");
+    };
+    await expect(insertWithUniqueSlug("bread", alwaysTaken, 3)).rejects.toThrow(
+      "UNIQUE constraint failed"
+    );
+    expect(attempts).toBe(3);
+  });
+
+  it("does not retry other errors", async () => {
+    const error = new Error("D1_ERROR: no such table: podcasts");
+    expect(isSlugConflict(error)).toBe(false);
+    await expect(
+      insertWithUniqueSlug("bread", async () => {
+        throw error;
+      })
+    ).rejects.toBe(error);
+  });
+});
@@ -0,0 +1,152 @@
+import type { Message } from "@ai-sdk/ui-utils";
+import { type DataStreamWriter, tool } from "ai";
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+  APPROVAL,
+  requiresConfirmation,
+  TOOL_CONFIRMATIONS,
+} from "../src/shared";
+import { executions, tools } from "../src/tools";
+import { applyConfirmationPolicy, processToolCalls } from "../src/utils";
+
+const greet = vi.fn(async ({ name }: { name: string }) => `Hello, ${name}!`);
+
+const confirmed = applyConfirmationPolicy(
+  {
+    greet: tool({
+      description: "greet someone",
+      parameters: z.object({ name: z.string() }),
+      execute: greet,
+    }),
+    shout: tool({
+      description: "shout something",
+      parameters: z.object({ text: z.string() }),
+      execute: async ({ text }) => text.toUpperCase(),
+    }),
+  },
+  { greet: { allowForSession: true } }
+);
+
+function createDataStream() {
+  return { write: vi.fn() } as unknown as DataStreamWriter & {
+    write: ReturnType<typeof vi.fn>;
+  };
+}
+
+// A conversation whose last message has the user's answer to a tool call
+function answered(toolName: string, result: unknown): Message[] {
+  return [
+    { id: "1", role: "user", content: "Say hello to Ada" },
+    {
+      id: "2",
+      role: "assistant",
+      content: "",
+      parts: [
+        { type: "text", text: "Let me greet Ada." },
+        {
+          type: "tool-invocation",
+          toolInvocation: {
+            state: "result",
+            toolCallId: "call-1",
+            toolName,
+            args: toolName === "greet" ? { name: "Ada" } : { text: "hi" },
+            result,
+          },
+        },
+      ],
+    },
+  ];
+}
+
+function lastInvocation(messages: Message[]) {
+  const part = messages.at(-1)!.parts!.at(-1)!;
+  if (part.type !== "tool-invocation") throw new Error("Not a tool call");
+  return part.toolInvocation as { result?: unknown };
+}
+
+describe("applyConfirmationPolicy", () => {
+  it("moves the execute functions of confirmed tools to executions", () => {
+    expect(confirmed.tools.greet).not.toHaveProperty("execute");
+    expect(confirmed.tools.greet.description).toBe("greet someone");
+    expect(confirmed.tools.shout.execute).toBeTypeOf("function");
+    expect(confirmed.executions).toEqual({ greet });
+  });
+
+  it("rejects confirmed tools without an execute function", () => {
+    expect(() =>
+      applyConfirmationPolicy(
+        { greet: tool({ parameters: z.object({}) }) },
+        { greet: { allowForSession: false } }
+      )
+    ).toThrow("Tool greet has no execute function");
+  });
+
+  it("is how the agent's tools are built from the shared policy", () => {
+    for (const name of Object.keys(TOOL_CONFIRMATIONS)) {
+      expect(requiresConfirmation(name)).toBe(true);
+      expect(tools[name as keyof typeof tools]).not.toHaveProperty("execute");
+      expect(executions[name as keyof typeof executions]).toBeTypeOf(
+        "function"
+      );
+    }
+    // Confirmed tools can still run server logic once approved
+    expect(executions.createAudioPodcast).toBeTypeOf("function");
+    expect(requiresConfirmation("getLocalTime")).toBe(false);
+    expect(requiresConfirmation("toString")).toBe(false);
+    expect(tools.getLocalTime.execute).toBeTypeOf("function");
+  });
+});
+
+describe("processToolCalls", () => {
+  it("runs approved tool calls and streams their result", async () => {
+    greet.mockClear();
+    const dataStream = createDataStream();
+    const messages = await processToolCalls({
+      ...confirmed,
+      dataStream,
+      messages: answered("greet", APPROVAL.YES),
+    });
+
+    expect(greet).toHaveBeenCalledWith(
+      { name: "Ada" },
+      expect.objectContaining({ toolCallId: "call-1" })
+    );
+    expect(lastInvocation(messages).result).toBe("Hello, Ada!");
+    expect(dataStream.write).toHaveBeenCalledOnce();
+    expect(dataStream.write.mock.calls[0][0]).toContain("Hello, Ada!");
+  });
+
+  it("reports denied tool calls without running them", async () => {
+    greet.mockClear();
+    const dataStream = createDataStream();
+    const messages = await processToolCalls({
+      ...confirmed,
+      dataStream,
+      messages: answered("greet", APPROVAL.NO),
+    });
+
+    expect(greet).not.toHaveBeenCalled();
+    expect(lastInvocation(messages).result).toBe(
+      "Error: User denied access to tool execution"
+    );
+    expect(dataStream.write.mock.calls[0][0]).toContain("denied");
+  });
+
+  it("leaves other answers and tools outside the policy alone", async () => {
+    greet.mockClear();
+    const dataStream = createDataStream();
+    const unknown = answered("greet", "Maybe later");
+    expect(
+      await processToolCalls({ ...confirmed, dataStream, messages: unknown })
+    ).toEqual(unknown);
+
+    const automatic = answered("shout", "HI");
+    expect(
+      await processToolCalls({ ...confirmed, dataStream, messages: automatic })
+    ).toEqual(automatic);
+
+    expect(greet).not.toHaveBeenCalled();
+    expect(dataStream.write).not.toHaveBeenCalled();
+  });
+});
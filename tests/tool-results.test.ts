@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { isToolError, isToolResult } from "../src/tool-results";
+
+describe("isToolResult", () => {
+  it("recognises structured results by kind", () => {
+    const result = { kind: "podcast-list", message: "📻", podcasts: [] };
+    expect(isToolResult(result, "podcast-list")).toBe(true);
+    expect(isToolResult(result, "podcast")).toBe(false);
+    expect(isToolResult("📻 Recent podcasts (0)", "podcast-list")).toBe(false);
+    expect(isToolResult(null, "podcast-list")).toBe(false);
+    expect(isToolResult({ kind: "podcast-list" }, "podcast-list")).toBe(false);
+  });
+});
+
+describe("isToolError", () => {
+  it("recognises the failures tools report as text", () => {
+    expect(isToolError("Error: User denied access to tool execution")).toBe(
+      true
+    );
+    expect(isToolError('Error scheduling task: "x" is not a delay')).toBe(true);
+    expect(isToolError("Failed to get recommendations. Error: boom")).toBe(
+      true
+    );
+    expect(isToolError('⚠️ Audio podcast generation for "x" failed')).toBe(
+      true
+    );
+    expect(isToolError("No podcasts have been generated yet.")).toBe(false);
+    expect(isToolError({ error: "not text" })).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import type { Ai } from "@cloudflare/workers-types";
+import { concatMp3 } from "../src/mp3";
+import {
+  mapWithConcurrency,
+  splitIntoChunks,
+  synthesizeSegments,
+  withRetries,
+} from "../src/tts";
+import { FRAME_SECONDS, mp3File } from "./mp3-fixtures";
+
+describe("splitIntoChunks", () => {
+  it("keeps short paragraphs together", () => {
+    expect(splitIntoChunks("One.\n\nTwo.", 100)).toEqual(["One. Two."]);
+  });
+
+  it("splits long paragraphs on sentence boundaries", () => {
+    const text = "First sentence here. Second sentence here! Third one?";
+    expect(splitIntoChunks(text, 25)).toEqual([
+      "First sentence here.",
+      "Second sentence here!",
+      "Third one?",
+    ]);
+  });
+
+  it("falls back to word boundaries for runaway sentences", () => {
+    const chunks = splitIntoChunks("alpha beta gamma delta epsilon", 12);
+    expect(chunks).toEqual(["alpha beta", "gamma delta", "epsilon"]);
+  });
+
+  it("never exceeds the chunk size and keeps every word", () => {
+    const script = Array.from(
+      { length: 200 },
+      (_, i) => `Sentence number ${i} talks about bread.`
+    ).join(" ");
+    const chunks = splitIntoChunks(script, 300);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((chunk) => chunk.length <= 300)).toBe(true);
+    expect(chunks.join(" ")).toBe(script);
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("limits calls in flight and keeps result order", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const results = await mapWithConcurrency([5, 1, 3, 2, 4], 2, async (n) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, n));
+      inFlight--;
+      return n * 10;
+    });
+    expect(results).toEqual([50, 10, 30, 20, 40]);
+    expect(maxInFlight).toBe(2);
+  });
+});
+
+describe("withRetries", () => {
+  it("retries until the call succeeds", async () => {
+    let attempts = 0;
+    const result = await withRetries(
+      async () => {
+        if (++attempts < 3) throw new Error("flaky");
+        return "ok";
+      },
+      2,
+      0
+    );
+    expect(result).toBe("ok");
+    expect(attempts).toBe(3);
+  });
+
+  it("gives up after the last retry", async () => {
+    await expect(
+      withRetries(() => Promise.reject(new Error("down")), 1, 0)
+    ).rejects.toThrow("down");
+  });
+});
+
+describe("synthesizeSegments", () => {
+  it("voices each chunk and stitches each segment's clips together", async () => {
+    const prompts: string[] = [];
+    let failures = 0;
+    const ai = {
+      async run(_model: string, inputs: { prompt: string }) {
+        // The first request fails once to exercise the per-chunk retry
+        if (inputs.prompt.startsWith("Chunk 0") && failures++ === 0) {
+          throw new Error("Temporary TTS failure");
+        }
+        prompts.push(inputs.prompt);
+        return new Uint8Array(mp3File(1, { info: true }));
+      },
+    } as unknown as Ai;
+
+    const chunks = (from: number, to: number) =>
+      Array.from({ length: to - from }, (_, i) => `Chunk ${from + i}.`);
+    const segments = await synthesizeSegments(
+      ai,
+      [
+        { text: chunks(0, 4).join("\n\n") },
+        { text: chunks(4, 6).join("\n\n") },
+      ],
+      { maxChunkChars: 10, retryDelayMs: 0 }
+    );
+
+    expect(prompts.sort()).toEqual(chunks(0, 6));
+    expect(segments.map((segment) => segment.audio)).toEqual([
+      mp3File(4),
+      mp3File(2),
+    ]);
+    expect(segments[1].chunks).toEqual([
+      { text: "Chunk 4.", duration: FRAME_SECONDS },
+      { text: "Chunk 5.", duration: FRAME_SECONDS },
+    ]);
+
+    // The podcast's audio is the segments joined in order
+    expect(concatMp3(segments.map((segment) => segment.audio))).toEqual(
+      mp3File(6)
+    );
+  });
+});
@@ -0,0 +1,78 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, expect, it } from "vitest";
+import type { Chat } from "../src/server";
+import {
+  createOpenMeteoProvider,
+  describeWeatherCode,
+  LocationNotFoundError,
+  WeatherProviderError,
+} from "../src/weather";
+import {
+  BERLIN_REPORT,
+  createFakeWeatherProvider,
+  createFixtureFetch,
+} from "./fake-weather";
+
+describe("Open-Meteo provider", () => {
+  it("geocodes the city and maps the forecast into a report", async () => {
+    const { requests, fetch } = createFixtureFetch();
+    const report = await createOpenMeteoProvider({ fetch }).getWeather(
+      "Berlin"
+    );
+    expect(report).toEqual(BERLIN_REPORT);
+
+    const [geocoding, forecast] = requests;
+    expect(geocoding.searchParams.get("name")).toBe("Berlin");
+    expect(forecast.searchParams.get("latitude")).toBe("52.52437");
+    expect(forecast.searchParams.get("timezone")).toBe("Europe/Berlin");
+    expect(forecast.searchParams.get("forecast_days")).toBe("3");
+  });
+
+  it("reports unknown cities", async () => {
+    const { fetch } = createFixtureFetch();
+    await expect(
+      createOpenMeteoProvider({ fetch }).getWeather("Atlantis")
+    ).rejects.toBeInstanceOf(LocationNotFoundError);
+  });
+
+  it("rejects failed and malformed responses", async () => {
+    const failing = createOpenMeteoProvider({
+      fetch: async () => new Response("down", { status: 503 }),
+    });
+    await expect(failing.getWeather("Berlin")).rejects.toThrow(
+      "answered with HTTP 503"
+    );
+
+    const malformed = createOpenMeteoProvider({
+      fetch: async () => Response.json({ results: [{ name: "Berlin" }] }),
+    });
+    await expect(malformed.getWeather("Berlin")).rejects.toBeInstanceOf(
+      WeatherProviderError
+    );
+  });
+
+  it("describes WMO weather codes", () => {
+    expect(describeWeatherCode(0)).toBe("Clear sky");
+    expect(describeWeatherCode(1234)).toBe("Unknown conditions");
+  });
+});
+
+describe("weather tool", () => {
+  async function getWeather(city: string) {
+    const stub = env.Chat.get(env.Chat.idFromName("weather-test"));
+    return runInDurableObject(stub, async (instance: Chat) => {
+      instance.weather = createFakeWeatherProvider();
+      return instance.getWeather(city);
+    });
+  }
+
+  it("returns the structured report", async () => {
+    expect(await getWeather("Berlin")).toEqual(BERLIN_REPORT);
+  });
+
+  it("explains when the city can't be found", async () => {
+    expect(await getWeather("Atlantis")).toContain(
+      'Could not find a location called "Atlantis"'
+    );
+  });
+});
@@ -0,0 +1,26 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { agentContext, type Chat } from "../src/server";
+import { createFakeAI } from "./fake-ai";
+
+type ChatOptions = {
+  ai?: ReturnType<typeof createFakeAI>;
+  // Extra env vars, e.g. model overrides
+  vars?: Record<string, string>;
+};
+
+/**
+ * Runs callback inside the Chat agent named name, with ai in place of
+ * Workers AI, as the agent would run a tool call
+ */
+export async function withChat<R>(
+  name: string,
+  callback: (chat: Chat) => Promise<R>,
+  { ai = createFakeAI(), vars = {} }: ChatOptions = {}
+) {
+  const stub = env.Chat.get(env.Chat.idFromName(name));
+  return runInDurableObject(stub, async (instance: Chat) => {
+    Object.assign(instance, { env: { ...env, ...vars, AI: ai } });
+    await instance.setName(name);
+    return agentContext.run(instance, () => callback(instance));
+  });
+}
@@ -10,6 +10,12 @@ export default defineWorkersConfig({
     poolOptions: {
       workers: {
         wrangler: { configPath: "./wrangler.jsonc" },
+        miniflare: {
+          bindings: {
+            SESSION_SECRET: "test-session-secret",
+            PUBLIC_BASE_URL: "http://localhost:5173",
+          },
+        },
       },
     },
   },
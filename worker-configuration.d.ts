@@ -5,6 +5,11 @@ declare namespace Cloudflare {
 	interface Env {
 		OPENAI_API_KEY: string;
 		Chat: DurableObjectNamespace<import("./src/server").Chat>;
+		AI: Ai;
+		DB: D1Database;
+		AUDIO: R2Bucket;
+		PUBLIC_BASE_URL: string;
+		SESSION_SECRET: string;
 	}
 }
 interface Env extends Cloudflare.Env {}
@@ -12,7 +17,7 @@ type StringifyValues<EnvType extends Record<string, unknown>> = {
 	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
 };
 declare namespace NodeJS {
-	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "OPENAI_API_KEY">> {}
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "OPENAI_API_KEY" | "PUBLIC_BASE_URL" | "SESSION_SECRET">> {}
 }
 
 // Begin runtime types